@@ -0,0 +1,105 @@
+// Local stand-in for the hospital backend, for developing the live feed offline.
+//
+//   GET /api/hospital   current snapshot (use with VITE_HOSPITAL_DATA_SOURCE=rest)
+//   GET /live/events    Server-Sent Events stream of { deltas, sentAt } messages
+//   ws://…/live         the same messages over WebSocket
+//
+// The hospital is generated and mutated with the app's own services (loaded through Vite),
+// so every delta keeps the data consistent.
+import http from "node:http";
+import { createServer as createViteServer } from "vite";
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const INTERVAL_MS = Number(process.env.LIVE_INTERVAL_MS ?? 4000);
+
+const vite = await createViteServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "warn",
+});
+const service = await vite.ssrLoadModule("/src/services/hospitalDataService.ts");
+const { diffHospitals } = await vite.ssrLoadModule("/src/services/liveUpdates.ts");
+
+// Dated relative to startup rather than the fixed time seeded tests use, so waits and cleaning times
+// in the feed look current
+let hospital = service.generateHospitalData({ seed: process.env.SEED ?? "mock-live", referenceTime: Date.now() });
+
+const pick = (items) => items[Math.floor(Math.random() * items.length)];
+const NAMES = ["Alex Morgan", "Sam Rivera", "Jordan Lee", "Casey Kim", "Taylor Brooks", "Robin Diaz"];
+
+// One random, valid operation, as a real ward would produce
+const mutations = [
+  (h) => {
+    const bed = pick(h.beds.filter((b) => b.status === "cleaning"));
+    return bed && service.updateBedStatus(h, bed.id, "available");
+  },
+  (h) => {
+    const bed = pick(h.beds.filter((b) => b.status === "available"));
+    return bed && service.admitPatient(h, bed.id, {
+      name: pick(NAMES),
+      admissionType: bed.floor,
+      status: Math.random() < 0.2 ? "critical" : "stable",
+    });
+  },
+  (h) => {
+    const patient = pick(h.patients.filter((p) => p.bedId && p.status === "stable"));
+    return patient && service.dischargePatient(h, patient.id);
+  },
+  (h) => {
+    const patient = pick(h.patients.filter((p) => p.bedId));
+    return patient && service.updatePatientStatus(h, patient.id, patient.status === "critical" ? "stable" : "critical");
+  },
+  (h) => {
+    const item = pick(h.equipment);
+    return item && service.updateEquipmentStatus(h, item.id, pick(["working", "maintenance", "offline"]));
+  },
+];
+
+const sseClients = new Set();
+const server = http.createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  if (req.url === "/api/hospital") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(hospital));
+  } else if (req.url === "/live/events") {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    sseClients.add(res);
+    req.on("close", () => sseClients.delete(res));
+  } else {
+    res.writeHead(404);
+    res.end();
+  }
+});
+const wss = new WebSocketServer({ server, path: "/live" });
+
+const broadcast = (message) => {
+  const data = JSON.stringify(message);
+  sseClients.forEach((res) => res.write(`data: ${data}\n\n`));
+  wss.clients.forEach((socket) => socket.readyState === socket.OPEN && socket.send(data));
+};
+
+setInterval(() => {
+  let next;
+  try {
+    next = pick(mutations)(hospital);
+  } catch (error) {
+    if (!(error instanceof service.HospitalOperationError)) throw error;
+  }
+  if (!next) return;
+
+  const deltas = diffHospitals(hospital, next);
+  hospital = next;
+  broadcast({ deltas, sentAt: new Date().toISOString() });
+  console.log(`sent ${deltas.length} deltas to ${sseClients.size + wss.clients.size} clients`);
+}, INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Mock hospital server on http://localhost:${PORT}`);
+});
@@ -16,6 +16,9 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/floors/:floorId" element={<Index />} />
+          <Route path="/floors/:floorId/:entity/:entityId" element={<Index />} />
+          <Route path="/:entity/:entityId" element={<Index />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
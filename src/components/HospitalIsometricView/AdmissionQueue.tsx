@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Hospital, PendingAdmission } from '@/types/hospital';
+import {
+  ADMISSION_SOURCE_LABELS,
+  AdmissionQueueSummary,
+  AdmissionRequest,
+  getAdmissionQueueSummary,
+  getSuitableBeds,
+} from '@/services/admissionQueue';
+import { useNow } from '@/hooks/use-now';
+import AdmissionRequestDialog from './AdmissionRequestDialog';
+import { BedDouble, Clock, Plus, ShieldAlert, UserPlus, X } from 'lucide-react';
+
+// What can be done from the queue; without them the queue is read-only, e.g. while replaying history
+export interface AdmissionQueueHandlers {
+  // Returns whether the patient joined the queue
+  onQueueAdmission: (request: AdmissionRequest) => boolean;
+  onReserveBed: (admissionId: string, bedId: string) => void;
+  onReleaseReservation: (admissionId: string) => void;
+  onAdmit: (admissionId: string) => void;
+  onCancel: (admissionId: string) => void;
+}
+
+interface AdmissionQueueProps {
+  hospital: Hospital;
+  // Only the queue of this floor's kind is listed when set
+  selectedFloor?: string | null;
+  handlers?: AdmissionQueueHandlers;
+  onBedSelect?: (bedId: string) => void;
+}
+
+const formatWait = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+};
+
+const getWait = (admission: PendingAdmission, now: number) =>
+  Math.max(0, now - new Date(admission.requestedAt).getTime());
+
+// Patients waiting for a bed per kind of floor, with how long they have been waiting; each can get a
+// suitable bed reserved, and is admitted to it from here
+const AdmissionQueue: React.FC<AdmissionQueueProps> = ({ hospital, selectedFloor, handlers, onBedSelect }) => {
+  const now = useNow();
+  const [isRequestDialogOpen, setIsRequestDialogOpen] = useState(false);
+
+  const floorType = selectedFloor ? hospital.floors.find(f => f.id === selectedFloor)?.type : undefined;
+  const summaries = getAdmissionQueueSummary(hospital, now).filter(entry => !floorType || entry.floorType === floorType);
+  const waitingCount = summaries.reduce((count, entry) => count + entry.admissions.length, 0);
+
+  const renderAdmission = (admission: PendingAdmission) => {
+    const reservedBed = admission.reservedBedId ? hospital.beds.find(b => b.id === admission.reservedBedId) : undefined;
+    const suitableBeds = handlers && !reservedBed ? getSuitableBeds(hospital, admission) : [];
+
+    return (
+      <div
+        key={admission.id}
+        className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-1.5"
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">{admission.patientName}</div>
+            {admission.diagnosis && <div className="text-xs text-muted-foreground truncate">{admission.diagnosis}</div>}
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <span className="flex items-center text-xs text-muted-foreground">
+              <Clock className="h-3 w-3 mr-1" />
+              {formatWait(getWait(admission, now))}
+            </span>
+            {handlers && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handlers.onCancel(admission.id)}
+                aria-label={`Cancel the admission of ${admission.patientName}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <Badge variant="secondary" className="text-[10px] px-1.5">{ADMISSION_SOURCE_LABELS[admission.source]}</Badge>
+          {admission.isolation && (
+            <Badge variant="outline" className="border-amber-500/30 text-amber-600 dark:text-amber-300 text-[10px] px-1.5">
+              <ShieldAlert className="h-3 w-3 mr-0.5" />
+              Isolation
+            </Badge>
+          )}
+        </div>
+
+        {reservedBed ? (
+          <div className="flex items-center justify-between gap-2">
+            <button
+              type="button"
+              className="flex items-center text-xs text-violet-600 dark:text-violet-300 hover:underline"
+              onClick={() => onBedSelect?.(reservedBed.id)}
+            >
+              <BedDouble className="h-3.5 w-3.5 mr-1" />
+              {reservedBed.room} · {reservedBed.id}
+            </button>
+            {handlers && (
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handlers.onReleaseReservation(admission.id)}>
+                  Release
+                </Button>
+                <Button size="sm" className="h-7 px-2 text-xs" onClick={() => handlers.onAdmit(admission.id)}>
+                  <UserPlus className="h-3.5 w-3.5 mr-1" />
+                  Admit
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : handlers ? (
+          <Select value="" onValueChange={(bedId) => handlers.onReserveBed(admission.id, bedId)} disabled={suitableBeds.length === 0}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue placeholder={suitableBeds.length > 0 ? 'Reserve a bed' : 'No suitable bed available'} />
+            </SelectTrigger>
+            <SelectContent>
+              {suitableBeds.map(bed => (
+                <SelectItem key={bed.id} value={bed.id} className="text-xs">
+                  {bed.room} · {bed.id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div className="text-xs text-muted-foreground">No bed reserved</div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSummary = (entry: AdmissionQueueSummary) => (
+    <div key={entry.floorType} className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{entry.floors.map(floor => floor.name).join(', ')}</span>
+        <span className="text-xs text-muted-foreground">
+          {entry.admissions.length} waiting · {entry.reservedCount} reserved
+        </span>
+      </div>
+
+      {entry.admissions.length > 0 && (
+        <div className="text-xs px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+          Longest wait {formatWait(entry.longestWaitMs)} · average {formatWait(entry.averageWaitMs)} · {entry.availableBedCount} {entry.availableBedCount === 1 ? 'bed' : 'beds'} available
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {entry.admissions.map(renderAdmission)}
+        {entry.admissions.length === 0 && (
+          <p className="text-xs text-muted-foreground">Nobody waiting</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {waitingCount} {waitingCount === 1 ? 'patient' : 'patients'} waiting for a bed
+        </span>
+        {handlers && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setIsRequestDialogOpen(true)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Queue patient
+          </Button>
+        )}
+      </div>
+
+      {summaries.map(renderSummary)}
+
+      {handlers && (
+        <AdmissionRequestDialog
+          open={isRequestDialogOpen}
+          onOpenChange={setIsRequestDialogOpen}
+          hospital={hospital}
+          onSubmit={handlers.onQueueAdmission}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdmissionQueue;
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { AdmissionSource, FloorType, Hospital } from '@/types/hospital';
+import { ADMISSION_SOURCES, ADMISSION_SOURCE_LABELS, AdmissionRequest } from '@/services/admissionQueue';
+
+interface AdmissionRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  hospital: Hospital;
+  // Returns whether the patient joined the queue, so the dialog stays open on errors
+  onSubmit: (request: AdmissionRequest) => boolean;
+}
+
+// Kind of floor a new request asks for by default, per source
+const DEFAULT_SOURCE_FLOOR: Record<AdmissionSource, FloorType> = {
+  emergency: 'Emergency',
+  transfer: 'General',
+  'elective-surgery': 'Surgery',
+};
+
+const pickFloorType = (floorTypes: FloorType[], source: AdmissionSource): FloorType | '' => {
+  const preferred = DEFAULT_SOURCE_FLOOR[source];
+  return floorTypes.includes(preferred) ? preferred : floorTypes[0] ?? '';
+};
+
+const AdmissionRequestDialog: React.FC<AdmissionRequestDialogProps> = ({ open, onOpenChange, hospital, onSubmit }) => {
+  const [patientName, setPatientName] = useState('');
+  const [source, setSource] = useState<AdmissionSource>('emergency');
+  const [floorType, setFloorType] = useState<FloorType | ''>('');
+  const [isolation, setIsolation] = useState(false);
+  const [diagnosis, setDiagnosis] = useState('');
+
+  // Kinds of floor this hospital has, in floor order
+  const floorTypes = useMemo(
+    () => [...new Set([...hospital.floors].sort((a, b) => a.level - b.level).map(floor => floor.type))],
+    [hospital.floors]
+  );
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setPatientName('');
+    setSource('emergency');
+    setFloorType(pickFloorType(floorTypes, 'emergency'));
+    setIsolation(false);
+    setDiagnosis('');
+  }, [open, floorTypes]);
+
+  const handleSourceChange = (value: AdmissionSource) => {
+    setSource(value);
+    setFloorType(pickFloorType(floorTypes, value));
+  };
+
+  const canSubmit = patientName.trim().length > 0 && floorType !== '';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    const queued = onSubmit({
+      patientName: patientName.trim(),
+      source,
+      floorType: floorType as FloorType,
+      isolation,
+      diagnosis: diagnosis.trim() || undefined,
+    });
+    if (queued) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Queue admission</DialogTitle>
+            <DialogDescription>
+              Add a patient waiting for a bed. A bed can be reserved for them from the queue.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="queued-name">Patient name</Label>
+            <Input
+              id="queued-name"
+              value={patientName}
+              onChange={(event) => setPatientName(event.target.value)}
+              placeholder="Full name"
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="queued-source">Source</Label>
+              <Select value={source} onValueChange={(value) => handleSourceChange(value as AdmissionSource)}>
+                <SelectTrigger id="queued-source" className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADMISSION_SOURCES.map(option => (
+                    <SelectItem key={option} value={option}>{ADMISSION_SOURCE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="queued-floor">Floor</Label>
+              <Select value={floorType} onValueChange={(value) => setFloorType(value as FloorType)}>
+                <SelectTrigger id="queued-floor" className="h-9">
+                  <SelectValue placeholder="Select a floor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {floorTypes.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="queued-diagnosis">Diagnosis</Label>
+            <Input
+              id="queued-diagnosis"
+              value={diagnosis}
+              onChange={(event) => setDiagnosis(event.target.value)}
+              placeholder="Working diagnosis"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="queued-isolation">Needs isolation</Label>
+            <Switch id="queued-isolation" checked={isolation} onCheckedChange={setIsolation} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              Add to queue
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdmissionRequestDialog;
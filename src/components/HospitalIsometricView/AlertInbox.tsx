@@ -0,0 +1,163 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertRule, HospitalAlert } from '@/services/alerts';
+import { InboxAlert } from '@/hooks/use-alerts';
+import { useNow } from '@/hooks/use-now';
+import { Activity, AlarmClock, Bell, BellRing, BedDouble, Brush, Check, CheckCheck, Wrench } from 'lucide-react';
+
+interface AlertInboxProps {
+  alerts: InboxAlert[];
+  activeCount: number;
+  onAcknowledge: (alertId: string) => void;
+  onSnooze: (alertId: string, durationMs: number) => void;
+  onAcknowledgeAll: () => void;
+  // Called when an alert is clicked, e.g. to select what it is about
+  onSelect: (alert: HospitalAlert) => void;
+  notificationsSupported?: boolean;
+  notificationsEnabled?: boolean;
+  notificationPermission?: NotificationPermission;
+  onNotificationsChange?: (enabled: boolean) => void;
+}
+
+const ALERT_ICONS: Record<AlertRule, React.ElementType> = {
+  'patient-critical': Activity,
+  'cleaning-overdue': Brush,
+  'occupancy-high': BedDouble,
+  'equipment-offline': Wrench,
+};
+
+const SNOOZE_OPTIONS: [string, number][] = [
+  ['15 min', 15 * 60 * 1000],
+  ['1 hour', 60 * 60 * 1000],
+  ['4 hours', 4 * 60 * 60 * 1000],
+];
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Bell button with the number of active alerts; the popover lists every raised alert, active ones first
+const AlertInbox: React.FC<AlertInboxProps> = ({
+  alerts,
+  activeCount,
+  onAcknowledge,
+  onSnooze,
+  onAcknowledgeAll,
+  onSelect,
+  notificationsSupported = false,
+  notificationsEnabled = false,
+  notificationPermission = 'default',
+  onNotificationsChange,
+}) => {
+  const now = useNow();
+  const sortedAlerts = [...alerts].sort((a, b) => Number(b.isActive) - Number(a.isActive));
+  const BellIcon = activeCount > 0 ? BellRing : Bell;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs shadow-sm" aria-label={`Alerts (${activeCount} active)`}>
+          <BellIcon className={`h-3.5 w-3.5 mr-1.5 ${activeCount > 0 ? 'text-rose-500' : ''}`} />
+          Alerts
+          {activeCount > 0 && (
+            <span className="ml-1.5 rounded-full bg-rose-500 px-1.5 text-[10px] font-semibold text-white">{activeCount}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div>
+            <div className="text-sm font-semibold">Alerts</div>
+            <div className="text-xs text-muted-foreground">{activeCount} active · {alerts.length} raised</div>
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onAcknowledgeAll} disabled={activeCount === 0}>
+            <CheckCheck className="h-3.5 w-3.5 mr-1.5" />
+            Acknowledge all
+          </Button>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          {sortedAlerts.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">No alerts</p>
+          ) : (
+            <div className="divide-y">
+              {sortedAlerts.map(alert => {
+                const Icon = ALERT_ICONS[alert.rule];
+                const { state } = alert;
+                return (
+                  <div key={alert.id} className={`flex gap-3 px-4 py-3 ${alert.isActive ? '' : 'opacity-60'}`}>
+                    <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${alert.severity === 'critical' ? 'text-rose-500' : 'text-amber-500'}`} />
+                    <div className="flex-1 min-w-0">
+                      <button type="button" className="block text-left text-sm font-medium hover:underline" onClick={() => onSelect(alert)}>
+                        {alert.title}
+                      </button>
+                      <div className="text-xs text-muted-foreground">{alert.description}</div>
+                      <div className="text-[10px] text-muted-foreground mt-0.5">
+                        {formatAge(now - state.raisedAt)}
+                        {state.acknowledged && ' · acknowledged'}
+                        {!state.acknowledged && state.snoozedUntil !== null && state.snoozedUntil > now && ` · snoozed until ${formatClock(state.snoozedUntil)}`}
+                      </div>
+                    </div>
+                    {alert.isActive && (
+                      <div className="flex items-start gap-1">
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onAcknowledge(alert.id)} aria-label="Acknowledge">
+                          <Check className="h-3.5 w-3.5" />
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Snooze">
+                              <AlarmClock className="h-3.5 w-3.5" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {SNOOZE_OPTIONS.map(([label, durationMs]) => (
+                              <DropdownMenuItem key={label} className="text-xs" onSelect={() => onSnooze(alert.id, durationMs)}>
+                                Snooze {label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {notificationsSupported && onNotificationsChange && (
+          <div className="flex items-center justify-between px-4 py-3 border-t">
+            <Label htmlFor="alert-notifications" className="text-xs">
+              Browser notifications
+              {notificationPermission === 'denied' && <span className="block text-muted-foreground font-normal">Blocked in the browser settings</span>}
+            </Label>
+            <Switch
+              id="alert-notifications"
+              checked={notificationsEnabled}
+              disabled={notificationPermission === 'denied'}
+              onCheckedChange={onNotificationsChange}
+            />
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AlertInbox;
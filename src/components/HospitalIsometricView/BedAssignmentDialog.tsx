@@ -0,0 +1,198 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { AdmissionDetails } from '@/services/hospitalDataService';
+import { AdmissionType, Hospital, Patient, PatientStatus } from '@/types/hospital';
+
+export type BedAssignmentMode = 'admit' | 'transfer';
+
+interface BedAssignmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: BedAssignmentMode;
+  hospital: Hospital;
+  patient?: Patient | null;
+  initialBedId?: string | null;
+  onAdmit?: (bedId: string, details: AdmissionDetails) => void;
+  onTransfer?: (patientId: string, bedId: string) => void;
+}
+
+const admissionTypes: AdmissionType[] = ['Emergency', 'ICU', 'General', 'Surgery'];
+
+const BedAssignmentDialog: React.FC<BedAssignmentDialogProps> = ({
+  open,
+  onOpenChange,
+  mode,
+  hospital,
+  patient,
+  initialBedId,
+  onAdmit,
+  onTransfer
+}) => {
+  const [bedId, setBedId] = useState<string>('');
+  const [name, setName] = useState('');
+  const [admissionType, setAdmissionType] = useState<AdmissionType>('General');
+  const [status, setStatus] = useState<PatientStatus>('stable');
+  const [diagnosis, setDiagnosis] = useState('');
+  // Comma-separated in the form
+  const [allergies, setAllergies] = useState('');
+
+  // Available beds grouped by floor, in floor order
+  const availableBedsByFloor = useMemo(() => {
+    return hospital.floors
+      .map(floor => ({
+        floor,
+        beds: hospital.beds.filter(bed =>
+          bed.floor === floor.type && bed.status === 'available' && !bed.patientId
+        ),
+      }))
+      .filter(group => group.beds.length > 0);
+  }, [hospital]);
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const initialIsAvailable = availableBedsByFloor.some(group =>
+      group.beds.some(bed => bed.id === initialBedId)
+    );
+    setBedId(initialIsAvailable ? initialBedId : '');
+    setName('');
+    setAdmissionType('General');
+    setStatus('stable');
+    setDiagnosis('');
+    setAllergies('');
+  }, [open, initialBedId, availableBedsByFloor]);
+
+  const canSubmit = bedId !== '' && (mode === 'transfer' ? !!patient : name.trim().length > 0);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    if (mode === 'admit') {
+      onAdmit?.(bedId, {
+        name: name.trim(),
+        admissionType,
+        status,
+        diagnosis: diagnosis.trim() || undefined,
+        allergies: allergies.split(',').map(allergy => allergy.trim()).filter(Boolean),
+      });
+    } else if (patient) {
+      onTransfer?.(patient.id, bedId);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{mode === 'admit' ? 'Admit patient' : `Transfer ${patient?.name ?? 'patient'}`}</DialogTitle>
+            <DialogDescription>
+              {mode === 'admit'
+                ? 'Register a new patient and assign an available bed.'
+                : 'Pick the bed the patient is moving to. The current bed will be sent to cleaning.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {mode === 'admit' && (
+            <>
+              <div className="space-y-1.5">
+                <Label htmlFor="admission-name">Patient name</Label>
+                <Input
+                  id="admission-name"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  placeholder="Full name"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="admission-type">Admission type</Label>
+                  <Select value={admissionType} onValueChange={(value) => setAdmissionType(value as AdmissionType)}>
+                    <SelectTrigger id="admission-type" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {admissionTypes.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="admission-status">Status</Label>
+                  <Select value={status} onValueChange={(value) => setStatus(value as PatientStatus)}>
+                    <SelectTrigger id="admission-status" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="stable">Stable</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="admission-diagnosis">Diagnosis</Label>
+                <Input
+                  id="admission-diagnosis"
+                  value={diagnosis}
+                  onChange={(event) => setDiagnosis(event.target.value)}
+                  placeholder="Working diagnosis"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="admission-allergies">Allergies</Label>
+                <Input
+                  id="admission-allergies"
+                  value={allergies}
+                  onChange={(event) => setAllergies(event.target.value)}
+                  placeholder="Comma-separated, e.g. Penicillin, Latex"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="target-bed">Target bed</Label>
+            <Select value={bedId} onValueChange={setBedId}>
+              <SelectTrigger id="target-bed" className="h-9">
+                <SelectValue placeholder={availableBedsByFloor.length > 0 ? 'Select an available bed' : 'No beds available'} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableBedsByFloor.map(({ floor, beds }) => (
+                  <SelectGroup key={floor.id}>
+                    <SelectLabel>{floor.name}</SelectLabel>
+                    {beds.map(bed => (
+                      <SelectItem key={bed.id} value={bed.id}>
+                        {bed.room} · {bed.id}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {mode === 'admit' ? 'Admit' : 'Transfer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BedAssignmentDialog;
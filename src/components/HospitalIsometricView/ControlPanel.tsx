@@ -1,51 +1,132 @@
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Hospital, FloorType } from '@/types/hospital';
+import { Hospital, FloorType, EquipmentStatus } from '@/types/hospital';
+import { HospitalViolation } from '@/services/hospitalValidator';
+import { LiveConnectionState } from '@/services/liveUpdates';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { isCleaningOverdue } from '@/services/bedStatusMachine';
+import { EQUIPMENT_STATUS_LABELS } from '@/services/equipment';
+import { HospitalFilterMatch, HospitalFilters } from '@/services/hospitalFilters';
+import { DEFAULT_STAFFING_RULES, getFloorStaffing, StaffingRules } from '@/services/staffing';
+import { getPatientNews2 } from '@/services/clinical';
+import { News2RiskBand, NEWS2_RISK_BANDS, NEWS2_RISK_LABELS } from '@/services/news2';
+import FilterControls from './FilterControls';
+import StaffRoster from './StaffRoster';
+import AdmissionQueue, { AdmissionQueueHandlers } from './AdmissionQueue';
+import { useNow } from '@/hooks/use-now';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { RefreshCw, Check, AlertCircle, Clock, Activity, BedDouble, Brush, UserCheck } from 'lucide-react';
+import { RefreshCw, Check, AlertCircle, Clock, Activity, BedDouble, Brush, UserCheck, Wrench, Undo2, Redo2, FileUp, Filter } from 'lucide-react';
 
 interface ControlPanelProps {
   hospital: Hospital;
   selectedFloor: string | null;
   onFloorChange: (floorId: string | null) => void;
   onRefreshData: () => void;
+  isRefreshing?: boolean;
+  violations?: HospitalViolation[];
+  onRepairViolations?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onImportFloorPlan?: (file: File) => void;
+  liveConnection?: LiveConnectionState;
+  filters?: HospitalFilters;
+  onFiltersChange?: (filters: HospitalFilters) => void;
+  // Counts only include what matches the active filters
+  filterMatch?: HospitalFilterMatch | null;
+  selectedStaffId?: string | null;
+  onStaffSelect?: (staffId: string | null) => void;
+  staffingRules?: StaffingRules;
+  // The admission queue is read-only without handlers
+  admissionQueueHandlers?: AdmissionQueueHandlers;
+  onBedSelect?: (bedId: string) => void;
   occupancyRate: number;
   isDarkMode?: boolean;
 }
 
+const news2RiskClasses: Record<News2RiskBand, string> = {
+  low: 'text-emerald-500',
+  'low-medium': 'text-amber-500',
+  medium: 'text-orange-500',
+  high: 'text-rose-500',
+};
+
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
   hospital, 
   selectedFloor, 
   onFloorChange,
   onRefreshData,
+  isRefreshing = false,
+  violations = [],
+  onRepairViolations,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
+  onImportFloorPlan,
+  liveConnection,
+  filters,
+  onFiltersChange,
+  filterMatch = null,
+  selectedStaffId = null,
+  onStaffSelect,
+  staffingRules = DEFAULT_STAFFING_RULES,
+  admissionQueueHandlers,
+  onBedSelect,
   occupancyRate,
   isDarkMode = true
 }) => {
-  const getTotalBeds = () => hospital.beds.length;
+  const now = useNow();
+  const floorPlanInputRef = useRef<HTMLInputElement>(null);
+  
+  const beds = filterMatch ? hospital.beds.filter(bed => filterMatch.beds.has(bed.id)) : hospital.beds;
+  const patients = filterMatch ? hospital.patients.filter(patient => filterMatch.patients.has(patient.id)) : hospital.patients;
+  const equipment = filterMatch ? hospital.equipment.filter(item => filterMatch.equipment.has(item.id)) : hospital.equipment;
+  
+  const getTotalBeds = () => beds.length;
+  
+  const getOccupiedBeds = () => beds.filter(bed => bed.status === 'occupied').length;
+  
+  const getAvailableBeds = () => beds.filter(bed => bed.status === 'available').length;
+  
+  const getCleaningBeds = () => beds.filter(bed => bed.status === 'cleaning').length;
   
-  const getOccupiedBeds = () => hospital.beds.filter(bed => bed.status === 'occupied').length;
+  const getOverdueCleaningBeds = () => beds.filter(bed => isCleaningOverdue(bed, now)).length;
   
-  const getAvailableBeds = () => hospital.beds.filter(bed => bed.status === 'available').length;
+  const getOutOfServiceBeds = () => beds.filter(bed => bed.status === 'blocked' || bed.status === 'maintenance').length;
   
-  const getCleaningBeds = () => hospital.beds.filter(bed => bed.status === 'cleaning').length;
+  const getCriticalPatients = () => patients.filter(patient => patient.status === 'critical').length;
   
-  const getCriticalPatients = () => hospital.patients.filter(patient => patient.status === 'critical').length;
+  const getEquipmentByStatus = (status: EquipmentStatus) => equipment.filter(item => item.status === status).length;
+  
+  // Admitted patients with observations, by the risk band of their latest NEWS2 score
+  const news2RiskBands = patients.map(patient => getPatientNews2(patient)?.riskBand).filter(Boolean);
+  
+  const getPatientsByRiskBand = (riskBand: News2RiskBand) => news2RiskBands.filter(band => band === riskBand).length;
   
   const getPatientsByFloor = (floorId: string) => {
     const floor = hospital.floors.find(f => f.id === floorId);
     if (!floor) return 0;
     
-    const floorBeds = hospital.beds.filter(bed => bed.floor === floor.type && bed.patientId);
+    const floorBeds = beds.filter(bed => bed.floor === floor.type && bed.patientId);
     return floorBeds.length;
   };
 
   // Calculate percentage for progress bar
   const occupancyPercentage = Math.round(occupancyRate * 100);
+  // Any floor whose nurses have more patients than recommended
+  const isUnderstaffed = getFloorStaffing(hospital, staffingRules).some(entry => entry.isUnderstaffed);
+
+  const tabCount = 3 + (filters && onFiltersChange ? 1 : 0) + (onStaffSelect ? 1 : 0);
+  const tabColumnsClass = ['grid-cols-3', 'grid-cols-4', 'grid-cols-5'][tabCount - 3];
+  const queuedCount = hospital.pendingAdmissions?.length ?? 0;
+
   const getOccupancyColorClass = () => {
     if (occupancyPercentage < 60) return 'bg-hospital-bed-available/90';
     if (occupancyPercentage < 85) return 'bg-hospital-bed-occupied/90';
@@ -56,6 +137,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     ? "backdrop-blur-sm bg-slate-900/80 shadow-lg border-slate-700/80" 
     : "backdrop-blur-sm bg-white/80 shadow-lg border-slate-200/80";
 
+  const getLiveIndicator = () => {
+    if (!liveConnection || liveConnection.status === 'disabled') return null;
+    
+    const transport = liveConnection.transport === 'sse' ? 'SSE' : 'WebSocket';
+    switch (liveConnection.status) {
+      case 'open':
+        return { dotClass: 'bg-emerald-500 animate-pulse', label: `Live (${transport})` };
+      case 'connecting':
+        return { dotClass: 'bg-amber-500', label: 'Connecting…' };
+      case 'reconnecting':
+        return {
+          dotClass: 'bg-rose-500',
+          label: liveConnection.retryInMs
+            ? `Reconnecting in ${Math.ceil(liveConnection.retryInMs / 1000)}s`
+            : 'Reconnecting…',
+        };
+    }
+  };
+  const liveIndicator = getLiveIndicator();
+
   const statusBgClass = isDarkMode ? "bg-slate-800" : "bg-white";
   const statusBorderClass = isDarkMode ? "border-slate-700" : "border-slate-200";
   
@@ -64,15 +165,73 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <CardTitle className="text-slate-800 dark:text-slate-100 text-xl">Hospital Occupancy</CardTitle>
-          <Button 
-            variant="outline" 
-            size="icon" 
-            onClick={onRefreshData}
-            className="h-8 w-8 rounded-full"
-          >
-            <RefreshCw className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1.5">
+            {onUndo && (
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                onClick={onUndo}
+                disabled={!undoLabel}
+                title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                className="h-8 w-8 rounded-full"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            )}
+            {onRedo && (
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                onClick={onRedo}
+                disabled={!redoLabel}
+                title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="h-8 w-8 rounded-full"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            )}
+            {onImportFloorPlan && (
+              <>
+                <input
+                  ref={floorPlanInputRef}
+                  type="file"
+                  accept=".json,.geojson,application/json,application/geo+json"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    // Reset so picking the same file again still fires a change
+                    event.target.value = '';
+                    if (file) onImportFloorPlan(file);
+                  }}
+                />
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  onClick={() => floorPlanInputRef.current?.click()}
+                  title="Import floor plan (JSON or GeoJSON)"
+                  className="h-8 w-8 rounded-full"
+                >
+                  <FileUp className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button 
+              variant="outline" 
+              size="icon" 
+              onClick={onRefreshData}
+              disabled={isRefreshing}
+              className="h-8 w-8 rounded-full"
+            >
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
         </div>
+        {liveIndicator && (
+          <div className="flex items-center gap-1.5 text-xs font-medium text-slate-600 dark:text-slate-300">
+            <span className={`inline-block w-2 h-2 rounded-full ${liveIndicator.dotClass}`} />
+            {liveIndicator.label}
+          </div>
+        )}
         <CardDescription className="text-sm mt-1">
           <div className="space-y-1.5">
             <div className="flex justify-between items-center text-xs font-medium">
@@ -90,6 +249,36 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          {violations.length > 0 && (
+            <Alert variant="destructive" className="py-3">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle className="text-sm">
+                {violations.length} data integrity {violations.length === 1 ? 'issue' : 'issues'}
+              </AlertTitle>
+              <AlertDescription>
+                <ul className="text-xs space-y-0.5 mt-1 list-disc pl-4">
+                  {violations.slice(0, 3).map((violation, index) => (
+                    <li key={`${violation.code}-${index}`}>{violation.message}</li>
+                  ))}
+                  {violations.length > 3 && (
+                    <li>and {violations.length - 3} more</li>
+                  )}
+                </ul>
+                {onRepairViolations && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={onRepairViolations}
+                    className="h-7 text-xs mt-2"
+                  >
+                    <Wrench className="h-3 w-3 mr-1.5" />
+                    Repair
+                  </Button>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div>
             <Label htmlFor="floor-select" className="text-sm font-medium mb-1.5 block">Select Floor</Label>
             <Select 
@@ -111,12 +300,35 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
 
           <Tabs defaultValue="summary" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 h-9">
+            <TabsList className={`grid w-full h-9 ${tabColumnsClass}`}>
               <TabsTrigger value="summary" className="text-xs">Summary</TabsTrigger>
               <TabsTrigger value="floors" className="text-xs">By Floor</TabsTrigger>
+              {filters && onFiltersChange && (
+                <TabsTrigger value="filters" className="text-xs">
+                  Filters
+                  {filterMatch && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-blue-500" />}
+                </TabsTrigger>
+              )}
+              {onStaffSelect && (
+                <TabsTrigger value="staff" className="text-xs">
+                  Staff
+                  {isUnderstaffed && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-amber-500" />}
+                </TabsTrigger>
+              )}
+              <TabsTrigger value="queue" className="text-xs">
+                Queue
+                {queuedCount > 0 && <span className="ml-1 text-[10px] text-muted-foreground">{queuedCount}</span>}
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="summary" className="pt-4 space-y-5">
+              {filterMatch && (
+                <div className="flex items-center gap-2 text-xs px-3 py-2 rounded-lg bg-blue-500/10 text-blue-600 dark:text-blue-300">
+                  <Filter className="h-3.5 w-3.5" />
+                  <span>Filtered: {getTotalBeds()} of {hospital.beds.length} beds match</span>
+                </div>
+              )}
+              
               <div className="grid grid-cols-2 gap-3">
                 <div className="flex items-center p-3 rounded-lg shadow-sm bg-gradient-to-br from-amber-500/10 to-amber-600/20 border border-amber-500/20">
                   <div className="mr-3 p-2 rounded-full bg-amber-500/20">
@@ -143,6 +355,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   <div>
                     <div className="text-xl font-bold text-blue-500">{getCleaningBeds()}</div>
                     <div className="text-xs font-medium mt-0.5 text-slate-600 dark:text-slate-300">Cleaning</div>
+                    {getOverdueCleaningBeds() > 0 && (
+                      <div className="text-[10px] font-semibold mt-0.5 text-rose-500 animate-pulse">
+                        {getOverdueCleaningBeds()} overdue
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center p-3 rounded-lg shadow-sm bg-gradient-to-br from-rose-500/10 to-rose-600/20 border border-rose-500/20">
@@ -156,6 +373,49 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 </div>
               </div>
             
+              {getOutOfServiceBeds() > 0 && (
+                <div className="flex items-center justify-between text-xs px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+                  <span>Blocked or in maintenance</span>
+                  <span className="font-semibold">{getOutOfServiceBeds()} beds</span>
+                </div>
+              )}
+            
+              {equipment.length > 0 && (
+                <div>
+                  <h4 className="mb-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                    Equipment <span className="font-normal text-muted-foreground">({equipment.length})</span>
+                  </h4>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['working', 'text-emerald-500'],
+                      ['maintenance', 'text-amber-500'],
+                      ['offline', 'text-rose-500'],
+                    ] as [EquipmentStatus, string][]).map(([status, colorClass]) => (
+                      <div key={status} className="text-center px-2 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800">
+                        <div className={`text-lg font-bold ${colorClass}`}>{getEquipmentByStatus(status)}</div>
+                        <div className="text-[10px] font-medium text-slate-600 dark:text-slate-300">{EQUIPMENT_STATUS_LABELS[status]}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            
+              {news2RiskBands.length > 0 && (
+                <div>
+                  <h4 className="mb-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                    NEWS2 Risk <span className="font-normal text-muted-foreground">({news2RiskBands.length} patients)</span>
+                  </h4>
+                  <div className="grid grid-cols-4 gap-2">
+                    {NEWS2_RISK_BANDS.map(riskBand => (
+                      <div key={riskBand} className="text-center px-2 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800">
+                        <div className={`text-lg font-bold ${news2RiskClasses[riskBand]}`}>{getPatientsByRiskBand(riskBand)}</div>
+                        <div className="text-[10px] font-medium text-slate-600 dark:text-slate-300">{NEWS2_RISK_LABELS[riskBand]}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            
               <div>
                 <h4 className="mb-3 text-sm font-semibold text-slate-700 dark:text-slate-200">Status Legend</h4>
                 <div className="grid grid-cols-2 gap-2 rounded-xl overflow-hidden bg-gradient-to-br from-slate-50/30 to-slate-100/30 dark:from-slate-800/30 dark:to-slate-700/30 p-3 border border-slate-200/50 dark:border-slate-700/50">
@@ -183,6 +443,12 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                     <span className="text-xs font-medium">Critical</span>
                   </div>
+                  <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 dark:bg-slate-800/80 shadow-sm backdrop-blur-sm">
+                    <div className="flex items-center justify-center w-6 h-6 rounded-full bg-orange-100 dark:bg-orange-900/30">
+                      <div className="w-2.5 h-2.5 rounded-full bg-orange-500"></div>
+                    </div>
+                    <span className="text-xs font-medium">Deteriorating</span>
+                  </div>
                   <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 dark:bg-slate-800/80 shadow-sm backdrop-blur-sm">
                     <div className="flex items-center justify-center w-6 h-6 rounded-full bg-green-100 dark:bg-green-900/30">
                       <div className="w-2.5 h-2.5 rounded-full bg-green-500"></div>
@@ -195,6 +461,30 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                     <span className="text-xs font-medium">Discharged</span>
                   </div>
+                  <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 dark:bg-slate-800/80 shadow-sm backdrop-blur-sm">
+                    <div className="flex items-center justify-center w-6 h-6 rounded-full bg-violet-100 dark:bg-violet-900/30">
+                      <div className="w-2.5 h-2.5 rounded-full bg-violet-400"></div>
+                    </div>
+                    <span className="text-xs font-medium">Reserved</span>
+                  </div>
+                  <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 dark:bg-slate-800/80 shadow-sm backdrop-blur-sm">
+                    <div className="flex items-center justify-center w-6 h-6 rounded-full bg-yellow-100 dark:bg-yellow-900/30">
+                      <div className="w-2.5 h-2.5 rounded-full bg-yellow-400"></div>
+                    </div>
+                    <span className="text-xs font-medium">Maintenance</span>
+                  </div>
+                  <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 dark:bg-slate-800/80 shadow-sm backdrop-blur-sm">
+                    <div className="flex items-center justify-center w-6 h-6 rounded-full bg-slate-200 dark:bg-slate-700/50">
+                      <div className="w-2.5 h-2.5 rounded-full bg-slate-500"></div>
+                    </div>
+                    <span className="text-xs font-medium">Blocked</span>
+                  </div>
+                  <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 dark:bg-slate-800/80 shadow-sm backdrop-blur-sm">
+                    <div className="flex items-center justify-center w-6 h-6 rounded-full bg-rose-100 dark:bg-rose-900/30">
+                      <div className="w-2.5 h-2.5 rounded-full bg-rose-500 animate-pulse"></div>
+                    </div>
+                    <span className="text-xs font-medium">Cleaning overdue</span>
+                  </div>
                 </div>
               </div>
             </TabsContent>
@@ -209,7 +499,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     <div className="flex flex-col">
                       <span className="text-sm font-medium">{floor.name}</span>
                       <span className="text-xs text-muted-foreground">
-                        {getPatientsByFloor(floor.id)} / {floor.beds.length} beds
+                        {getPatientsByFloor(floor.id)} / {filterMatch ? floor.beds.filter(id => filterMatch.beds.has(id)).length : floor.beds.length} beds
                       </span>
                     </div>
                     <Button 
@@ -224,6 +514,33 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 ))}
               </div>
             </TabsContent>
+
+            {filters && onFiltersChange && (
+              <TabsContent value="filters" className="pt-4">
+                <FilterControls hospital={hospital} filters={filters} onFiltersChange={onFiltersChange} />
+              </TabsContent>
+            )}
+
+            {onStaffSelect && (
+              <TabsContent value="staff" className="pt-4">
+                <StaffRoster
+                  hospital={hospital}
+                  selectedFloor={selectedFloor}
+                  selectedStaffId={selectedStaffId}
+                  onStaffSelect={onStaffSelect}
+                  staffingRules={staffingRules}
+                />
+              </TabsContent>
+            )}
+
+            <TabsContent value="queue" className="pt-4">
+              <AdmissionQueue
+                hospital={hospital}
+                selectedFloor={selectedFloor}
+                handlers={admissionQueueHandlers}
+                onBedSelect={onBedSelect}
+              />
+            </TabsContent>
           </Tabs>
         </div>
       </CardContent>
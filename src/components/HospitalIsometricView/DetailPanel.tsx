@@ -1,29 +1,127 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Hospital, Bed, Patient, Staff } from '@/types/hospital';
+import { Hospital, Bed, Patient, Staff, BedStatus, EquipmentStatus, PatientNoteCategory } from '@/types/hospital';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { X } from 'lucide-react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, ArrowRightLeft, Clock, LogOut, Pencil, ShieldAlert, UserPlus, X } from 'lucide-react';
+import { AdmissionDetails } from '@/services/hospitalDataService';
+import { BED_STATUS_LABELS, canTransitionBed, getCleaningDeadline } from '@/services/bedStatusMachine';
+import { EQUIPMENT_STATUS_LABELS, EQUIPMENT_TYPE_LABELS } from '@/services/equipment';
+import { getRoomOccupancy, ROOM_KIND_LABELS } from '@/services/rooms';
+import {
+  checkAssignStaff,
+  DEFAULT_STAFFING_RULES,
+  getPatientStaffingViolations,
+  getStaffPatients,
+  StaffingRules,
+} from '@/services/staffing';
+import { getPatientNews2 } from '@/services/clinical';
+import { PATIENT_NOTE_CATEGORY_LABELS } from '@/services/patientNotes';
+import { ADMISSION_SOURCE_LABELS, getBedReservation } from '@/services/admissionQueue';
+import { DEFAULT_NEWS2_SUGGESTION_OPTIONS, News2RiskBand, News2SuggestionOptions, NEWS2_RISK_LABELS, suggestPatientStatus } from '@/services/news2';
+import { useNow } from '@/hooks/use-now';
+import BedAssignmentDialog, { BedAssignmentMode } from './BedAssignmentDialog';
+import VitalsSparklines from './VitalsSparklines';
+import PatientNoteComposer from './PatientNoteComposer';
+
+// Statuses a user can set by hand; occupied is listed for reference but only reachable through admission
+const bedStatusOptions: BedStatus[] = ['available', 'occupied', 'cleaning', 'reserved', 'blocked', 'maintenance'];
+
+const bedStatusButtonClasses: Record<BedStatus, string> = {
+  available: "bg-hospital-bed-available hover:bg-hospital-bed-available/80",
+  occupied: "bg-hospital-bed-occupied hover:bg-hospital-bed-occupied/80",
+  cleaning: "bg-hospital-bed-cleaning hover:bg-hospital-bed-cleaning/80",
+  reserved: "bg-hospital-bed-reserved hover:bg-hospital-bed-reserved/80",
+  blocked: "bg-hospital-bed-blocked hover:bg-hospital-bed-blocked/80",
+  maintenance: "bg-hospital-bed-maintenance hover:bg-hospital-bed-maintenance/80",
+};
+
+const equipmentStatusOptions: EquipmentStatus[] = ['working', 'maintenance', 'offline'];
+
+const equipmentStatusClasses: Record<EquipmentStatus, string> = {
+  working: "bg-emerald-500 hover:bg-emerald-500/80",
+  maintenance: "bg-amber-500 hover:bg-amber-500/80",
+  offline: "bg-rose-500 hover:bg-rose-500/80",
+};
+
+const formatTime = (isoTimestamp?: string) =>
+  isoTimestamp ? new Date(isoTimestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : 'time unknown';
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+  return `${Math.floor(minutes / (24 * 60))} d`;
+};
+
+const news2BadgeClasses: Record<News2RiskBand, string> = {
+  low: "border-emerald-500/30 text-emerald-600 dark:text-emerald-400",
+  'low-medium': "border-amber-500/30 text-amber-600 dark:text-amber-400",
+  medium: "border-orange-500/30 text-orange-600 dark:text-orange-400",
+  high: "border-rose-500/30 text-rose-600 dark:text-rose-400",
+};
+
+interface StaffOption {
+  staff: Staff;
+  patientCount: number;
+  isBlocked: boolean;
+  hasWarning: boolean;
+}
 
 interface DetailPanelProps {
   hospital: Hospital;
+  readOnly?: boolean;
   selectedBedId?: string | null;
   selectedPatientId?: string | null;
+  selectedEquipmentId?: string | null;
+  selectedRoomId?: string | null;
   onClose: () => void;
-  onUpdateBedStatus: (bedId: string, status: 'available' | 'occupied' | 'cleaning') => void;
+  onBedSelect?: (bedId: string) => void;
+  onUpdateBedStatus: (bedId: string, status: BedStatus) => void;
   onUpdatePatientStatus: (patientId: string, status: 'critical' | 'stable' | 'discharged') => void;
+  onUpdateEquipmentStatus: (equipmentId: string, status: EquipmentStatus) => void;
+  onAdmitPatient: (bedId: string, details: AdmissionDetails) => boolean;
+  onTransferPatient: (patientId: string, bedId: string) => boolean;
+  onDischargePatient: (patientId: string) => boolean;
+  // Staff assignment; the handlers check the staffing rules before changing anything
+  onAssignStaff?: (patientId: string, staffId: string) => void;
+  onUnassignStaff?: (patientId: string, staffId: string) => void;
+  staffingRules?: StaffingRules;
+  onAddNote?: (patientId: string, category: PatientNoteCategory, text: string) => void;
+  onAmendNote?: (patientId: string, noteId: string, text: string) => void;
+  // Status changes suggested from the NEWS2 score; null turns the suggestions off
+  news2Suggestions?: News2SuggestionOptions | null;
 }
 
 const DetailPanel: React.FC<DetailPanelProps> = ({
   hospital,
+  readOnly = false,
   selectedBedId,
   selectedPatientId,
+  selectedEquipmentId,
+  selectedRoomId,
   onClose,
+  onBedSelect,
   onUpdateBedStatus,
-  onUpdatePatientStatus
+  onUpdatePatientStatus,
+  onUpdateEquipmentStatus,
+  onAdmitPatient,
+  onTransferPatient,
+  onDischargePatient,
+  onAssignStaff,
+  onUnassignStaff,
+  onAddNote,
+  onAmendNote,
+  staffingRules = DEFAULT_STAFFING_RULES,
+  news2Suggestions = DEFAULT_NEWS2_SUGGESTION_OPTIONS
 }) => {
+  const [assignmentMode, setAssignmentMode] = useState<BedAssignmentMode | null>(null);
+  const [amendingNoteId, setAmendingNoteId] = useState<string | null>(null);
+  const now = useNow();
+  
   const selectedBed = selectedBedId 
     ? hospital.beds.find(bed => bed.id === selectedBedId)
     : null;
@@ -34,10 +132,32 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
       ? hospital.patients.find(patient => patient.id === selectedBed.patientId)
       : null;
       
-  if (!selectedBed && !selectedPatient) {
+  const selectedEquipment = selectedEquipmentId
+    ? hospital.equipment.find(item => item.id === selectedEquipmentId)
+    : null;
+      
+  const selectedRoom = selectedRoomId
+    ? hospital.rooms.find(room => room.id === selectedRoomId)
+    : null;
+      
+  if (!selectedBed && !selectedPatient && !selectedEquipment && !selectedRoom) {
     return null;
   }
   
+  const roomOccupancy = selectedRoom ? getRoomOccupancy(hospital, selectedRoom) : null;
+  const roomFloor = selectedRoom ? hospital.floors.find(floor => floor.id === selectedRoom.floorId) : null;
+  
+  const bedsideEquipment = selectedBed
+    ? hospital.equipment.filter(item => item.bedId === selectedBed.id)
+    : [];
+
+  const patientNews2 = selectedPatient ? getPatientNews2(selectedPatient) : null;
+  const statusSuggestion = selectedPatient && news2Suggestions
+    ? suggestPatientStatus(selectedPatient.status, selectedPatient.vitals ?? [], news2Suggestions)
+    : null;
+  const isDischargeOverdue = !!selectedPatient?.expectedDischargeAt && selectedPatient.status !== 'discharged'
+    && new Date(selectedPatient.expectedDischargeAt).getTime() < now;
+  
   const getAssignedStaff = (patientId: string): Staff[] => {
     if (!patientId) return [];
     const patient = hospital.patients.find(p => p.id === patientId);
@@ -48,15 +168,53 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
     );
   };
   
+  // Staff that can still be assigned to an admitted patient, those working on the patient's kind of
+  // floor first; an option is disabled when a blocking rule forbids the assignment
+  const getAssignableStaff = (patient: Patient) => {
+    const floorType = hospital.beds.find(bed => bed.id === patient.bedId)?.floor;
+    const options = hospital.staff
+      .filter(staff => !patient.assignedStaffIds.includes(staff.id))
+      .map((staff): StaffOption => {
+        const violations = checkAssignStaff(hospital, patient.id, staff.id, staffingRules);
+        return {
+          staff,
+          patientCount: getStaffPatients(hospital, staff).length,
+          isBlocked: violations.some(violation => violation.level === 'block'),
+          hasWarning: violations.length > 0,
+        };
+      });
+    return {
+      floorType,
+      sameFloor: options.filter(({ staff }) => staff.floor === floorType),
+      otherFloors: options.filter(({ staff }) => staff.floor !== floorType),
+    };
+  };
+  
+  const assignableStaff = selectedPatient?.bedId ? getAssignableStaff(selectedPatient) : null;
+  
+  const renderStaffOption = ({ staff, patientCount, isBlocked, hasWarning }: StaffOption) => (
+    <SelectItem key={staff.id} value={staff.id} disabled={isBlocked} className="text-xs">
+      {staff.name} ({staff.type}) · {patientCount} {patientCount === 1 ? 'patient' : 'patients'}
+      {isBlocked ? ' · full' : hasWarning ? ' · over limit' : ''}
+    </SelectItem>
+  );
+  
   const getBedStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-hospital-bed-available';
       case 'occupied': return 'bg-hospital-bed-occupied';
       case 'cleaning': return 'bg-hospital-bed-cleaning';
+      case 'reserved': return 'bg-hospital-bed-reserved';
+      case 'blocked': return 'bg-hospital-bed-blocked';
+      case 'maintenance': return 'bg-hospital-bed-maintenance';
       default: return 'bg-gray-500';
     }
   };
   
+  const cleaningDeadline = selectedBed ? getCleaningDeadline(selectedBed) : null;
+  const cleaningOverdue = cleaningDeadline !== null && now > cleaningDeadline;
+  const reservation = selectedBed ? getBedReservation(hospital, selectedBed.id) : undefined;
+  
   const getPatientStatusColor = (status: string) => {
     switch (status) {
       case 'critical': return 'bg-hospital-patient-critical';
@@ -76,10 +234,38 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
                 {selectedBed.floor} - {selectedBed.room}
               </Badge>
             )}
+            {selectedEquipment && (
+              <Badge variant="outline" className="mb-1">
+                {selectedEquipment.floor} - {selectedEquipment.room}
+              </Badge>
+            )}
+            {selectedRoom && (
+              <Badge variant="outline" className="mb-1">
+                {roomFloor?.name ?? selectedRoom.floorId}
+              </Badge>
+            )}
             <CardTitle>
-              {selectedPatient ? selectedPatient.name : `Bed ${selectedBedId}`}
+              {selectedRoom
+                ? selectedRoom.name
+                : selectedEquipment ? selectedEquipment.name : selectedPatient ? selectedPatient.name : `Bed ${selectedBedId}`}
             </CardTitle>
             <CardDescription>
+              {selectedRoom && (
+                <Badge variant="secondary" className="mt-1">
+                  {ROOM_KIND_LABELS[selectedRoom.kind]}
+                </Badge>
+              )}
+              {selectedRoom?.isolation && (
+                <Badge className="bg-amber-500 hover:bg-amber-500/80 border-none mt-1 ml-2">
+                  <ShieldAlert className="h-3 w-3 mr-1" />
+                  Isolation
+                </Badge>
+              )}
+              {selectedEquipment && (
+                <Badge className={`${equipmentStatusClasses[selectedEquipment.status]} border-none mt-1`}>
+                  {EQUIPMENT_STATUS_LABELS[selectedEquipment.status]}
+                </Badge>
+              )}
               {selectedBed && (
                 <Badge className={`${getBedStatusColor(selectedBed.status)} border-none mt-1`}>
                   Bed: {selectedBed.status}
@@ -104,6 +290,106 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
       </CardHeader>
       <ScrollArea className="h-[calc(100%-8rem)]">
         <CardContent>
+          {readOnly && (
+            <div className="mb-3 text-xs rounded-md px-2 py-1.5 bg-blue-500/10 text-blue-600 dark:text-blue-300">
+              Viewing a past moment. Return to live to make changes.
+            </div>
+          )}
+          {selectedRoom && roomOccupancy && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-medium text-sm mb-1">Room Occupancy</h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Occupied</div>
+                    <div>{roomOccupancy.occupied} / {roomOccupancy.capacity}</div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Available</div>
+                    <div>{roomOccupancy.available}</div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Cleaning</div>
+                    <div>{roomOccupancy.cleaning}</div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Beds</div>
+                    <div>{roomOccupancy.beds.length}</div>
+                  </div>
+                </div>
+              </div>
+              
+              {roomOccupancy.beds.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-sm mb-1">Beds</h3>
+                  <div className="space-y-1">
+                    {roomOccupancy.beds.map(bed => {
+                      const patient = bed.patientId ? hospital.patients.find(p => p.id === bed.patientId) : null;
+                      return (
+                        <button
+                          key={bed.id}
+                          type="button"
+                          className="w-full bg-muted p-2 rounded-md flex justify-between items-center text-sm text-left hover:bg-muted/70"
+                          onClick={() => onBedSelect?.(bed.id)}
+                        >
+                          <div className="truncate">{patient ? patient.name : `Bed ${bed.id}`}</div>
+                          <Badge className={`${getBedStatusColor(bed.status)} border-none`}>
+                            {BED_STATUS_LABELS[bed.status]}
+                          </Badge>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {selectedEquipment && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-medium text-sm mb-1">Equipment Information</h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Type</div>
+                    <div>{EQUIPMENT_TYPE_LABELS[selectedEquipment.type]}</div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Location</div>
+                    <div>{selectedEquipment.bedId ? `Bed ${selectedEquipment.bedId}` : selectedEquipment.room}</div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md col-span-2">
+                    <div className="text-muted-foreground text-xs">Last service</div>
+                    <div>
+                      {formatTime(selectedEquipment.lastServiceDate)}
+                      <span className="text-xs text-muted-foreground ml-1.5">
+                        ({formatDuration(now - Date.parse(selectedEquipment.lastServiceDate))} ago)
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+              
+              <div>
+                <h3 className="font-medium text-sm mb-1">Equipment Status</h3>
+                <div className="grid grid-cols-3 gap-1">
+                  {equipmentStatusOptions.map(status => (
+                    <Button 
+                      key={status}
+                      variant={selectedEquipment.status === status ? "default" : "outline"} 
+                      size="sm"
+                      className={`text-xs px-1 ${selectedEquipment.status === status ? equipmentStatusClasses[status] : ""}`}
+                      disabled={readOnly}
+                      onClick={() => onUpdateEquipmentStatus(selectedEquipment.id, status)}
+                    >
+                      {EQUIPMENT_STATUS_LABELS[status]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          
           {selectedBed && (
             <div className="space-y-4">
               <div>
@@ -123,32 +409,65 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
               <div>
                 <h3 className="font-medium text-sm mb-1">Bed Status</h3>
                 <div className="grid grid-cols-3 gap-1">
-                  <Button 
-                    variant={selectedBed.status === 'available' ? "default" : "outline"} 
-                    size="sm"
-                    className={selectedBed.status === 'available' ? "bg-hospital-bed-available hover:bg-hospital-bed-available/80" : ""}
-                    onClick={() => onUpdateBedStatus(selectedBed.id, 'available')}
-                  >
-                    Available
-                  </Button>
-                  <Button 
-                    variant={selectedBed.status === 'occupied' ? "default" : "outline"} 
-                    size="sm"
-                    className={selectedBed.status === 'occupied' ? "bg-hospital-bed-occupied hover:bg-hospital-bed-occupied/80" : ""}
-                    onClick={() => onUpdateBedStatus(selectedBed.id, 'occupied')}
-                  >
-                    Occupied
-                  </Button>
-                  <Button 
-                    variant={selectedBed.status === 'cleaning' ? "default" : "outline"} 
-                    size="sm"
-                    className={selectedBed.status === 'cleaning' ? "bg-hospital-bed-cleaning hover:bg-hospital-bed-cleaning/80" : ""}
-                    onClick={() => onUpdateBedStatus(selectedBed.id, 'cleaning')}
-                  >
-                    Cleaning
-                  </Button>
+                  {bedStatusOptions.map(status => (
+                    <Button 
+                      key={status}
+                      variant={selectedBed.status === status ? "default" : "outline"} 
+                      size="sm"
+                      className={`text-xs px-1 ${selectedBed.status === status ? bedStatusButtonClasses[status] : ""}`}
+                      disabled={readOnly || (selectedBed.status !== status && (status === 'reserved' || !canTransitionBed(selectedBed.status, status)))}
+                      onClick={() => onUpdateBedStatus(selectedBed.id, status)}
+                    >
+                      {BED_STATUS_LABELS[status]}
+                    </Button>
+                  ))}
                 </div>
+                {selectedBed.statusChangedAt && (
+                  <div className="text-xs text-muted-foreground mt-1.5">
+                    {BED_STATUS_LABELS[selectedBed.status]} since {formatTime(selectedBed.statusChangedAt)}
+                  </div>
+                )}
+                {cleaningDeadline !== null && (
+                  <div className={`text-xs mt-1 flex items-center gap-1 ${cleaningOverdue ? 'text-rose-500 font-medium' : 'text-muted-foreground'}`}>
+                    <Clock className="h-3 w-3" />
+                    {cleaningOverdue
+                      ? `Cleaning overdue by ${formatDuration(now - cleaningDeadline)}`
+                      : `Cleaning expected in ${formatDuration(cleaningDeadline - now)}`}
+                  </div>
+                )}
+                {reservation && (
+                  <div className="text-xs mt-1 text-violet-600 dark:text-violet-300">
+                    Reserved for {reservation.patientName} ({ADMISSION_SOURCE_LABELS[reservation.source]}), waiting {formatDuration(now - new Date(reservation.requestedAt).getTime())}
+                  </div>
+                )}
               </div>
+              
+              {bedsideEquipment.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-sm mb-1">Bedside Equipment</h3>
+                  <div className="space-y-1">
+                    {bedsideEquipment.map(item => (
+                      <div key={item.id} className="bg-muted p-2 rounded-md flex justify-between items-center text-sm">
+                        <div>{EQUIPMENT_TYPE_LABELS[item.type]}</div>
+                        <Badge className={`${equipmentStatusClasses[item.status]} border-none`}>
+                          {EQUIPMENT_STATUS_LABELS[item.status]}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {!readOnly && selectedBed.status === 'available' && !selectedBed.patientId && (
+                <Button 
+                  size="sm" 
+                  className="w-full"
+                  onClick={() => setAssignmentMode('admit')}
+                >
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Admit patient
+                </Button>
+              )}
             </div>
           )}
           
@@ -167,13 +486,71 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
                   </div>
                 </div>
               </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-medium text-sm">Clinical Record</h3>
+                  {patientNews2 && (
+                    <Badge variant="outline" className={news2BadgeClasses[patientNews2.riskBand]}>
+                      <Activity className="h-3 w-3 mr-1" />
+                      NEWS2 {patientNews2.total} · {NEWS2_RISK_LABELS[patientNews2.riskBand]} risk
+                    </Badge>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm mb-2">
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Admitted</div>
+                    <div>{selectedPatient.admittedAt ? formatTime(selectedPatient.admittedAt) : '—'}</div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md">
+                    <div className="text-muted-foreground text-xs">Expected Discharge</div>
+                    <div className={isDischargeOverdue ? "text-rose-600 dark:text-rose-400" : ""}>
+                      {selectedPatient.expectedDischargeAt ? formatTime(selectedPatient.expectedDischargeAt) : '—'}
+                      {isDischargeOverdue && <span className="text-xs"> (overdue)</span>}
+                    </div>
+                  </div>
+                  <div className="bg-muted p-2 rounded-md col-span-2">
+                    <div className="text-muted-foreground text-xs">Diagnosis</div>
+                    <div>{selectedPatient.diagnosis || '—'}</div>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-1 mb-2">
+                  <span className="text-xs text-muted-foreground mr-1">Allergies</span>
+                  {selectedPatient.allergies && selectedPatient.allergies.length > 0 ? (
+                    selectedPatient.allergies.map(allergy => (
+                      <Badge key={allergy} variant="outline" className="border-rose-500/30 text-rose-600 dark:text-rose-400 text-[10px] px-1.5">
+                        {allergy}
+                      </Badge>
+                    ))
+                  ) : (
+                    <span className="text-xs">None known</span>
+                  )}
+                </div>
+                <VitalsSparklines vitals={selectedPatient.vitals ?? []} />
+              </div>
               
               <div>
                 <h3 className="font-medium text-sm mb-1">Patient Status</h3>
+                {statusSuggestion && (
+                  <div className="flex items-center justify-between gap-2 mb-1.5 px-2 py-1.5 rounded-md bg-amber-500/10 text-xs text-amber-600 dark:text-amber-400">
+                    <span>Suggested: {statusSuggestion.status} ({statusSuggestion.reason})</span>
+                    {!readOnly && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => onUpdatePatientStatus(selectedPatient.id, statusSuggestion.status)}
+                      >
+                        Apply
+                      </Button>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-3 gap-1">
                   <Button 
                     variant={selectedPatient.status === 'critical' ? "default" : "outline"} 
                     size="sm"
+                    disabled={readOnly || !selectedPatient.bedId}
                     className={selectedPatient.status === 'critical' ? "bg-hospital-patient-critical hover:bg-hospital-patient-critical/80" : ""}
                     onClick={() => onUpdatePatientStatus(selectedPatient.id, 'critical')}
                   >
@@ -182,6 +559,7 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
                   <Button 
                     variant={selectedPatient.status === 'stable' ? "default" : "outline"} 
                     size="sm"
+                    disabled={readOnly || !selectedPatient.bedId}
                     className={selectedPatient.status === 'stable' ? "bg-hospital-patient-stable hover:bg-hospital-patient-stable/80" : ""}
                     onClick={() => onUpdatePatientStatus(selectedPatient.id, 'stable')}
                   >
@@ -190,6 +568,7 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
                   <Button 
                     variant={selectedPatient.status === 'discharged' ? "default" : "outline"} 
                     size="sm"
+                    disabled={readOnly || !selectedPatient.bedId}
                     className={selectedPatient.status === 'discharged' ? "bg-hospital-patient-discharged hover:bg-hospital-patient-discharged/80" : ""}
                     onClick={() => onUpdatePatientStatus(selectedPatient.id, 'discharged')}
                   >
@@ -198,34 +577,157 @@ const DetailPanel: React.FC<DetailPanelProps> = ({
                 </div>
               </div>
               
+              {!readOnly && selectedPatient.bedId && (
+                <div>
+                  <h3 className="font-medium text-sm mb-1">Bed Assignment</h3>
+                  <div className="grid grid-cols-2 gap-1">
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => setAssignmentMode('transfer')}
+                    >
+                      <ArrowRightLeft className="h-4 w-4 mr-2" />
+                      Transfer
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => onDischargePatient(selectedPatient.id)}
+                    >
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Discharge
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
               <div>
                 <h3 className="font-medium text-sm mb-1">Assigned Staff</h3>
+                {getPatientStaffingViolations(hospital, selectedPatient, staffingRules).map(violation => (
+                  <div key={violation.rule} className="flex items-center gap-1.5 mb-1.5 text-xs text-amber-600 dark:text-amber-400">
+                    <ShieldAlert className="h-3.5 w-3.5 flex-shrink-0" />
+                    {violation.message}
+                  </div>
+                ))}
                 {getAssignedStaff(selectedPatient.id).length > 0 ? (
                   <div className="space-y-1">
                     {getAssignedStaff(selectedPatient.id).map(staff => (
-                      <div key={staff.id} className="bg-muted p-2 rounded-md flex justify-between">
+                      <div key={staff.id} className="bg-muted p-2 rounded-md flex items-center justify-between">
                         <div>{staff.name}</div>
-                        <Badge variant="outline">{staff.type}</Badge>
+                        <div className="flex items-center gap-1">
+                          <Badge variant="outline">{staff.type}</Badge>
+                          {!readOnly && onUnassignStaff && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={() => onUnassignStaff(selectedPatient.id, staff.id)}
+                              aria-label={`Unassign ${staff.name}`}
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
                 ) : (
                   <div className="text-sm text-muted-foreground">No staff assigned</div>
                 )}
+                {!readOnly && onAssignStaff && assignableStaff && (
+                  <Select value="" onValueChange={(staffId) => onAssignStaff(selectedPatient.id, staffId)}>
+                    <SelectTrigger className="h-8 mt-1.5 text-xs">
+                      <SelectValue placeholder="Assign staff..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableStaff.sameFloor.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel className="text-xs">{assignableStaff.floorType} floor</SelectLabel>
+                          {assignableStaff.sameFloor.map(renderStaffOption)}
+                        </SelectGroup>
+                      )}
+                      {assignableStaff.otherFloors.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel className="text-xs">Other floors</SelectLabel>
+                          {assignableStaff.otherFloors.map(renderStaffOption)}
+                        </SelectGroup>
+                      )}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
               
-              {selectedPatient.notes && (
-                <div>
-                  <h3 className="font-medium text-sm mb-1">Notes</h3>
-                  <div className="text-sm bg-muted p-2 rounded-md">
-                    {selectedPatient.notes}
+              <div>
+                <h3 className="font-medium text-sm mb-1">Notes</h3>
+                {selectedPatient.notes && selectedPatient.notes.length > 0 ? (
+                  <div className="space-y-1.5 mb-2">
+                    {[...selectedPatient.notes].reverse().map(note => (
+                      <div key={note.id} className="text-sm bg-muted p-2 rounded-md">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <Badge variant="outline" className="text-[10px] px-1.5">{PATIENT_NOTE_CATEGORY_LABELS[note.category]}</Badge>
+                          {!readOnly && onAmendNote && amendingNoteId !== note.id && (
+                            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setAmendingNoteId(note.id)}>
+                              <Pencil className="h-3 w-3 mr-1" />
+                              Amend
+                            </Button>
+                          )}
+                        </div>
+                        {amendingNoteId === note.id ? (
+                          <PatientNoteComposer
+                            note={note}
+                            onSubmit={({ text }) => {
+                              onAmendNote?.(selectedPatient.id, note.id, text);
+                              setAmendingNoteId(null);
+                            }}
+                            onCancel={() => setAmendingNoteId(null)}
+                          />
+                        ) : (
+                          <div className="whitespace-pre-wrap">{note.text}</div>
+                        )}
+                        <div className="text-[10px] text-muted-foreground mt-1">
+                          {note.author} · {formatTime(note.createdAt)}
+                          {note.amendedAt && ` · amended by ${note.amendedBy} ${formatTime(note.amendedAt)}`}
+                        </div>
+                        {note.history.length > 0 && (
+                          <details className="mt-1 text-xs">
+                            <summary className="cursor-pointer text-muted-foreground">
+                              {note.history.length} earlier {note.history.length === 1 ? 'version' : 'versions'}
+                            </summary>
+                            <div className="mt-1 space-y-1 border-l pl-2">
+                              {[...note.history].reverse().map((revision, index) => (
+                                <div key={index}>
+                                  <div className="whitespace-pre-wrap line-through decoration-muted-foreground/50">{revision.text}</div>
+                                  <div className="text-[10px] text-muted-foreground">{revision.author} · {formatTime(revision.timestamp)}</div>
+                                </div>
+                              ))}
+                            </div>
+                          </details>
+                        )}
+                      </div>
+                    ))}
                   </div>
-                </div>
-              )}
+                ) : (
+                  <div className="text-sm text-muted-foreground mb-2">No notes yet</div>
+                )}
+                {!readOnly && onAddNote && (
+                  <PatientNoteComposer onSubmit={({ category, text }) => onAddNote(selectedPatient.id, category, text)} />
+                )}
+              </div>
             </div>
           )}
         </CardContent>
       </ScrollArea>
+      
+      <BedAssignmentDialog 
+        open={assignmentMode !== null}
+        onOpenChange={(open) => !open && setAssignmentMode(null)}
+        mode={assignmentMode ?? 'admit'}
+        hospital={hospital}
+        patient={selectedPatient}
+        initialBedId={assignmentMode === 'admit' ? selectedBed?.id : null}
+        onAdmit={(bedId, details) => onAdmitPatient(bedId, details) && setAssignmentMode(null)}
+        onTransfer={(patientId, bedId) => onTransferPatient(patientId, bedId) && setAssignmentMode(null)}
+      />
     </Card>
   );
 };
@@ -0,0 +1,150 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Hospital } from '@/types/hospital';
+import {
+  ADMISSION_TYPES,
+  BED_STATUSES,
+  EMPTY_FILTERS,
+  EQUIPMENT_STATUSES,
+  FilterMode,
+  hasActiveFilters,
+  HospitalFilters,
+  PATIENT_STATUSES,
+} from '@/services/hospitalFilters';
+import { EQUIPMENT_STATUS_LABELS } from '@/services/equipment';
+import { X } from 'lucide-react';
+
+interface FilterControlsProps {
+  hospital: Hospital;
+  filters: HospitalFilters;
+  onFiltersChange: (filters: HospitalFilters) => void;
+}
+
+// Select values cannot be empty, so "any" stands for no filter
+const ANY = 'any';
+
+const FilterControls: React.FC<FilterControlsProps> = ({ hospital, filters, onFiltersChange }) => {
+  const update = (change: Partial<HospitalFilters>) => onFiltersChange({ ...filters, ...change });
+
+  const chipClass = "h-7 px-2 text-[11px] capitalize data-[state=on]:bg-blue-500/15 data-[state=on]:text-blue-600 dark:data-[state=on]:text-blue-300";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-xs font-medium mb-1.5 block">Bed status</Label>
+        <ToggleGroup
+          type="multiple"
+          value={filters.bedStatuses}
+          onValueChange={(value) => update({ bedStatuses: value as HospitalFilters['bedStatuses'] })}
+          className="flex-wrap justify-start gap-1"
+        >
+          {BED_STATUSES.map(status => (
+            <ToggleGroupItem key={status} value={status} variant="outline" className={chipClass}>{status}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <Label className="text-xs font-medium mb-1.5 block">Patient status</Label>
+        <ToggleGroup
+          type="multiple"
+          value={filters.patientStatuses}
+          onValueChange={(value) => update({ patientStatuses: value as HospitalFilters['patientStatuses'] })}
+          className="flex-wrap justify-start gap-1"
+        >
+          {PATIENT_STATUSES.map(status => (
+            <ToggleGroupItem key={status} value={status} variant="outline" className={chipClass}>{status}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <Label className="text-xs font-medium mb-1.5 block">Admission type</Label>
+        <ToggleGroup
+          type="multiple"
+          value={filters.admissionTypes}
+          onValueChange={(value) => update({ admissionTypes: value as HospitalFilters['admissionTypes'] })}
+          className="flex-wrap justify-start gap-1"
+        >
+          {ADMISSION_TYPES.map(type => (
+            <ToggleGroupItem key={type} value={type} variant="outline" className={chipClass}>{type}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <Label className="text-xs font-medium mb-1.5 block">Equipment status</Label>
+        <ToggleGroup
+          type="multiple"
+          value={filters.equipmentStatuses}
+          onValueChange={(value) => update({ equipmentStatuses: value as HospitalFilters['equipmentStatuses'] })}
+          className="flex-wrap justify-start gap-1"
+        >
+          {EQUIPMENT_STATUSES.map(status => (
+            <ToggleGroupItem key={status} value={status} variant="outline" className={chipClass}>{EQUIPMENT_STATUS_LABELS[status]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="filter-staff" className="text-xs font-medium mb-1.5 block">Assigned staff</Label>
+          <Select value={filters.staffId ?? ANY} onValueChange={(value) => update({ staffId: value === ANY ? null : value })}>
+            <SelectTrigger id="filter-staff" className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any staff</SelectItem>
+              {hospital.staff.map(staff => (
+                <SelectItem key={staff.id} value={staff.id}>{staff.name} ({staff.type})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="filter-room" className="text-xs font-medium mb-1.5 block">Room</Label>
+          <Select value={filters.roomId ?? ANY} onValueChange={(value) => update({ roomId: value === ANY ? null : value })}>
+            <SelectTrigger id="filter-room" className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any room</SelectItem>
+              {hospital.rooms.map(room => (
+                <SelectItem key={room.id} value={room.id}>
+                  {room.name} · {hospital.floors.find(f => f.id === room.floorId)?.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={filters.mode}
+          onValueChange={(value) => value && update({ mode: value as FilterMode })}
+        >
+          <ToggleGroupItem value="dim" className="h-7 text-xs">Dim others</ToggleGroupItem>
+          <ToggleGroupItem value="hide" className="h-7 text-xs">Hide others</ToggleGroupItem>
+        </ToggleGroup>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onFiltersChange({ ...EMPTY_FILTERS, mode: filters.mode })}
+          disabled={!hasActiveFilters(filters)}
+          className="h-7 text-xs"
+        >
+          <X className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterControls;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Bed, Room } from '@/types/hospital';
+import { Check, Download, MousePointer2, PencilRuler, Plus, SquareDashed, Trash2 } from 'lucide-react';
+
+// What a click or drag on the edited floor does
+export type LayoutEditTool = 'select' | 'add-bed' | 'draw-room';
+
+interface FloorPlanEditorToolbarProps {
+  isEditing: boolean;
+  onEditingChange: (isEditing: boolean) => void;
+  tool: LayoutEditTool;
+  onToolChange: (tool: LayoutEditTool) => void;
+  // Editing works on one floor at a time
+  canEdit: boolean;
+  selectedRoom?: Room | null;
+  selectedBed?: Bed | null;
+  onRenameRoom: (roomId: string, name: string) => void;
+  onRemoveBed: (bedId: string) => void;
+  onExport: () => void;
+  isDarkMode?: boolean;
+}
+
+const toolHints: Record<LayoutEditTool, string> = {
+  'select': 'Drag beds to move them; select a room to resize it from its corners.',
+  'add-bed': 'Click inside a room to add a bed.',
+  'draw-room': 'Drag on the floor to draw a room.',
+};
+
+const FloorPlanEditorToolbar: React.FC<FloorPlanEditorToolbarProps> = ({
+  isEditing,
+  onEditingChange,
+  tool,
+  onToolChange,
+  canEdit,
+  selectedRoom,
+  selectedBed,
+  onRenameRoom,
+  onRemoveBed,
+  onExport,
+  isDarkMode = true
+}) => {
+  const [roomName, setRoomName] = useState(selectedRoom?.name ?? '');
+
+  // Follow the selection, and renames made elsewhere (e.g. undo)
+  useEffect(() => {
+    setRoomName(selectedRoom?.name ?? '');
+  }, [selectedRoom?.id, selectedRoom?.name]);
+
+  const panelTheme = isDarkMode
+    ? "bg-slate-900/80 border-slate-700/80"
+    : "bg-white/80 border-slate-200/80";
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (selectedRoom && roomName.trim() && roomName.trim() !== selectedRoom.name) {
+      onRenameRoom(selectedRoom.id, roomName);
+    }
+  };
+
+  return (
+    <div className={`rounded-2xl border shadow-sm backdrop-blur-sm px-4 py-2.5 ${panelTheme}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={isEditing ? "default" : "outline"}
+          size="sm"
+          onClick={() => onEditingChange(!isEditing)}
+          className="h-8 text-xs"
+        >
+          <PencilRuler className="h-3.5 w-3.5 mr-1.5" />
+          {isEditing ? 'Done editing' : 'Edit layout'}
+        </Button>
+
+        {isEditing && (
+          <>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={tool}
+              onValueChange={(value) => value && onToolChange(value as LayoutEditTool)}
+              disabled={!canEdit}
+            >
+              <ToggleGroupItem value="select" className="h-8 text-xs" aria-label="Move beds and resize rooms">
+                <MousePointer2 className="h-3.5 w-3.5 mr-1" />
+                Move
+              </ToggleGroupItem>
+              <ToggleGroupItem value="add-bed" className="h-8 text-xs" aria-label="Add beds">
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                Bed
+              </ToggleGroupItem>
+              <ToggleGroupItem value="draw-room" className="h-8 text-xs" aria-label="Draw rooms">
+                <SquareDashed className="h-3.5 w-3.5 mr-1" />
+                Room
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            {selectedRoom && (
+              <form onSubmit={handleRename} className="flex items-center gap-1">
+                <Input
+                  value={roomName}
+                  onChange={(event) => setRoomName(event.target.value)}
+                  className="h-8 w-36 text-xs"
+                  aria-label="Room name"
+                />
+                <Button type="submit" variant="outline" size="icon" className="h-8 w-8" title="Rename room">
+                  <Check className="h-3.5 w-3.5" />
+                </Button>
+              </form>
+            )}
+
+            {selectedBed && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRemoveBed(selectedBed.id)}
+                disabled={!!selectedBed.patientId}
+                title={selectedBed.patientId ? 'Transfer or discharge the patient first' : 'Remove this bed'}
+                className="h-8 text-xs"
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+                Remove bed
+              </Button>
+            )}
+
+            <Button variant="outline" size="sm" onClick={onExport} className="h-8 text-xs ml-auto">
+              <Download className="h-3.5 w-3.5 mr-1.5" />
+              Export JSON
+            </Button>
+          </>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="mt-1.5 text-xs text-slate-500 dark:text-slate-400">
+          {canEdit ? toolHints[tool] : 'Select a floor to edit its layout.'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FloorPlanEditorToolbar;
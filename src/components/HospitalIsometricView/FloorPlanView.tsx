@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { Bed, BedStatus, Floor, Hospital, Patient, PlanPoint, Room } from '@/types/hospital';
+import { isCleaningOverdue } from '@/services/bedStatusMachine';
+import { getRoomOutline } from '@/services/rooms';
+import { getPatientSeverity, PatientSeverity } from '@/services/clinical';
+import { getFloorSlabBounds } from './sceneObjects';
+
+interface FloorPlanViewProps {
+  hospital: Hospital;
+  selectedFloor?: string | null;
+  selectedBedId?: string | null;
+  selectedPatientId?: string | null;
+  selectedRoomId?: string | null;
+  onBedSelect?: (bedId: string) => void;
+  onRoomSelect?: (roomId: string) => void;
+  isDarkMode?: boolean;
+}
+
+// Fill colors matching the ControlPanel legend; occupied beds take the color of their patient
+const bedStatusFills: Record<BedStatus, string> = {
+  available: 'fill-emerald-500',
+  occupied: 'fill-amber-500',
+  cleaning: 'fill-blue-500',
+  reserved: 'fill-violet-400',
+  maintenance: 'fill-yellow-400',
+  blocked: 'fill-slate-500',
+};
+
+const patientSeverityFills: Record<PatientSeverity, string> = {
+  critical: 'fill-rose-500',
+  deteriorating: 'fill-orange-500',
+  stable: 'fill-green-500',
+  discharged: 'fill-gray-500',
+};
+
+// Bed footprint in metres, as drawn in the 3D scene
+const BED_WIDTH = 0.9;
+const BED_LENGTH = 2.1;
+
+const getBedFill = (bed: Bed, patient: Patient | undefined): string => {
+  if (patient) return patientSeverityFills[getPatientSeverity(patient)];
+  if (isCleaningOverdue(bed)) return 'fill-rose-500 animate-pulse';
+  return bedStatusFills[bed.status];
+};
+
+const toSvgPoints = (outline: PlanPoint[]) => outline.map(point => `${point.x},${point.z}`).join(' ');
+
+const FloorPlanView: React.FC<FloorPlanViewProps> = ({
+  hospital,
+  selectedFloor,
+  selectedBedId,
+  selectedPatientId,
+  selectedRoomId,
+  onBedSelect,
+  onRoomSelect,
+  isDarkMode = true
+}) => {
+  const floors = useMemo(
+    () => selectedFloor ? hospital.floors.filter(floor => floor.id === selectedFloor) : hospital.floors,
+    [hospital.floors, selectedFloor]
+  );
+  const patientsById = useMemo(() => new Map(hospital.patients.map(patient => [patient.id, patient])), [hospital.patients]);
+  const bedsById = useMemo(() => new Map(hospital.beds.map(bed => [bed.id, bed])), [hospital.beds]);
+
+  // A selected patient highlights the bed they lie in
+  const highlightedBedId = selectedBedId ?? hospital.patients.find(p => p.id === selectedPatientId)?.bedId;
+
+  const roomFill = (room: Room) => {
+    if (room.id === selectedRoomId) return 'fill-blue-300/40';
+    if (room.isolation) return 'fill-amber-300/25';
+    return isDarkMode ? 'fill-slate-800' : 'fill-white';
+  };
+  const wallStroke = isDarkMode ? 'stroke-slate-500' : 'stroke-slate-400';
+  const labelFill = isDarkMode ? 'fill-slate-300' : 'fill-slate-600';
+
+  const renderFloor = (floor: Floor) => {
+    const rooms = hospital.rooms.filter(room => room.floorId === floor.id);
+    const corridors = floor.corridors ?? [];
+    const beds = floor.beds.map(bedId => bedsById.get(bedId)).filter(Boolean);
+    const { minX, minZ, maxX, maxZ } = getFloorSlabBounds(rooms, corridors);
+    const occupiedCount = beds.filter(bed => bed.patientId).length;
+
+    return (
+      <div key={floor.id} className="space-y-1.5">
+        <div className="flex items-baseline justify-between px-1 text-xs">
+          <span className="font-semibold text-slate-700 dark:text-slate-200">{floor.name}</span>
+          <span className="text-slate-500 dark:text-slate-400">{occupiedCount} / {beds.length} beds occupied</span>
+        </div>
+        <svg
+          viewBox={`${minX} ${minZ} ${maxX - minX} ${maxZ - minZ}`}
+          className={`w-full rounded-xl ${isDarkMode ? 'bg-slate-900/60' : 'bg-slate-100/80'}`}
+          role="img"
+          aria-label={`Floor plan of ${floor.name}`}
+        >
+          {corridors.map(corridor => (
+            <polygon
+              key={corridor.id}
+              points={toSvgPoints(corridor.outline)}
+              className={isDarkMode ? 'fill-slate-700/60' : 'fill-slate-200'}
+            />
+          ))}
+
+          {rooms.map(room => (
+            <g key={room.id} className="cursor-pointer" onClick={() => onRoomSelect?.(room.id)}>
+              <title>{room.name}</title>
+              <polygon
+                points={toSvgPoints(getRoomOutline(room))}
+                className={`${roomFill(room)} ${room.id === selectedRoomId ? 'stroke-blue-500' : wallStroke}`}
+                strokeWidth={0.12}
+              />
+              <text
+                x={room.bounds.minX + 0.3}
+                y={room.bounds.minZ + 0.8}
+                fontSize={0.6}
+                className={`${labelFill} select-none`}
+              >
+                {room.name}
+              </text>
+            </g>
+          ))}
+
+          {beds.map(bed => {
+            const patient = bed.patientId ? patientsById.get(bed.patientId) : undefined;
+            const isSelected = bed.id === highlightedBedId;
+            return (
+              <g
+                key={bed.id}
+                className="cursor-pointer"
+                onClick={(event) => {
+                  // Clicking a bed should not also select the room underneath
+                  event.stopPropagation();
+                  onBedSelect?.(bed.id);
+                }}
+              >
+                <title>{`${bed.room} · ${bed.id} · ${patient ? `${patient.name} (${patient.status})` : bed.status}`}</title>
+                <rect
+                  x={bed.position.x - BED_WIDTH / 2}
+                  y={bed.position.z - BED_LENGTH / 2}
+                  width={BED_WIDTH}
+                  height={BED_LENGTH}
+                  rx={0.15}
+                  className={`${getBedFill(bed, patient)} ${isSelected ? (isDarkMode ? 'stroke-white' : 'stroke-slate-900') : 'stroke-transparent'}`}
+                  strokeWidth={0.15}
+                />
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-3 space-y-4">
+      {floors.map(renderFloor)}
+    </div>
+  );
+};
+
+export default FloorPlanView;
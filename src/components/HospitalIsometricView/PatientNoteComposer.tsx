@@ -0,0 +1,101 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PatientNote, PatientNoteCategory } from '@/types/hospital';
+import { MAX_NOTE_LENGTH, PATIENT_NOTE_CATEGORIES, PATIENT_NOTE_CATEGORY_LABELS } from '@/services/patientNotes';
+
+const noteSchema = z.object({
+  category: z.enum(['progress', 'nursing', 'handover', 'other']),
+  text: z.string().trim().min(1, 'Write something first').max(MAX_NOTE_LENGTH, `At most ${MAX_NOTE_LENGTH} characters`),
+});
+
+type NoteValues = z.infer<typeof noteSchema>;
+
+interface PatientNoteComposerProps {
+  // The note being amended; a new note is written when not set
+  note?: PatientNote | null;
+  onSubmit: (values: { category: PatientNoteCategory; text: string }) => void;
+  onCancel?: () => void;
+}
+
+// Writes a new note, or amends an existing one; the category of an existing note cannot change
+const PatientNoteComposer: React.FC<PatientNoteComposerProps> = ({ note = null, onSubmit, onCancel }) => {
+  const form = useForm<NoteValues>({
+    resolver: zodResolver(noteSchema),
+    defaultValues: { category: note?.category ?? 'progress', text: note?.text ?? '' },
+  });
+
+  // Start over whenever another note is picked for amending
+  useEffect(() => {
+    form.reset({ category: note?.category ?? 'progress', text: note?.text ?? '' });
+  }, [note, form]);
+
+  const handleSubmit = (values: NoteValues) => {
+    onSubmit({ category: values.category, text: values.text });
+    if (!note) form.reset({ category: values.category, text: '' });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-1.5">
+        <FormField
+          control={form.control}
+          name="text"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <Textarea
+                  placeholder={note ? 'Amended note' : 'Add a note...'}
+                  className="min-h-[72px] text-sm"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage className="text-xs" />
+            </FormItem>
+          )}
+        />
+        <div className="flex items-center gap-1.5">
+          {!note && (
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PATIENT_NOTE_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category} className="text-xs">
+                          {PATIENT_NOTE_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          )}
+          {note && onCancel && (
+            <Button type="button" variant="ghost" size="sm" className="h-8 text-xs ml-auto" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" className="h-8 text-xs">
+            {note ? 'Save amendment' : 'Add note'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default PatientNoteComposer;
@@ -0,0 +1,118 @@
+import React from 'react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { Hospital } from '@/types/hospital';
+import { SearchTarget } from '@/services/hospitalSearch';
+import { ROOM_KIND_LABELS } from '@/services/rooms';
+import { BedDouble, DoorOpen, Stethoscope, User } from 'lucide-react';
+
+interface SearchPaletteProps {
+  hospital: Hospital;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (target: SearchTarget) => void;
+}
+
+// Command palette over patients, beds, rooms and staff; cmdk matches the typed text against each
+// item's keywords, so e.g. a bed can be found by its room name
+const SearchPalette: React.FC<SearchPaletteProps> = ({ hospital, open, onOpenChange, onSelect }) => {
+  const floorName = (floorId: string) => hospital.floors.find(f => f.id === floorId)?.name ?? floorId;
+  const bedFloorName = (bedId: string) => {
+    const floor = hospital.floors.find(f => f.beds.includes(bedId));
+    return floor ? floor.name : '';
+  };
+
+  const select = (target: SearchTarget) => {
+    onOpenChange(false);
+    onSelect(target);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search patients, beds, rooms and staff..." />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        <CommandGroup heading="Patients">
+          {hospital.patients.map(patient => {
+            const bed = patient.bedId ? hospital.beds.find(b => b.id === patient.bedId) : undefined;
+            return (
+              <CommandItem
+                key={patient.id}
+                value={`patient:${patient.id}`}
+                keywords={[patient.name, patient.id, bed?.room ?? '']}
+                onSelect={() => select({ type: 'patient', id: patient.id })}
+              >
+                <User className="mr-2 h-4 w-4" />
+                <span>{patient.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {bed ? `${bed.room} · ${bedFloorName(bed.id)}` : 'No bed'}
+                </span>
+                <CommandShortcut>{patient.status}</CommandShortcut>
+              </CommandItem>
+            );
+          })}
+        </CommandGroup>
+
+        <CommandGroup heading="Beds">
+          {hospital.beds.map(bed => (
+            <CommandItem
+              key={bed.id}
+              value={`bed:${bed.id}`}
+              keywords={[bed.id, bed.room, bed.floor]}
+              onSelect={() => select({ type: 'bed', id: bed.id })}
+            >
+              <BedDouble className="mr-2 h-4 w-4" />
+              <span>{bed.room}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{bed.id} · {bedFloorName(bed.id)}</span>
+              <CommandShortcut>{bed.status}</CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandGroup heading="Rooms">
+          {hospital.rooms.map(room => (
+            <CommandItem
+              key={room.id}
+              value={`room:${room.id}`}
+              keywords={[room.name, room.id, ROOM_KIND_LABELS[room.kind]]}
+              onSelect={() => select({ type: 'room', id: room.id })}
+            >
+              <DoorOpen className="mr-2 h-4 w-4" />
+              <span>{room.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{floorName(room.floorId)}</span>
+              <CommandShortcut>{ROOM_KIND_LABELS[room.kind]}</CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandGroup heading="Staff">
+          {hospital.staff.map(staff => (
+            <CommandItem
+              key={staff.id}
+              value={`staff:${staff.id}`}
+              keywords={[staff.name, staff.type, staff.floor]}
+              onSelect={() => select({ type: 'staff', id: staff.id })}
+            >
+              <Stethoscope className="mr-2 h-4 w-4" />
+              <span>{staff.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground">
+                {staff.floor} · {staff.assignedPatientIds.length} {staff.assignedPatientIds.length === 1 ? 'patient' : 'patients'}
+              </span>
+              <CommandShortcut>{staff.type}</CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Hospital, StaffType } from '@/types/hospital';
+import { DEFAULT_STAFFING_RULES, FloorStaffing, getFloorStaffing, StaffingRules } from '@/services/staffing';
+import { AlertTriangle, HeartPulse, Microscope, Stethoscope } from 'lucide-react';
+
+interface StaffRosterProps {
+  hospital: Hospital;
+  // Only the roster of this floor's kind is listed when set
+  selectedFloor?: string | null;
+  selectedStaffId?: string | null;
+  // Called with null when the selected staff member is clicked again
+  onStaffSelect: (staffId: string | null) => void;
+  staffingRules?: StaffingRules;
+}
+
+const STAFF_ICONS: Record<StaffType, React.ElementType> = {
+  Doctor: Stethoscope,
+  Nurse: HeartPulse,
+  Technician: Microscope,
+};
+
+const formatRatio = ({ patientsPerNurse, nurseCount }: FloorStaffing) =>
+  nurseCount === 0 ? 'no nurses' : `1:${Number.isInteger(patientsPerNurse) ? patientsPerNurse : patientsPerNurse.toFixed(1)}`;
+
+// Doctors, nurses and technicians per kind of floor with their patient counts; a floor whose nurses
+// look after more patients than the staffing rules allow is flagged
+const StaffRoster: React.FC<StaffRosterProps> = ({
+  hospital,
+  selectedFloor,
+  selectedStaffId,
+  onStaffSelect,
+  staffingRules = DEFAULT_STAFFING_RULES,
+}) => {
+  const floorType = selectedFloor ? hospital.floors.find(f => f.id === selectedFloor)?.type : undefined;
+  const staffing = getFloorStaffing(hospital, staffingRules).filter(entry => !floorType || entry.floorType === floorType);
+
+  return (
+    <div className="space-y-4">
+      {staffing.map(entry => (
+        <div key={entry.floorType} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{entry.floors.map(floor => floor.name).join(', ')}</span>
+            <span className="text-xs text-muted-foreground">
+              {entry.patientCount} patients · {entry.workloads.length} staff
+            </span>
+          </div>
+
+          <div
+            className={`flex items-center gap-2 text-xs px-3 py-2 rounded-lg ${
+              entry.isUnderstaffed
+                ? 'bg-amber-500/10 text-amber-600 dark:text-amber-300'
+                : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'
+            }`}
+          >
+            {entry.isUnderstaffed && <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />}
+            <span>
+              Nurse ratio {formatRatio(entry)} (max 1:{entry.maxPatientsPerNurse})
+              {entry.isUnderstaffed && ' — understaffed'}
+            </span>
+          </div>
+
+          <div className="space-y-1">
+            {entry.workloads.map(({ staff, patients, criticalCount }) => {
+              const Icon = STAFF_ICONS[staff.type];
+              const isSelected = staff.id === selectedStaffId;
+              return (
+                <button
+                  key={staff.id}
+                  type="button"
+                  onClick={() => onStaffSelect(isSelected ? null : staff.id)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-left transition-colors ${
+                    isSelected
+                      ? 'border-blue-500/50 bg-blue-500/10'
+                      : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700/80'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Icon className="h-4 w-4 flex-shrink-0 text-slate-500 dark:text-slate-400" />
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-sm font-medium truncate">{staff.name}</span>
+                      <span className="text-xs text-muted-foreground">{staff.type}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    {criticalCount > 0 && (
+                      <Badge variant="outline" className="border-rose-500/30 text-rose-500 text-[10px] px-1.5">
+                        {criticalCount} critical
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="text-[10px] px-1.5">
+                      {patients.length} {patients.length === 1 ? 'patient' : 'patients'}
+                    </Badge>
+                  </div>
+                </button>
+              );
+            })}
+            {entry.workloads.length === 0 && (
+              <p className="text-xs text-muted-foreground">No staff assigned to this floor</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StaffRoster;
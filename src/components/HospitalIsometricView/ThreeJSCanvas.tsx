@@ -1,298 +1,404 @@
 
-import React, { useRef, useEffect, useState, useMemo } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { Hospital, Bed, Patient, Position, BedStatus, PatientStatus, Floor } from '@/types/hospital';
+import { Hospital, Bed, Patient, Equipment, Room, PlanPoint, RoomBounds } from '@/types/hospital';
+import { getCleaningDeadline } from '@/services/bedStatusMachine';
+import { EntityLocation } from '@/services/hospitalSearch';
+import { FilterMode, HospitalFilterMatch } from '@/services/hospitalFilters';
+import { CameraPreset } from '@/services/viewRoute';
+import { getPatientNews2, getPatientSeverity } from '@/services/clinical';
+import { AlertBeacon } from '@/services/alerts';
+import { InstancedLayer } from './instancedLayer';
+import {
+  ALERT_BEACON_COLORS,
+  applySceneTheme,
+  createCorridorGeometry,
+  createEquipment,
+  createLayoutEditorObjects,
+  createScoreBadge,
+  createSceneLayers,
+  createSceneMaterials,
+  disposeObject,
+  DIMMED_COLOR,
+  disposeSceneLayers,
+  disposeScoreBadge,
+  getBoundsCorners,
+  getBedIndicatorColor,
+  getBedIndicatorPosition,
+  getBedPosition,
+  getEquipmentPosition,
+  getFloorSlabBounds,
+  getPatientColor,
+  getPatientPosition,
+  getRoomFloorColor,
+  getRoomFloorPlacement,
+  getRoomWallSegments,
+  getScoreBadgePosition,
+  LayoutEditorObjects,
+  OVERDUE_CLEANING_COLOR,
+  placeDraftRoom,
+  RESERVATION_GHOST_COLOR,
+  ROOM_WALL_HEIGHT,
+  SceneLayers,
+  SceneMaterials,
+  setObjectDimmed,
+} from './sceneObjects';
+import { LayoutEditTool } from './FloorPlanEditorToolbar';
 
 interface ThreeJSCanvasProps {
   hospital: Hospital;
   selectedFloor?: string | null;
   selectedPatientId?: string | null;
+  // Drawn like the selected patient, e.g. the patients of the selected staff member
+  highlightedPatientIds?: string[];
+  selectedRoomId?: string | null;
   onBedSelect?: (bedId: string) => void;
   onPatientSelect?: (patientId: string) => void;
+  onEquipmentSelect?: (equipmentId: string) => void;
+  onRoomSelect?: (roomId: string) => void;
+  // Beds with an active alert, marked with a pulsing beacon
+  alertBeacons?: AlertBeacon[];
+  // Viewing angle, reapplied whenever it or the focused floor changes
+  cameraPreset?: CameraPreset;
+  // Each new location makes the camera fly over to frame it
+  cameraFocus?: EntityLocation | null;
+  // Entities matching the active filters, or null when nothing is filtered
+  filterMatch?: HospitalFilterMatch | null;
+  filterMode?: FilterMode;
+  // Floor plan editing; the layout of the selected floor can be edited while a tool is set
+  layoutTool?: LayoutEditTool | null;
+  onBedMove?: (bedId: string, position: PlanPoint) => void;
+  onBedAdd?: (floorId: string, position: PlanPoint) => void;
+  onRoomDraw?: (floorId: string, bounds: RoomBounds) => void;
+  onRoomResize?: (roomId: string, bounds: RoomBounds) => void;
   isDarkMode?: boolean;
 }
 
+// Long-lived parts of the scene, created once when the canvas mounts
+interface SceneContext {
+  scene: THREE.Scene;
+  camera: THREE.OrthographicCamera;
+  controls: OrbitControls;
+  ambientLight: THREE.AmbientLight;
+  directionalLight: THREE.DirectionalLight;
+  fillLight: THREE.DirectionalLight;
+  pointLight: THREE.PointLight;
+  floorGroup: THREE.Group;
+  materials: SceneMaterials;
+  layers: SceneLayers;
+  layoutEditor: LayoutEditorObjects;
+}
+
+// The data each bed and patient instance was last drawn from, so a data change
+// only touches the instances whose entity actually changed
+interface BedObject {
+  bed: Bed;
+  cleaningDeadline: number | null;
+  isDimmed: boolean;
+}
+
+interface PatientObject {
+  patient: Patient;
+  bed: Bed;
+  isDimmed: boolean;
+}
+
+// A NEWS2 badge above a patient; key is what its texture was drawn from
+interface ScoreBadgeObject {
+  sprite: THREE.Sprite;
+  key: string;
+}
+
+// Equipment is not instanced; each item keeps its own group
+interface EquipmentObject {
+  equipment: Equipment;
+  group: THREE.Group;
+  isDarkMode: boolean;
+  isDimmed: boolean;
+}
+
+// Rooms are drawn on the level of their floor; segmentCount tracks the wall instances to remove
+interface RoomObject {
+  room: Room;
+  level: number;
+  segmentCount: number;
+}
+
+interface HoverTarget {
+  type: 'bed' | 'patient' | 'equipment' | 'room';
+  id: string;
+}
+
+// A drag in the floor plan editor; nothing changes in the hospital until the pointer is released
+type LayoutDrag =
+  | { type: 'bed'; bed: Bed; position: PlanPoint }
+  | { type: 'room-draw'; start: PlanPoint; bounds: RoomBounds }
+  | { type: 'room-resize'; roomId: string; anchor: PlanPoint; bounds: RoomBounds };
+
+// An animated camera move from wherever the camera is to frame a location
+interface CameraFlight {
+  startedAt: number;
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  fromPosition: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  fromZoom: number;
+  toZoom: number;
+}
+
+const CAMERA_FLIGHT_MS = 700;
+
+// Camera position relative to its target for each preset, framing a single floor or the whole building.
+// Top views are nudged off the vertical so the orbit controls keep a usable up direction.
+const CAMERA_PRESET_OFFSETS: Record<CameraPreset, { floor: [number, number, number]; building: [number, number, number] }> = {
+  isometric: { floor: [15, 10, 15], building: [20, 20, 20] },
+  top: { floor: [0, 25, 0.01], building: [0, 35, 0.01] },
+  front: { floor: [0, 10, 25], building: [0, 15, 30] },
+  side: { floor: [25, 10, 0], building: [30, 15, 0] },
+};
+
+// Edited positions snap to this grid, in metres
+const LAYOUT_GRID = 0.5;
+// Pointer travel, in pixels, before a press on a bed becomes a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+const snapToGrid = (value: number) => Math.round(value / LAYOUT_GRID) * LAYOUT_GRID;
+
+const getBoundsBetween = (a: PlanPoint, b: PlanPoint): RoomBounds => ({
+  minX: Math.min(a.x, b.x),
+  minZ: Math.min(a.z, b.z),
+  maxX: Math.max(a.x, b.x),
+  maxZ: Math.max(a.z, b.z),
+});
+
+// Show or hide an optional per-entity layer instance, e.g. an IV pole
+const toggleInstance = (layer: InstancedLayer, id: string, isShown: boolean, position: THREE.Vector3) => {
+  if (isShown) {
+    layer.set(id, position);
+  } else {
+    layer.remove(id);
+  }
+};
+
+const placeBed = (layers: SceneLayers, bed: Bed, isHovered: boolean, isDimmed: boolean) => {
+  layers.beds.set(bed.id, getBedPosition(bed.position), isHovered ? 1.05 : 1);
+  layers.beds.setColor(bed.id, isDimmed ? DIMMED_COLOR : 0xffffff);
+
+  const indicatorColor = getBedIndicatorColor(bed.status);
+  toggleInstance(layers.bedIndicators, bed.id, indicatorColor !== undefined, getBedIndicatorPosition(bed.position));
+  if (indicatorColor !== undefined) {
+    layers.bedIndicators.setColor(bed.id, isDimmed ? DIMMED_COLOR : indicatorColor);
+  }
+
+  toggleInstance(layers.reservationGhosts, bed.id, bed.status === 'reserved', getPatientPosition(bed.position));
+  if (bed.status === 'reserved') {
+    layers.reservationGhosts.setColor(bed.id, isDimmed ? DIMMED_COLOR : RESERVATION_GHOST_COLOR);
+  }
+};
+
+const removeBed = (layers: SceneLayers, bedId: string) => {
+  layers.beds.remove(bedId);
+  layers.bedIndicators.remove(bedId);
+  layers.reservationGhosts.remove(bedId);
+};
+
+const placePatient = (layers: SceneLayers, { patient, bed, isDimmed }: PatientObject, isHovered: boolean, isSelected: boolean) => {
+  const position = getPatientPosition(bed.position);
+  if (isHovered) position.y += 0.1;
+
+  layers.patients.set(patient.id, position);
+  layers.patients.setColor(patient.id, getPatientColor(getPatientSeverity(patient), isSelected, isDimmed));
+  toggleInstance(layers.ivPoles, patient.id, patient.status === 'critical', position);
+};
+
+const removePatient = (layers: SceneLayers, patientId: string) => {
+  layers.patients.remove(patientId);
+  layers.ivPoles.remove(patientId);
+};
+
+// Badges are redrawn only when the score, risk band or dimming changes; patients without a score get none
+const placeScoreBadge = (scene: THREE.Scene, badges: Map<string, ScoreBadgeObject>, { patient, bed, isDimmed }: PatientObject) => {
+  const news2 = getPatientNews2(patient);
+  const key = news2 ? `${news2.total}:${news2.riskBand}:${isDimmed}` : null;
+  if (badges.get(patient.id)?.key !== key) {
+    removeScoreBadge(scene, badges, patient.id);
+  }
+  if (!news2) return;
+
+  let badge = badges.get(patient.id);
+  if (!badge) {
+    badge = { sprite: createScoreBadge(news2, isDimmed), key };
+    scene.add(badge.sprite);
+    badges.set(patient.id, badge);
+  }
+  badge.sprite.position.copy(getScoreBadgePosition(bed.position));
+};
+
+const removeScoreBadge = (scene: THREE.Scene, badges: Map<string, ScoreBadgeObject>, patientId: string) => {
+  const badge = badges.get(patientId);
+  if (!badge) return;
+  scene.remove(badge.sprite);
+  disposeScoreBadge(badge.sprite);
+  badges.delete(patientId);
+};
+
+const placeRoom = (layers: SceneLayers, room: Room, level: number, isSelected: boolean): number => {
+  const { position, scale } = getRoomFloorPlacement(room, level);
+  layers.roomFloors.set(room.id, position, scale);
+  layers.roomFloors.setColor(room.id, getRoomFloorColor(room, isSelected));
+
+  const segments = getRoomWallSegments(room, level);
+  segments.forEach((segment, index) => layers.roomWalls.set(`${room.id}:${index}`, segment.position, segment.scale, segment.rotationY));
+  return segments.length;
+};
+
+const removeRoom = (layers: SceneLayers, roomId: string, segmentCount: number) => {
+  layers.roomFloors.remove(roomId);
+  for (let index = 0; index < segmentCount; index++) {
+    layers.roomWalls.remove(`${roomId}:${index}`);
+  }
+};
+
 const ThreeJSCanvas: React.FC<ThreeJSCanvasProps> = ({
   hospital,
   selectedFloor,
   selectedPatientId,
+  highlightedPatientIds = [],
+  alertBeacons = [],
+  selectedRoomId,
   onBedSelect,
   onPatientSelect,
+  onEquipmentSelect,
+  onRoomSelect,
+  cameraPreset = 'isometric',
+  cameraFocus,
+  filterMatch = null,
+  filterMode = 'dim',
+  layoutTool = null,
+  onBedMove,
+  onBedAdd,
+  onRoomDraw,
+  onRoomResize,
   isDarkMode = true
 }) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const [hoveredObject, setHoveredObject] = useState<string | null>(null);
-  
-  const positionToVector3 = (position: Position): THREE.Vector3 => {
-    return new THREE.Vector3(position.x, position.y, position.z);
-  };
-  
-  const createHospitalBed = (position: THREE.Vector3, id: string): THREE.Group => {
-    const bedGroup = new THREE.Group();
-    
-    const frameGeometry = new THREE.BoxGeometry(0.9, 0.3, 2.1);
-    const frameMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0x9F9EA1 : 0xCBD5E0,
-      roughness: 0.3,
-      metalness: 0.8
-    });
-    const frame = new THREE.Mesh(frameGeometry, frameMaterial);
-    frame.position.y = 0.15;
-    frame.castShadow = true;
-    frame.receiveShadow = true;
-    bedGroup.add(frame);
-    
-    const mattressGeometry = new THREE.BoxGeometry(0.8, 0.15, 1.9);
-    const mattressMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0xD3E4FD : 0xEBF8FF,
-      roughness: 0.7,
-      metalness: 0.0
-    });
-    const mattress = new THREE.Mesh(mattressGeometry, mattressMaterial);
-    mattress.position.y = 0.38;
-    mattress.castShadow = true;
-    mattress.receiveShadow = true;
-    bedGroup.add(mattress);
-    
-    const pillowGeometry = new THREE.BoxGeometry(0.6, 0.1, 0.4);
-    const pillowMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0xffffff,
-      roughness: 0.8,
-      metalness: 0.0
-    });
-    const pillow = new THREE.Mesh(pillowGeometry, pillowMaterial);
-    pillow.position.set(0, 0.45, -0.7);
-    pillow.castShadow = true;
-    bedGroup.add(pillow);
-    
-    const railGeometry = new THREE.BoxGeometry(0.05, 0.3, 1.8);
-    const railMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0x9F9EA1 : 0xCBD5E0,
-      roughness: 0.2,
-      metalness: 0.9
-    });
-    
-    const leftRail = new THREE.Mesh(railGeometry, railMaterial);
-    leftRail.position.set(-0.425, 0.5, 0);
-    leftRail.castShadow = true;
-    bedGroup.add(leftRail);
-    
-    const rightRail = new THREE.Mesh(railGeometry, railMaterial);
-    rightRail.position.set(0.425, 0.5, 0);
-    rightRail.castShadow = true;
-    bedGroup.add(rightRail);
-    
-    const headboardGeometry = new THREE.BoxGeometry(0.9, 0.6, 0.08);
-    const headboardMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0x8A898C : 0xA0AEC0,
-      roughness: 0.4,
-      metalness: 0.5
-    });
-    
-    const headboard = new THREE.Mesh(headboardGeometry, headboardMaterial);
-    headboard.position.set(0, 0.5, -1.05);
-    headboard.castShadow = true;
-    bedGroup.add(headboard);
-    
-    const footboard = new THREE.Mesh(headboardGeometry, headboardMaterial);
-    footboard.position.set(0, 0.5, 1.05);
-    footboard.castShadow = true;
-    bedGroup.add(footboard);
-    
-    const legGeometry = new THREE.CylinderGeometry(0.04, 0.04, 0.3, 8);
-    const legMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0x8A898C : 0xA0AEC0,
-      roughness: 0.2,
-      metalness: 0.8
-    });
-    
-    const legPositions = [
-      [-0.4, 0, -0.9],
-      [0.4, 0, -0.9],
-      [-0.4, 0, 0.9],
-      [0.4, 0, 0.9]
-    ];
-    
-    legPositions.forEach(pos => {
-      const leg = new THREE.Mesh(legGeometry, legMaterial);
-      leg.position.set(pos[0], -0.15, pos[1]);
-      leg.castShadow = true;
-      bedGroup.add(leg);
-    });
-    
-    bedGroup.position.copy(position);
-    
-    bedGroup.userData.id = id;
-    bedGroup.userData.type = 'bed';
-    
-    return bedGroup;
-  };
-  
-  const createPatient = (position: THREE.Vector3, id: string, status: PatientStatus, isSelected: boolean): THREE.Group => {
-    const patientGroup = new THREE.Group();
-    
-    let bodyMaterial;
-    
-    if (isSelected) {
-      bodyMaterial = new THREE.MeshStandardMaterial({ 
-        color: status === 'critical' ? 0xea384c : status === 'stable' ? 0x4ade80 : 0x8E9196,
-        emissive: status === 'critical' ? 0xea384c : status === 'stable' ? 0x4ade80 : 0x8E9196,
-        emissiveIntensity: isDarkMode ? 1.2 : 0.8,
-        roughness: 0.6,
-        metalness: 0.1
-      });
-    } else {
-      bodyMaterial = new THREE.MeshStandardMaterial({ 
-        color: status === 'critical' ? 0xea384c : status === 'stable' ? 0x4ade80 : 0x8E9196,
-        emissive: status === 'critical' ? 0xea384c : status === 'stable' ? 0x4ade80 : 0x8E9196,
-        emissiveIntensity: isDarkMode ? 0.7 : 0.5,
-        roughness: 0.6,
-        metalness: 0.1
-      });
-    }
-    
-    const torsoGeometry = new THREE.CapsuleGeometry(0.25, 0.8, 4, 8);
-    const torso = new THREE.Mesh(torsoGeometry, bodyMaterial);
-    torso.position.y = 0.55;
-    torso.rotation.x = Math.PI / 2;
-    torso.castShadow = true;
-    patientGroup.add(torso);
-    
-    const headGeometry = new THREE.SphereGeometry(0.2, 16, 16);
-    const head = new THREE.Mesh(headGeometry, bodyMaterial);
-    head.position.set(0, 0.6, -0.65);
-    head.castShadow = true;
-    patientGroup.add(head);
-    
-    const armGeometry = new THREE.CapsuleGeometry(0.08, 0.5, 4, 8);
-    const leftArm = new THREE.Mesh(armGeometry, bodyMaterial);
-    leftArm.position.set(-0.35, 0.55, -0.15);
-    leftArm.rotation.z = Math.PI / 2;
-    leftArm.castShadow = true;
-    patientGroup.add(leftArm);
-    
-    const rightArm = new THREE.Mesh(armGeometry, bodyMaterial);
-    rightArm.position.set(0.35, 0.55, -0.15);
-    rightArm.rotation.z = -Math.PI / 2;
-    rightArm.castShadow = true;
-    patientGroup.add(rightArm);
-    
-    const blanketGeometry = new THREE.BoxGeometry(0.7, 0.08, 0.9);
-    const blanketMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0xD3E4FD : 0xEBF8FF,
-      roughness: 0.8,
-      metalness: 0.0
-    });
-    const blanket = new THREE.Mesh(blanketGeometry, blanketMaterial);
-    blanket.position.set(0, 0.5, 0.5);
-    blanket.castShadow = true;
-    patientGroup.add(blanket);
-    
-    if (status === 'critical') {
-      const ivPoleGeometry = new THREE.CylinderGeometry(0.02, 0.02, 1.2, 8);
-      const ivPoleMaterial = new THREE.MeshStandardMaterial({ 
-        color: 0xCCCCCC,
-        roughness: 0.2,
-        metalness: 0.9
-      });
-      const ivPole = new THREE.Mesh(ivPoleGeometry, ivPoleMaterial);
-      ivPole.position.set(0.45, 0.9, -0.3);
-      patientGroup.add(ivPole);
-      
-      const ivBagGeometry = new THREE.BoxGeometry(0.05, 0.15, 0.05);
-      const ivBagMaterial = new THREE.MeshStandardMaterial({ 
-        color: 0xFFFFFF,
-        transparent: true,
-        opacity: 0.7,
-        roughness: 0.1
-      });
-      const ivBag = new THREE.Mesh(ivBagGeometry, ivBagMaterial);
-      ivBag.position.set(0.45, 1.4, -0.3);
-      patientGroup.add(ivBag);
-    }
-    
-    patientGroup.position.copy(position);
-    
-    patientGroup.userData.id = id;
-    patientGroup.userData.type = 'patient';
-    
-    return patientGroup;
-  };
-  
-  const { visibleFloors, visibleBeds, visiblePatients } = useMemo(() => {
+  const sceneRef = useRef<SceneContext | null>(null);
+  const bedObjectsRef = useRef(new Map<string, BedObject>());
+  const patientObjectsRef = useRef(new Map<string, PatientObject>());
+  const scoreBadgesRef = useRef(new Map<string, ScoreBadgeObject>());
+  const equipmentObjectsRef = useRef(new Map<string, EquipmentObject>());
+  const roomObjectsRef = useRef(new Map<string, RoomObject>());
+  // Read from the long-lived event handlers without re-registering them
+  const callbacksRef = useRef({ onBedSelect, onPatientSelect, onEquipmentSelect, onRoomSelect, onBedMove, onBedAdd, onRoomDraw, onRoomResize });
+  callbacksRef.current = { onBedSelect, onPatientSelect, onEquipmentSelect, onRoomSelect, onBedMove, onBedAdd, onRoomDraw, onRoomResize };
+  const selectedRoomIdRef = useRef(selectedRoomId);
+  selectedRoomIdRef.current = selectedRoomId;
+  // Keyed by the joined ids, so a new but equal list does not recolor anything
+  const selectedPatientKey = [selectedPatientId, ...highlightedPatientIds].filter(Boolean).join(',');
+  const selectedPatientIds = useMemo(
+    () => new Set(selectedPatientKey ? selectedPatientKey.split(',') : []),
+    [selectedPatientKey]
+  );
+  const selectedPatientIdsRef = useRef(selectedPatientIds);
+  selectedPatientIdsRef.current = selectedPatientIds;
+  // Bed positions of the beacons currently drawn, read by the animation loop to pulse their rings
+  const beaconPositionsRef = useRef(new Map<string, THREE.Vector3>());
+  const alertBeaconKey = alertBeacons.map(({ bedId, severity }) => `${bedId}:${severity}`).join(',');
+  const hoveredRef = useRef<HoverTarget | null>(null);
+  const flightRef = useRef<CameraFlight | null>(null);
+
+  const { visibleFloors, visibleBeds, visiblePatients, visibleEquipment, visibleRooms } = useMemo(() => {
     const allFloors = hospital.floors;
-    
+    // In hide mode, whatever the filters leave out is not drawn at all
+    const hidden = filterMode === 'hide' ? filterMatch : null;
+    const shownBeds = hidden ? hospital.beds.filter(bed => hidden.beds.has(bed.id)) : hospital.beds;
+    const shownPatients = hidden ? hospital.patients.filter(patient => hidden.patients.has(patient.id)) : hospital.patients;
+    const shownEquipment = hidden ? hospital.equipment.filter(item => hidden.equipment.has(item.id)) : hospital.equipment;
+
     if (selectedFloor) {
       const currentFloor = allFloors.find(f => f.id === selectedFloor);
-      
+
       if (currentFloor) {
-        const beds = hospital.beds.filter(bed => bed.floor === currentFloor.type);
+        const beds = shownBeds.filter(bed => bed.floor === currentFloor.type);
         const bedPatientIds = beds
           .filter(bed => bed.patientId)
           .map(bed => bed.patientId);
-        
-        const patients = hospital.patients.filter(
+
+        const patients = shownPatients.filter(
           patient => bedPatientIds.includes(patient.id)
         );
-        
-        return { 
-          visibleFloors: [currentFloor], 
-          visibleBeds: beds, 
-          visiblePatients: patients 
+
+        return {
+          visibleFloors: [currentFloor],
+          visibleBeds: beds,
+          visiblePatients: patients,
+          visibleEquipment: shownEquipment.filter(item => item.floor === currentFloor.type),
+          visibleRooms: hospital.rooms.filter(room => room.floorId === currentFloor.id)
         };
       }
     }
-    
-    return { 
-      visibleFloors: allFloors, 
-      visibleBeds: hospital.beds, 
-      visiblePatients: hospital.patients 
+
+    return {
+      visibleFloors: allFloors,
+      visibleBeds: shownBeds,
+      visiblePatients: shownPatients,
+      visibleEquipment: shownEquipment,
+      visibleRooms: hospital.rooms
     };
-  }, [hospital, selectedFloor]);
-  
+  }, [hospital, selectedFloor, filterMatch, filterMode]);
+
+  // In dim mode, entities the filters leave out are drawn darker
+  const dimmed = filterMode === 'dim' ? filterMatch : null;
+
+  // What the floor slabs are drawn from; keyed by its contents, so hospital changes that leave levels, room
+  // and corridor bounds alone do not rebuild them
+  const floorSlabs = useMemo(() => hospital.floors.map(floor => {
+    const corridors = floor.corridors ?? [];
+    return {
+      id: floor.id,
+      level: floor.level,
+      corridors,
+      bounds: getFloorSlabBounds(hospital.rooms.filter(room => room.floorId === floor.id), corridors),
+      isVisible: visibleFloors.some(f => f.id === floor.id),
+    };
+  }), [hospital.floors, hospital.rooms, visibleFloors]);
+  const floorSlabKey = useMemo(() => JSON.stringify(floorSlabs), [floorSlabs]);
+  const floorSlabsRef = useRef(floorSlabs);
+  floorSlabsRef.current = floorSlabs;
+
+  // Layouts are edited one floor at a time
+  const editedFloor = layoutTool && selectedFloor && visibleFloors.length === 1 ? visibleFloors[0] : null;
+  const layoutEditRef = useRef({ tool: layoutTool, floor: editedFloor });
+  layoutEditRef.current = { tool: layoutTool, floor: editedFloor };
+
+  // Renderer, camera, controls, lights and input handling live as long as the component
   useEffect(() => {
-    if (!mountRef.current) return;
-    
-    console.log("Initializing ThreeJSCanvas with hospital data:", hospital);
-    console.log("Selected floor:", selectedFloor);
-    console.log("Selected patient ID:", selectedPatientId);
-    console.log("Dark mode enabled:", isDarkMode);
-    console.log("Visible beds:", visibleBeds.length);
-    console.log("Visible floors:", visibleFloors.length);
-    
+    const mount = mountRef.current;
+    if (!mount) return;
+
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(isDarkMode ? 0x1A1F2C : 0xF6F6F7);
-    
-    scene.fog = new THREE.FogExp2(isDarkMode ? 0x1A1F2C : 0xF6F6F7, 0.015);
-    
-    const aspect = mountRef.current.clientWidth / mountRef.current.clientHeight;
+
+    const aspect = mount.clientWidth / mount.clientHeight;
     const camera = new THREE.OrthographicCamera(
       -10 * aspect, 10 * aspect, 10, -10, 0.1, 1000
     );
-    
-    if (selectedFloor && visibleFloors.length === 1) {
-      const floorLevel = visibleFloors[0].level;
-      camera.position.set(15, floorLevel * 4 + 10, 15);
-      camera.lookAt(0, floorLevel * 4, 0);
-    } else {
-      camera.position.set(20, 20, 20);
-      camera.lookAt(0, 0, 0);
-    }
-    
-    const renderer = new THREE.WebGLRenderer({ 
+    camera.position.set(20, 20, 20);
+    camera.lookAt(0, 0, 0);
+
+    const renderer = new THREE.WebGLRenderer({
       antialias: true,
       powerPreference: "high-performance",
       preserveDrawingBuffer: true,
       alpha: true
     });
-    renderer.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
+    renderer.setSize(mount.clientWidth, mount.clientHeight);
     renderer.setPixelRatio(window.devicePixelRatio);
     renderer.shadowMap.enabled = true;
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     renderer.outputColorSpace = THREE.SRGBColorSpace;
-    mountRef.current.appendChild(renderer.domElement);
-    
+    mount.appendChild(renderer.domElement);
+
     const controls = new OrbitControls(camera, renderer.domElement);
     controls.enableDamping = true;
     controls.dampingFactor = 0.08;
@@ -305,17 +411,17 @@ const ThreeJSCanvas: React.FC<ThreeJSCanvasProps> = ({
     controls.zoomSpeed = 1.0;
     controls.enablePan = true;
     controls.panSpeed = 0.8;
-    
-    const ambientLight = new THREE.AmbientLight(
-      isDarkMode ? 0x6E59A5 : 0xF0EAD6, 
-      isDarkMode ? 0.3 : 0.5
-    );
+    // Grabbing the view cancels a camera flight
+    const handleControlsStart = () => {
+      flightRef.current = null;
+    };
+    controls.addEventListener('start', handleControlsStart);
+
+    // Light colors and intensities are set by the theme effect below
+    const ambientLight = new THREE.AmbientLight();
     scene.add(ambientLight);
-    
-    const directionalLight = new THREE.DirectionalLight(
-      isDarkMode ? 0xffffff : 0xF5F5F5, 
-      isDarkMode ? 0.8 : 0.9
-    );
+
+    const directionalLight = new THREE.DirectionalLight();
     directionalLight.position.set(15, 25, 15);
     directionalLight.castShadow = true;
     directionalLight.shadow.mapSize.width = 2048;
@@ -324,40 +430,436 @@ const ThreeJSCanvas: React.FC<ThreeJSCanvasProps> = ({
     directionalLight.shadow.camera.far = 100;
     directionalLight.shadow.bias = -0.001;
     scene.add(directionalLight);
-    
-    const fillLight = new THREE.DirectionalLight(
-      isDarkMode ? 0x8B5CF6 : 0x90CDF4, 
-      isDarkMode ? 0.3 : 0.4
-    );
+
+    const fillLight = new THREE.DirectionalLight();
     fillLight.position.set(-15, 10, 15);
     scene.add(fillLight);
-    
-    const pointLight = new THREE.PointLight(
-      isDarkMode ? 0x0EA5E9 : 0x3182CE, 
-      isDarkMode ? 1.0 : 0.8, 
-      50
-    );
+
+    const pointLight = new THREE.PointLight(0xffffff, 1, 50);
     pointLight.position.set(0, 15, 0);
     pointLight.castShadow = true;
     pointLight.shadow.bias = -0.001;
     scene.add(pointLight);
-    
+
+    const floorGroup = new THREE.Group();
+    scene.add(floorGroup);
+
+    const materials = createSceneMaterials();
+    const layers = createSceneLayers(materials);
+    Object.values(layers).forEach(layer => scene.add(layer.group));
+
+    const layoutEditor = createLayoutEditorObjects();
+    scene.add(layoutEditor.group);
+
+    sceneRef.current = { scene, camera, controls, ambientLight, directionalLight, fillLight, pointLight, floorGroup, materials, layers, layoutEditor };
+
     const raycaster = new THREE.Raycaster();
     raycaster.params.Line.threshold = 0.1;
     raycaster.params.Points.threshold = 0.1;
     const mouse = new THREE.Vector2();
-    
-    const interactiveObjects: { [key: string]: THREE.Object3D } = {};
-    const patientGroups: { [key: string]: THREE.Group } = {};
-    
-    const floorMaterial = new THREE.MeshStandardMaterial({ 
+
+    // The bed, patient, equipment or room under the cursor, if any; room floors sit below everything else
+    const aim = (event: MouseEvent) => {
+      const rect = mount.getBoundingClientRect();
+      mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+      mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+      raycaster.setFromCamera(mouse, camera);
+    };
+
+    const pick = (event: MouseEvent): HoverTarget | null => {
+      aim(event);
+
+      const intersects = raycaster.intersectObjects([
+        ...layers.beds.pickMeshes,
+        ...layers.patients.pickMeshes,
+        ...layers.roomFloors.pickMeshes,
+        ...[...equipmentObjectsRef.current.values()].map(object => object.group),
+      ], true);
+      const hit = intersects.find(intersect => intersect.object instanceof THREE.Mesh);
+      if (!hit) return null;
+
+      if (hit.instanceId !== undefined) {
+        const type: HoverTarget['type'] = hit.object.userData.type;
+        const layer = type === 'bed' ? layers.beds : type === 'room' ? layers.roomFloors : layers.patients;
+        const id = layer.getId(hit.instanceId);
+        return id ? { type, id } : null;
+      }
+
+      let object = hit.object;
+      while (object && !object.userData.id) {
+        object = object.parent as THREE.Object3D;
+      }
+      return object ? { type: 'equipment', id: object.userData.id } : null;
+    };
+
+    // Redraw an instance with or without the hover effect
+    const placeHovered = (target: HoverTarget, isHovered: boolean) => {
+      if (target.type === 'bed') {
+        const object = bedObjectsRef.current.get(target.id);
+        if (object) placeBed(layers, object.bed, isHovered, object.isDimmed);
+      } else if (target.type === 'equipment') {
+        const scale = isHovered ? 1.05 : 1;
+        equipmentObjectsRef.current.get(target.id)?.group.scale.set(scale, scale, scale);
+      } else if (target.type === 'room') {
+        // Rooms only change the cursor
+      } else {
+        const object = patientObjectsRef.current.get(target.id);
+        if (object) placePatient(layers, object, isHovered, selectedPatientIdsRef.current.has(target.id));
+      }
+    };
+
+    const setHovered = (target: HoverTarget | null) => {
+      const current = hoveredRef.current;
+      if (current?.type === target?.type && current?.id === target?.id) return;
+
+      if (current) placeHovered(current, false);
+      if (target) placeHovered(target, true);
+
+      hoveredRef.current = target;
+      document.body.style.cursor = target ? 'pointer' : 'auto';
+    };
+
+    // Floor plan editing: a press on a bed, a room corner handle or, while drawing, anywhere on the
+    // edited floor starts a drag, and the orbit controls stay off until the pointer is released
+    const floorPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    const planeHit = new THREE.Vector3();
+    let drag: LayoutDrag | null = null;
+    let dragOrigin = { x: 0, y: 0 };
+    let isDragging = false;
+    let suppressClick = false;
+
+    // The point of the edited floor under the cursor, snapped to the grid
+    const pickFloorPoint = (event: MouseEvent): PlanPoint | null => {
+      const { floor } = layoutEditRef.current;
+      if (!floor) return null;
+
+      aim(event);
+      floorPlane.constant = -floor.level * 4;
+      if (!raycaster.ray.intersectPlane(floorPlane, planeHit)) return null;
+      return { x: snapToGrid(planeHit.x), z: snapToGrid(planeHit.z) };
+    };
+
+    // Draw a bed, and the patient in it, at another position without touching the data
+    const placeBedAt = (bed: Bed, position: PlanPoint, isHovered: boolean) => {
+      const moved = { ...bed, position: { ...bed.position, x: position.x, z: position.z } };
+      placeBed(layers, moved, isHovered, bedObjectsRef.current.get(bed.id)?.isDimmed ?? false);
+      const object = bed.patientId ? patientObjectsRef.current.get(bed.patientId) : undefined;
+      if (object) {
+        placePatient(layers, { ...object, bed: moved }, false, selectedPatientIdsRef.current.has(object.patient.id));
+      }
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      suppressClick = false;
+      const { tool, floor } = layoutEditRef.current;
+      if (!tool || !floor || event.button !== 0) return;
+
+      const point = pickFloorPoint(event);
+      if (!point) return;
+
+      if (tool === 'draw-room') {
+        drag = { type: 'room-draw', start: point, bounds: getBoundsBetween(point, point) };
+      } else if (tool === 'select') {
+        const handleHit = raycaster.intersectObjects(layoutEditor.handles.filter(handle => handle.visible))[0];
+        const target = handleHit ? null : pick(event);
+        if (handleHit) {
+          const { roomId, bounds } = layoutEditor.group.userData;
+          const anchor = getBoundsCorners(bounds)[(handleHit.object.userData.corner + 2) % 4];
+          drag = { type: 'room-resize', roomId, anchor, bounds };
+        } else if (target?.type === 'bed' || target?.type === 'patient') {
+          // Grabbing a patient moves the bed they lie in
+          const bed = target.type === 'bed'
+            ? bedObjectsRef.current.get(target.id)?.bed
+            : patientObjectsRef.current.get(target.id)?.bed;
+          if (bed) drag = { type: 'bed', bed, position: { x: bed.position.x, z: bed.position.z } };
+        }
+      }
+
+      if (drag) {
+        controls.enabled = false;
+        dragOrigin = { x: event.clientX, y: event.clientY };
+        isDragging = false;
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const { floor } = layoutEditRef.current;
+      if (!drag || !floor) return;
+      if (!isDragging) {
+        if (Math.hypot(event.clientX - dragOrigin.x, event.clientY - dragOrigin.y) < DRAG_THRESHOLD) return;
+        isDragging = true;
+      }
+
+      const point = pickFloorPoint(event);
+      if (!point) return;
+
+      if (drag.type === 'bed') {
+        drag = { ...drag, position: point };
+        placeBedAt(drag.bed, point, true);
+      } else {
+        const bounds = getBoundsBetween(drag.type === 'room-draw' ? drag.start : drag.anchor, point);
+        drag = { ...drag, bounds };
+        placeDraftRoom(layoutEditor.draft, bounds, floor.level);
+      }
+    };
+
+    // Previews are undone on release; the edit itself comes back as new hospital data
+    const handlePointerUp = () => {
+      if (!drag) return;
+
+      const finished = drag;
+      const wasDragged = isDragging;
+      drag = null;
+      isDragging = false;
+      controls.enabled = true;
+      layoutEditor.draft.visible = false;
+      if (!wasDragged) return;
+
+      suppressClick = true;
+      const { floor } = layoutEditRef.current;
+      const { onBedMove, onRoomDraw, onRoomResize } = callbacksRef.current;
+      if (finished.type === 'bed') {
+        const { bed, position } = finished;
+        const current = bedObjectsRef.current.get(bed.id)?.bed;
+        if (current) placeBedAt(current, current.position, false);
+        if (position.x !== bed.position.x || position.z !== bed.position.z) {
+          onBedMove?.(bed.id, position);
+        }
+      } else if (finished.type === 'room-draw') {
+        if (floor) onRoomDraw?.(floor.id, finished.bounds);
+      } else {
+        onRoomResize?.(finished.roomId, finished.bounds);
+      }
+    };
+
+    // Beds are added and rooms drawn on the floor itself, so those tools use a crosshair
+    const getCursor = (target: HoverTarget | null) => {
+      const { tool, floor } = layoutEditRef.current;
+      if (floor && (tool === 'add-bed' || tool === 'draw-room')) return 'crosshair';
+      return target ? 'pointer' : 'auto';
+    };
+
+    const handleMouseMove = (event: MouseEvent) => {
+      if (isDragging) return;
+      const target = pick(event);
+      setHovered(target);
+      document.body.style.cursor = getCursor(target);
+    };
+
+    const handleMouseLeave = () => {
+      setHovered(null);
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (suppressClick) {
+        suppressClick = false;
+        return;
+      }
+
+      const { tool, floor } = layoutEditRef.current;
+      if (floor && tool === 'add-bed') {
+        const point = pickFloorPoint(event);
+        if (point) callbacksRef.current.onBedAdd?.(floor.id, point);
+        return;
+      }
+      if (floor && tool === 'draw-room') return;
+
+      const target = pick(event);
+      if (!target) return;
+
+      const { onBedSelect, onPatientSelect, onEquipmentSelect, onRoomSelect } = callbacksRef.current;
+      if (target.type === 'bed' && onBedSelect) {
+        onBedSelect(target.id);
+      } else if (target.type === 'patient' && onPatientSelect) {
+        onPatientSelect(target.id);
+      } else if (target.type === 'equipment' && onEquipmentSelect) {
+        onEquipmentSelect(target.id);
+      } else if (target.type === 'room' && onRoomSelect) {
+        onRoomSelect(target.id);
+      }
+    };
+
+    const handleResize = () => {
+      const width = mount.clientWidth;
+      const height = mount.clientHeight;
+      if (width === 0 || height === 0) return;
+
+      const newAspect = width / height;
+      camera.left = -10 * newAspect;
+      camera.right = 10 * newAspect;
+      camera.updateProjectionMatrix();
+      renderer.setSize(width, height);
+    };
+
+    let frameId: number;
+    const animate = () => {
+      frameId = requestAnimationFrame(animate);
+
+      // Cleaning indicators turn red and pulse once the expected cleaning time has passed
+      const now = Date.now();
+      const pulse = 1 + Math.sin(now * 0.006) * 0.25;
+      bedObjectsRef.current.forEach(({ bed, cleaningDeadline, isDimmed }) => {
+        if (cleaningDeadline === null || now <= cleaningDeadline || isDimmed) return;
+
+        layers.bedIndicators.set(bed.id, getBedIndicatorPosition(bed.position), pulse);
+        layers.bedIndicators.setColor(bed.id, OVERDUE_CLEANING_COLOR);
+      });
+
+      // Alert rings widen and narrow around their bed
+      const ringScale = 1 + (Math.sin(now * 0.005) + 1) * 0.15;
+      beaconPositionsRef.current.forEach((position, bedId) => layers.alertRings.set(bedId, position, ringScale));
+
+      equipmentObjectsRef.current.forEach(({ group }) => {
+        group.userData.animations.forEach((animation: () => void) => animation());
+      });
+
+      const flight = flightRef.current;
+      if (flight) {
+        const progress = Math.min(1, (now - flight.startedAt) / CAMERA_FLIGHT_MS);
+        const eased = 1 - Math.pow(1 - progress, 3);
+        controls.target.lerpVectors(flight.fromTarget, flight.toTarget, eased);
+        camera.position.lerpVectors(flight.fromPosition, flight.toPosition, eased);
+        camera.zoom = THREE.MathUtils.lerp(flight.fromZoom, flight.toZoom, eased);
+        camera.updateProjectionMatrix();
+        if (progress === 1) flightRef.current = null;
+      }
+
+      controls.update();
+
+      renderer.render(scene, camera);
+    };
+
+    animate();
+
+    mount.addEventListener('mousemove', handleMouseMove);
+    mount.addEventListener('mouseleave', handleMouseLeave);
+    mount.addEventListener('click', handleClick);
+    // Capture phase, so a drag can switch the orbit controls off before they see the press
+    mount.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    // The canvas follows its container, which also changes size when the 2D plan is shown beside it
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(mount);
+
+    const bedObjects = bedObjectsRef.current;
+    const patientObjects = patientObjectsRef.current;
+    const scoreBadges = scoreBadgesRef.current;
+    const beaconPositions = beaconPositionsRef.current;
+    const equipmentObjects = equipmentObjectsRef.current;
+    const roomObjects = roomObjectsRef.current;
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      mount.removeEventListener('mousemove', handleMouseMove);
+      mount.removeEventListener('mouseleave', handleMouseLeave);
+      mount.removeEventListener('click', handleClick);
+      mount.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      resizeObserver.disconnect();
+      mount.removeChild(renderer.domElement);
+      document.body.style.cursor = 'auto';
+
+      bedObjects.clear();
+      patientObjects.clear();
+      beaconPositions.clear();
+      scoreBadges.forEach(({ sprite }) => disposeScoreBadge(sprite));
+      scoreBadges.clear();
+      equipmentObjects.forEach(({ group }) => disposeObject(group));
+      equipmentObjects.clear();
+      roomObjects.clear();
+      hoveredRef.current = null;
+      disposeSceneLayers(layers, materials);
+      disposeObject(floorGroup);
+      disposeObject(layoutEditor.group);
+      controls.removeEventListener('start', handleControlsStart);
+      controls.dispose();
+      flightRef.current = null;
+      renderer.dispose();
+      sceneRef.current = null;
+    };
+  }, []);
+
+  // Theme: background, fog and lights change in place
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { scene, ambientLight, directionalLight, fillLight, pointLight, materials } = context;
+    scene.background = new THREE.Color(isDarkMode ? 0x1A1F2C : 0xF6F6F7);
+    scene.fog = new THREE.FogExp2(isDarkMode ? 0x1A1F2C : 0xF6F6F7, 0.015);
+
+    ambientLight.color.setHex(isDarkMode ? 0x6E59A5 : 0xF0EAD6);
+    ambientLight.intensity = isDarkMode ? 0.3 : 0.5;
+    directionalLight.color.setHex(isDarkMode ? 0xffffff : 0xF5F5F5);
+    directionalLight.intensity = isDarkMode ? 0.8 : 0.9;
+    fillLight.color.setHex(isDarkMode ? 0x8B5CF6 : 0x90CDF4);
+    fillLight.intensity = isDarkMode ? 0.3 : 0.4;
+    pointLight.color.setHex(isDarkMode ? 0x0EA5E9 : 0x3182CE);
+    pointLight.intensity = isDarkMode ? 1.0 : 0.8;
+
+    applySceneTheme(materials, isDarkMode);
+  }, [isDarkMode]);
+
+  // Move the camera only when the floor selection or preset changes, never on data changes. This also
+  // undoes the zoom of an earlier search and cancels a flight still in progress.
+  const focusedFloorLevel = selectedFloor && visibleFloors.length === 1 ? visibleFloors[0].level : null;
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { camera, controls } = context;
+    const offsets = CAMERA_PRESET_OFFSETS[cameraPreset];
+    const targetY = focusedFloorLevel !== null ? focusedFloorLevel * 4 : 0;
+    const [x, y, z] = focusedFloorLevel !== null ? offsets.floor : offsets.building;
+    flightRef.current = null;
+    controls.target.set(0, targetY, 0);
+    camera.position.set(x, targetY + y, z);
+    camera.zoom = 1;
+    camera.updateProjectionMatrix();
+    controls.update();
+  }, [focusedFloorLevel, cameraPreset]);
+
+  // Fly to a searched entity, keeping the viewing angle and zooming to frame it. This runs after the
+  // floor focus above, so a search that also switches floors starts from the new floor's view.
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context || !cameraFocus) return;
+
+    const { camera, controls } = context;
+    const { position, size } = cameraFocus;
+    const toTarget = new THREE.Vector3(position.x, position.y, position.z);
+    const offset = camera.position.clone().sub(controls.target);
+    flightRef.current = {
+      startedAt: Date.now(),
+      fromTarget: controls.target.clone(),
+      toTarget,
+      fromPosition: camera.position.clone(),
+      toPosition: toTarget.clone().add(offset),
+      fromZoom: camera.zoom,
+      toZoom: THREE.MathUtils.clamp(10 / size, 1, 3),
+    };
+  }, [cameraFocus]);
+
+  // Floor slabs and corridors; there are only a handful, so they are simply rebuilt when any of them changes
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { floorGroup } = context;
+    disposeObject(floorGroup);
+    floorGroup.clear();
+
+    const floorMaterial = new THREE.MeshStandardMaterial({
       color: isDarkMode ? 0x403E43 : 0xE2E8F0,
       roughness: 0.7,
       metalness: 0.3,
       envMapIntensity: 0.8
     });
-    
-    const nonVisibleFloorMaterial = new THREE.MeshStandardMaterial({ 
+
+    const nonVisibleFloorMaterial = new THREE.MeshStandardMaterial({
       color: isDarkMode ? 0x403E43 : 0xE2E8F0,
       roughness: 0.7,
       metalness: 0.3,
@@ -365,350 +867,36 @@ const ThreeJSCanvas: React.FC<ThreeJSCanvasProps> = ({
       opacity: 0.15,
       envMapIntensity: 0.4
     });
-    
-    const wallMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0xF1F0FB : 0xFFFFFF,
-      roughness: 0.9,
-      metalness: 0.1,
-      envMapIntensity: 0.5
-    });
-    
-    const nightstandMaterial = new THREE.MeshStandardMaterial({ 
-      color: isDarkMode ? 0x8A898C : 0xA0AEC0,
-      roughness: 0.6,
-      metalness: 0.4,
-      envMapIntensity: 0.7
+
+    const corridorMaterial = new THREE.MeshStandardMaterial({
+      color: isDarkMode ? 0x4A4850 : 0xF1F5F9,
+      roughness: 0.8,
+      metalness: 0.1
     });
-    
-    const equipmentMaterials = {
-      default: new THREE.MeshStandardMaterial({ 
-        color: isDarkMode ? 0xb0b0b0 : 0xA0AEC0,
-        roughness: 0.2,
-        metalness: 0.8
-      }),
-      screen: new THREE.MeshStandardMaterial({ 
-        color: 0x222222,
-        emissive: isDarkMode ? 0x1EAEDB : 0x3182CE,
-        emissiveIntensity: isDarkMode ? 0.5 : 0.3,
-        roughness: 0.1,
-        metalness: 0.9
-      }),
-      working: new THREE.MeshStandardMaterial({ 
-        color: 0x4ade80,
-        emissive: 0x4ade80,
-        emissiveIntensity: isDarkMode ? 0.5 : 0.3
-      }),
-      maintenance: new THREE.MeshStandardMaterial({ 
-        color: 0xfbbd23,
-        emissive: 0xfbbd23,
-        emissiveIntensity: isDarkMode ? 0.5 : 0.3
-      }),
-      offline: new THREE.MeshStandardMaterial({ 
-        color: 0xea384c,
-        emissive: 0xea384c,
-        emissiveIntensity: isDarkMode ? 0.3 : 0.2
-      }),
-      glass: new THREE.MeshPhysicalMaterial({
-        color: isDarkMode ? 0xffffff : 0xE2E8F0,
-        transparent: true,
-        opacity: isDarkMode ? 0.3 : 0.4,
-        roughness: 0.1, 
-        transmission: isDarkMode ? 0.9 : 0.7,
-        ior: 1.5
-      })
-    };
-    
-    const createEquipment = (type: string, position: THREE.Vector3, equipmentId: string, status: 'working' | 'maintenance' | 'offline' = 'working') => {
-      const group = new THREE.Group();
-      let statusLight: THREE.Mesh;
-      const statusMaterial = equipmentMaterials[status];
-      
-      switch(type) {
-        case 'monitor': {
-          const standGeometry = new THREE.CylinderGeometry(0.2, 0.3, 0.8, 16);
-          const stand = new THREE.Mesh(standGeometry, equipmentMaterials.default);
-          stand.position.y = 0.4;
-          group.add(stand);
-          
-          const armGeometry = new THREE.BoxGeometry(0.1, 0.8, 0.1);
-          const arm = new THREE.Mesh(armGeometry, equipmentMaterials.default);
-          arm.position.y = 1.2;
-          group.add(arm);
-          
-          const screenGeometry = new THREE.BoxGeometry(0.8, 0.6, 0.08);
-          const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
-          screen.position.y = 1.5;
-          screen.position.z = 0.1;
-          group.add(screen);
-          
-          const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
-          statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
-          statusLight.position.set(0.3, 1.3, 0);
-          
-          const animateScreen = () => {
-            const time = Date.now() * 0.001;
-            const screenMat = screen.material as THREE.MeshStandardMaterial;
-            screenMat.emissiveIntensity = 0.3 + Math.sin(time * 2) * 0.1;
-          };
-          (screen as any).animate = animateScreen;
-          
-          break;
-        }
-        
-        case 'ventilator': {
-          const baseGeometry = new THREE.BoxGeometry(0.7, 1.2, 0.7);
-          const base = new THREE.Mesh(baseGeometry, equipmentMaterials.default);
-          base.position.y = 0.6;
-          group.add(base);
-          
-          const screenGeometry = new THREE.BoxGeometry(0.5, 0.3, 0.05);
-          const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
-          screen.position.y = 0.9;
-          screen.position.z = 0.38;
-          group.add(screen);
-          
-          const tubeGeometry = new THREE.TubeGeometry(
-            new THREE.CatmullRomCurve3([
-              new THREE.Vector3(0, 0.8, 0.35),
-              new THREE.Vector3(0.3, 0.7, 0.4),
-              new THREE.Vector3(0.4, 0.5, 0.5),
-              new THREE.Vector3(0.3, 0, 0.5),
-            ]),
-            20, 0.05, 8, false
-          );
-          const tube = new THREE.Mesh(tubeGeometry, new THREE.MeshStandardMaterial({
-            color: 0xdedede,
-            roughness: 0.7
-          }));
-          group.add(tube);
-          
-          const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
-          statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
-          statusLight.position.set(-0.25, 1.05, 0.38);
-          
-          const animateScreen = () => {
-            const time = Date.now() * 0.001;
-            const screenMat = screen.material as THREE.MeshStandardMaterial;
-            screenMat.emissiveIntensity = 0.4 + Math.sin(time * 4) * 0.2;
-          };
-          (screen as any).animate = animateScreen;
-          
-          break;
-        }
-        
-        case 'ct-scanner': {
-          const baseGeometry = new THREE.CylinderGeometry(1.4, 1.4, 0.4, 32);
-          const base = new THREE.Mesh(baseGeometry, equipmentMaterials.default);
-          base.position.y = 0.2;
-          group.add(base);
-          
-          const ringGeometry = new THREE.TorusGeometry(1.2, 0.2, 16, 32);
-          const ring = new THREE.Mesh(ringGeometry, equipmentMaterials.default);
-          ring.position.y = 1.0;
-          ring.rotation.x = Math.PI / 2;
-          group.add(ring);
-          
-          const tableGeometry = new THREE.BoxGeometry(0.8, 0.1, 2.5);
-          const table = new THREE.Mesh(tableGeometry, equipmentMaterials.default);
-          table.position.y = 0.7;
-          table.position.z = 0.5;
-          group.add(table);
-          
-          const panelGeometry = new THREE.BoxGeometry(0.6, 0.8, 0.15);
-          const panel = new THREE.Mesh(panelGeometry, equipmentMaterials.default);
-          panel.position.set(-1.0, 1.0, 1.5);
-          group.add(panel);
-          
-          const screenGeometry = new THREE.PlaneGeometry(0.4, 0.3);
-          const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
-          screen.position.set(-1.0, 1.2, 1.58);
-          group.add(screen);
-          
-          const lightGeometry = new THREE.SphereGeometry(0.1, 16, 16);
-          statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
-          statusLight.position.set(-1.0, 0.8, 1.58);
-          
-          const animateRing = () => {
-            const time = Date.now() * 0.001;
-            if (status === 'working') {
-              ring.rotation.z = time * 0.3;
-            }
-          };
-          (ring as any).animate = animateRing;
-          
-          const animateScreen = () => {
-            const time = Date.now() * 0.001;
-            const screenMat = screen.material as THREE.MeshStandardMaterial;
-            screenMat.emissiveIntensity = 0.3 + Math.sin(time * 2) * 0.1;
-          };
-          (screen as any).animate = animateScreen;
-          
-          break;
-        }
-        
-        case 'mri': {
-          const bodyGeometry = new THREE.CylinderGeometry(1.2, 1.2, 2, 32);
-          const body = new THREE.Mesh(bodyGeometry, equipmentMaterials.default);
-          body.position.y = 1;
-          body.rotation.x = Math.PI / 2;
-          group.add(body);
-          
-          const boreGeometry = new THREE.CylinderGeometry(0.6, 0.6, 2.2, 32);
-          const bore = new THREE.Mesh(boreGeometry, new THREE.MeshBasicMaterial({ 
-            color: 0x000000 
-          }));
-          bore.position.y = 1;
-          bore.rotation.x = Math.PI / 2;
-          group.add(bore);
-          
-          const tableGeometry = new THREE.BoxGeometry(0.8, 0.1, 3);
-          const table = new THREE.Mesh(tableGeometry, equipmentMaterials.default);
-          table.position.y = 0.7;
-          table.position.z = 0.5;
-          group.add(table);
-          
-          const terminalGeometry = new THREE.BoxGeometry(0.8, 1.2, 0.5);
-          const terminal = new THREE.Mesh(terminalGeometry, equipmentMaterials.default);
-          terminal.position.set(-1.5, 0.6, 1.5);
-          group.add(terminal);
-          
-          const screenGeometry = new THREE.PlaneGeometry(0.6, 0.5);
-          const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
-          screen.position.set(-1.5, 1.0, 1.76);
-          group.add(screen);
-          
-          const lightGeometry = new THREE.SphereGeometry(0.12, 16, 16);
-          statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
-          statusLight.position.set(0, 1.8, 0);
-          
-          const animateScreen = () => {
-            const time = Date.now() * 0.001;
-            const screenMat = screen.material as THREE.MeshStandardMaterial;
-            screenMat.emissiveIntensity = 0.3 + Math.sin(time * 1.5) * 0.15;
-          };
-          (screen as any).animate = animateScreen;
-          
-          break;
-        }
-        
-        case 'surgical-lights': {
-          const boomGeometry = new THREE.CylinderGeometry(0.05, 0.05, 1.5, 8);
-          const boom = new THREE.Mesh(boomGeometry, equipmentMaterials.default);
-          boom.position.y = 2.25;
-          boom.rotation.x = Math.PI / 2;
-          group.add(boom);
-          
-          const housingGeometry = new THREE.CylinderGeometry(0.4, 0.6, 0.2, 16);
-          const housing = new THREE.Mesh(housingGeometry, equipmentMaterials.default);
-          housing.position.y = 1.5;
-          group.add(housing);
-          
-          const lensGeometry = new THREE.CircleGeometry(0.5, 32);
-          const lens = new THREE.Mesh(lensGeometry, new THREE.MeshBasicMaterial({ 
-            color: status === 'working' ? 0xffffee : 0x555555,
-            transparent: true,
-            opacity: 0.9
-          }));
-          lens.position.y = 1.38;
-          lens.rotation.x = -Math.PI / 2;
-          group.add(lens);
-          
-          const spotlight = new THREE.SpotLight(
-            status === 'working' ? 0xffffee : 0x000000, 
-            status === 'working' ? 1 : 0, 
-            10, 
-            Math.PI / 4, 
-            0.5
-          );
-          spotlight.position.set(0, 1.5, 0);
-          spotlight.target.position.set(0, 0, 0);
-          group.add(spotlight);
-          group.add(spotlight.target);
-          
-          const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
-          statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
-          statusLight.position.set(0.3, 1.5, 0);
-          
-          const animateLight = () => {
-            if (status === 'working') {
-              const time = Date.now() * 0.001;
-              const lensMat = lens.material as THREE.MeshBasicMaterial;
-              lensMat.opacity = 0.8 + Math.sin(time) * 0.1;
-            }
-          };
-          (lens as any).animate = animateLight;
-          
-          break;
-        }
-        
-        case 'anesthesia-machine': {
-          const bodyGeometry = new THREE.BoxGeometry(0.8, 1.4, 0.6);
-          const body = new THREE.Mesh(bodyGeometry, equipmentMaterials.default);
-          body.position.y = 0.7;
-          group.add(body);
-          
-          const cylinderGeometry = new THREE.CylinderGeometry(0.1, 0.1, 0.5, 16);
-          const cylinder1 = new THREE.Mesh(cylinderGeometry, new THREE.MeshStandardMaterial({ 
-            color: 0x6e9df1, roughness: 0.2, metalness: 0.9 
-          }));
-          cylinder1.position.set(-0.25, 1.2, 0.35);
-          group.add(cylinder1);
-          
-          const cylinder2 = new THREE.Mesh(cylinderGeometry, new THREE.MeshStandardMaterial({ 
-            color: 0xc1f16e, roughness: 0.2, metalness: 0.9 
-          }));
-          cylinder2.position.set(0, 1.2, 0.35);
-          group.add(cylinder2);
-          
-          const cylinder3 = new THREE.Mesh(cylinderGeometry, new THREE.MeshStandardMaterial({ 
-            color: 0xf1a66e, roughness: 0.2, metalness: 0.9 
-          }));
-          cylinder3.position.set(0.25, 1.2, 0.35);
-          group.add(cylinder3);
-          
-          const monitorGeometry = new THREE.BoxGeometry(0.6, 0.4, 0.05);
-          const monitor = new THREE.Mesh(monitorGeometry, equipmentMaterials.screen);
-          monitor.position.set(0.25, 1.3, 0.35);
-          group.add(monitor);
-          
-          const animateMonitor = () => {
-            const time = Date.now() * 0.001;
-            const monitorMat = monitor.material as THREE.MeshStandardMaterial;
-            monitorMat.emissiveIntensity = 0.3 + Math.sin(time * 2) * 0.1;
-          };
-          (monitor as any).animate = animateMonitor;
-          
-          const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
-          statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
-          statusLight.position.set(-0.25, 1.4, 0.35);
-          group.add(statusLight);
-          
-          break;
-        }
-      }
-      
-      group.position.copy(position);
-      group.userData.id = equipmentId;
-      group.userData.type = type;
-      
-      return group;
-    };
-    
-    const floorGeometry = new THREE.BoxGeometry(25, 0.2, 25);
-    
-    hospital.floors.forEach(floor => {
-      const isVisible = visibleFloors.some(f => f.id === floor.id);
+
+    floorSlabsRef.current.forEach(({ level, corridors, bounds: slab, isVisible }) => {
       const material = isVisible ? floorMaterial : nonVisibleFloorMaterial;
-      
-      const floorMesh = new THREE.Mesh(floorGeometry, material);
+      const width = slab.maxX - slab.minX;
+      const depth = slab.maxZ - slab.minZ;
+
+      const floorMesh = new THREE.Mesh(new THREE.BoxGeometry(width, 0.2, depth), material);
       // Fix: Position the floor below objects, not above them
-      floorMesh.position.y = floor.level * 4 - 0.1; // Offset to position floor below objects
+      floorMesh.position.set((slab.minX + slab.maxX) / 2, level * 4 - 0.1, (slab.minZ + slab.maxZ) / 2); // Offset to position floor below objects
       floorMesh.receiveShadow = isVisible;
-      scene.add(floorMesh);
-      
+      floorGroup.add(floorMesh);
+
+      if (isVisible) {
+        corridors.forEach(corridor => {
+          const corridorMesh = new THREE.Mesh(createCorridorGeometry(corridor), corridorMaterial);
+          corridorMesh.position.y = level * 4 + 0.004;
+          corridorMesh.receiveShadow = true;
+          floorGroup.add(corridorMesh);
+        });
+      }
+
       if (!isVisible && selectedFloor) {
         const wallOutlineGeometry = new THREE.EdgesGeometry(
-          new THREE.BoxGeometry(24, 2.5, 24)
+          new THREE.BoxGeometry(width - 1, 2.5, depth - 1)
         );
         const wallOutlineMaterial = new THREE.LineBasicMaterial({
           color: isDarkMode ? 0x6E59A5 : 0xA0AEC0,
@@ -716,212 +904,232 @@ const ThreeJSCanvas: React.FC<ThreeJSCanvasProps> = ({
           opacity: 0.1
         });
         const wallOutlineMesh = new THREE.LineSegments(wallOutlineGeometry, wallOutlineMaterial);
-        wallOutlineMesh.position.y = floor.level * 4 + 1.5; // Keep outline position
-        scene.add(wallOutlineMesh);
+        wallOutlineMesh.position.set(floorMesh.position.x, level * 4 + 1.5, floorMesh.position.z); // Keep outline position
+        floorGroup.add(wallOutlineMesh);
       }
     });
-    
-    // Update the creation of beds and patients with proper positions
+  }, [floorSlabKey, selectedFloor, isDarkMode]);
+
+  // Rooms: floor tile and walls, redrawn when the room or its floor level changes
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { layers } = context;
+    const roomObjects = roomObjectsRef.current;
+    const levelsByFloorId = new Map(hospital.floors.map(floor => [floor.id, floor.level]));
+    const placedRooms = visibleRooms.filter(room => levelsByFloorId.has(room.floorId));
+    const placedIds = new Set(placedRooms.map(room => room.id));
+
+    roomObjects.forEach((object, roomId) => {
+      if (!placedIds.has(roomId)) {
+        removeRoom(layers, roomId, object.segmentCount);
+        roomObjects.delete(roomId);
+      }
+    });
+
+    placedRooms.forEach(room => {
+      const level = levelsByFloorId.get(room.floorId);
+      const existing = roomObjects.get(room.id);
+      if (existing?.room === room && existing.level === level) return;
+
+      if (existing) removeRoom(layers, room.id, existing.segmentCount);
+      const segmentCount = placeRoom(layers, room, level, room.id === selectedRoomIdRef.current);
+      roomObjects.set(room.id, { room, level, segmentCount });
+    });
+  }, [visibleRooms, hospital.floors]);
+
+  // Beds: add, remove, or redraw the instances of beds that changed
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { layers } = context;
+    const bedObjects = bedObjectsRef.current;
+    const visibleBedIds = new Set(visibleBeds.map(bed => bed.id));
+
+    bedObjects.forEach((_, bedId) => {
+      if (!visibleBedIds.has(bedId)) {
+        removeBed(layers, bedId);
+        bedObjects.delete(bedId);
+      }
+    });
+
     visibleBeds.forEach(bed => {
-      // Adjust the bed position to be above the floor
-      const bedPosition = new THREE.Vector3(
-        bed.position.x,
-        (bed.position.y !== undefined ? bed.position.y : 0) + 0.1, // Ensure above floor
-        bed.position.z
-      );
-      
-      const bedMesh = createHospitalBed(bedPosition, bed.id);
-      
-      // Apply visual indication for bed status
-      if (bed.status === 'cleaning') {
-        // Add visual indicator for cleaning status
-        const indicatorGeometry = new THREE.SphereGeometry(0.2, 8, 8);
-        const indicatorMaterial = new THREE.MeshStandardMaterial({
-          color: 0xfbbd23, // Yellow for cleaning
-          emissive: 0xfbbd23,
-          emissiveIntensity: 0.5
-        });
-        const indicator = new THREE.Mesh(indicatorGeometry, indicatorMaterial);
-        indicator.position.set(0, 0.8, 0);
-        bedMesh.add(indicator);
-      } else if (bed.status === 'available') {
-        // Add visual indicator for available status
-        const indicatorGeometry = new THREE.SphereGeometry(0.2, 8, 8);
-        const indicatorMaterial = new THREE.MeshStandardMaterial({
-          color: 0x4ade80, // Green for available
-          emissive: 0x4ade80,
-          emissiveIntensity: 0.5
-        });
-        const indicator = new THREE.Mesh(indicatorGeometry, indicatorMaterial);
-        indicator.position.set(0, 0.8, 0);
-        bedMesh.add(indicator);
+      const isDimmed = dimmed !== null && !dimmed.beds.has(bed.id);
+      const existing = bedObjects.get(bed.id);
+      if (existing?.bed === bed && existing.isDimmed === isDimmed) return;
+
+      const hovered = hoveredRef.current;
+      placeBed(layers, bed, hovered?.type === 'bed' && hovered.id === bed.id, isDimmed);
+      bedObjects.set(bed.id, { bed, cleaningDeadline: getCleaningDeadline(bed), isDimmed });
+    });
+  }, [visibleBeds, dimmed]);
+
+  // Patients: placed on their bed, colored by status and NEWS2, with their score above them
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { layers, scene } = context;
+    const patientObjects = patientObjectsRef.current;
+    const scoreBadges = scoreBadgesRef.current;
+    const bedsById = new Map(visibleBeds.map(bed => [bed.id, bed]));
+    const placedPatients = visiblePatients
+      .map(patient => ({
+        patient,
+        bed: patient.bedId ? bedsById.get(patient.bedId) : undefined,
+        isDimmed: dimmed !== null && !dimmed.patients.has(patient.id),
+      }))
+      .filter(({ bed }) => bed);
+    const placedIds = new Set(placedPatients.map(({ patient }) => patient.id));
+
+    patientObjects.forEach((_, patientId) => {
+      if (!placedIds.has(patientId)) {
+        removePatient(layers, patientId);
+        removeScoreBadge(scene, scoreBadges, patientId);
+        patientObjects.delete(patientId);
       }
-      
-      scene.add(bedMesh);
-      interactiveObjects[bed.id] = bedMesh;
     });
-    
-    visiblePatients.forEach(patient => {
-      if (patient.bedId) {
-        const associatedBed = visibleBeds.find(b => b.id === patient.bedId);
-        if (associatedBed) {
-          // Adjust patient position to be above the bed
-          const patientPosition = new THREE.Vector3(
-            associatedBed.position.x,
-            (associatedBed.position.y !== undefined ? associatedBed.position.y : 0) + 0.45,
-            associatedBed.position.z
-          );
-          
-          const isSelected = patient.id === selectedPatientId;
-          
-          const patientMesh = createPatient(patientPosition, patient.id, patient.status, isSelected);
-          
-          // Add additional indicators for patient status
-          if (patient.status === 'discharged') {
-            // Add visual indicator for discharged patients
-            const indicatorGeometry = new THREE.SphereGeometry(0.15, 8, 8);
-            const indicatorMaterial = new THREE.MeshStandardMaterial({
-              color: 0x8E9196, // Gray for discharged
-              emissive: 0x8E9196,
-              emissiveIntensity: 0.3
-            });
-            const indicator = new THREE.Mesh(indicatorGeometry, indicatorMaterial);
-            indicator.position.set(0, 0.9, -0.5);
-            patientMesh.add(indicator);
-          }
-          
-          scene.add(patientMesh);
-          interactiveObjects[patient.id] = patientMesh;
-          patientGroups[patient.id] = patientMesh;
-        }
+
+    placedPatients.forEach(object => {
+      const existing = patientObjects.get(object.patient.id);
+      if (existing?.patient === object.patient && existing.bed.position === object.bed.position && existing.isDimmed === object.isDimmed) return;
+
+      const hovered = hoveredRef.current;
+      const isHovered = hovered?.type === 'patient' && hovered.id === object.patient.id;
+      placePatient(layers, object, isHovered, selectedPatientIdsRef.current.has(object.patient.id));
+      placeScoreBadge(scene, scoreBadges, object);
+      patientObjects.set(object.patient.id, object);
+    });
+  }, [visiblePatients, visibleBeds, dimmed]);
+
+  // Equipment: rebuilt when it changes, and after a theme change since its materials are themed
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { scene } = context;
+    const equipmentObjects = equipmentObjectsRef.current;
+    const visibleIds = new Set(visibleEquipment.map(item => item.id));
+
+    equipmentObjects.forEach((object, equipmentId) => {
+      if (!visibleIds.has(equipmentId)) {
+        scene.remove(object.group);
+        disposeObject(object.group);
+        equipmentObjects.delete(equipmentId);
       }
     });
-    
-    const handleMouseMove = (event: MouseEvent) => {
-      const rect = mountRef.current?.getBoundingClientRect();
-      if (!rect) return;
-      
-      mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-      
-      raycaster.setFromCamera(mouse, camera);
-      
-      const intersects = raycaster.intersectObjects(Object.values(interactiveObjects), true);
-      
-      if (intersects.length > 0) {
-        let object = intersects[0].object;
-        
-        while (object && !object.userData.id) {
-          object = object.parent as THREE.Object3D;
-        }
-        
-        if (object && object.userData.id) {
-          document.body.style.cursor = 'pointer';
-          
-          if (hoveredObject !== object.userData.id) {
-            setHoveredObject(object.userData.id);
-            
-            if (object.userData.type === 'bed') {
-              const bed = object as THREE.Group;
-              bed.scale.set(1.05, 1.05, 1.05);
-            } else if (object.userData.type === 'patient') {
-              const patient = object as THREE.Group;
-              patient.position.y += 0.1;
-            }
-          }
-        } else {
-          document.body.style.cursor = 'auto';
-          resetHighlights();
+
+    visibleEquipment.forEach(equipment => {
+      const isDimmed = dimmed !== null && !dimmed.equipment.has(equipment.id);
+      const existing = equipmentObjects.get(equipment.id);
+      if (existing?.equipment === equipment && existing.isDarkMode === isDarkMode) {
+        if (existing.isDimmed !== isDimmed) {
+          setObjectDimmed(existing.group, isDimmed);
+          existing.isDimmed = isDimmed;
         }
-      } else {
-        document.body.style.cursor = 'auto';
-        resetHighlights();
+        return;
       }
-    };
-    
-    const resetHighlights = () => {
-      if (hoveredObject) {
-        const object = interactiveObjects[hoveredObject];
-        
-        if (object) {
-          if (object.userData.type === 'bed') {
-            object.scale.set(1, 1, 1);
-          } else if (object.userData.type === 'patient') {
-            const patient = visiblePatients.find(p => p.id === object.userData.id);
-            if (patient && patient.bedId) {
-              const bed = visibleBeds.find(b => b.id === patient.bedId);
-              if (bed) {
-                const floorObj = visibleFloors.find(f => f.type === bed.floor);
-                if (floorObj) {
-                  // Fix: Update the position calculation
-                  const floorY = floorObj.level * 4;
-                  object.position.y = floorY + 0.65; // Ensure proper height above the floor
-                }
-              }
-            }
-          }
-        }
-        
-        setHoveredObject(null);
+
+      if (existing) {
+        scene.remove(existing.group);
+        disposeObject(existing.group);
       }
-    };
-    
-    const handleClick = (event: MouseEvent) => {
-      const rect = mountRef.current?.getBoundingClientRect();
-      if (!rect) return;
-      
-      mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-      
-      raycaster.setFromCamera(mouse, camera);
-      
-      const intersects = raycaster.intersectObjects(Object.values(interactiveObjects), true);
-      
-      if (intersects.length > 0) {
-        let object = intersects[0].object;
-        
-        while (object && !object.userData.id) {
-          object = object.parent as THREE.Object3D;
-        }
-        
-        if (object && object.userData.id) {
-          if (object.userData.type === 'bed' && onBedSelect) {
-            onBedSelect(object.userData.id);
-          } else if (object.userData.type === 'patient' && onPatientSelect) {
-            onPatientSelect(object.userData.id);
-          }
-        }
+      const group = createEquipment(equipment.type, getEquipmentPosition(equipment.position), equipment.id, equipment.status, isDarkMode);
+      const hovered = hoveredRef.current;
+      if (hovered?.type === 'equipment' && hovered.id === equipment.id) {
+        group.scale.set(1.05, 1.05, 1.05);
       }
-    };
-    
-    const animate = () => {
-      requestAnimationFrame(animate);
-      
-      controls.update();
-      
-      renderer.render(scene, camera);
-    };
-    
-    animate();
-    
-    mountRef.current.addEventListener('mousemove', handleMouseMove);
-    mountRef.current.addEventListener('click', handleClick);
-    
-    return () => {
-      if (mountRef.current) {
-        mountRef.current.removeEventListener('mousemove', handleMouseMove);
-        mountRef.current.removeEventListener('click', handleClick);
-        mountRef.current.removeChild(renderer.domElement);
+      if (isDimmed) setObjectDimmed(group, true);
+      scene.add(group);
+      equipmentObjects.set(equipment.id, { equipment, group, isDarkMode, isDimmed });
+    });
+  }, [visibleEquipment, isDarkMode, dimmed]);
+
+  // Alert beacons: a pin and a pulsing ring over each visible bed with an active alert
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { layers } = context;
+    const beaconPositions = beaconPositionsRef.current;
+    const bedsById = new Map(visibleBeds.map(bed => [bed.id, bed]));
+    const beacons = new Map(
+      (alertBeaconKey ? alertBeaconKey.split(',') : []).map(entry => {
+        const separator = entry.lastIndexOf(':');
+        return [entry.slice(0, separator), entry.slice(separator + 1) as AlertBeacon['severity']];
+      })
+    );
+
+    beaconPositions.forEach((_, bedId) => {
+      if (beacons.has(bedId) && bedsById.has(bedId)) return;
+      layers.alertPins.remove(bedId);
+      layers.alertRings.remove(bedId);
+      beaconPositions.delete(bedId);
+    });
+
+    beacons.forEach((severity, bedId) => {
+      const bed = bedsById.get(bedId);
+      if (!bed) return;
+      const position = getBedPosition(bed.position);
+      layers.alertPins.set(bedId, position);
+      layers.alertPins.setColor(bedId, ALERT_BEACON_COLORS[severity]);
+      layers.alertRings.set(bedId, position);
+      layers.alertRings.setColor(bedId, ALERT_BEACON_COLORS[severity]);
+      beaconPositions.set(bedId, position);
+    });
+  }, [alertBeaconKey, visibleBeds]);
+
+  // Selection only recolors the previously and newly selected patients
+  const previousSelectionRef = useRef(new Set<string>());
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { layers } = context;
+    new Set([...previousSelectionRef.current, ...selectedPatientIds]).forEach(patientId => {
+      const object = patientObjectsRef.current.get(patientId);
+      if (object) {
+        layers.patients.setColor(patientId, getPatientColor(getPatientSeverity(object.patient), selectedPatientIds.has(patientId), object.isDimmed));
       }
-      
-      renderer.dispose();
-      
-      Object.values(interactiveObjects).forEach(object => {
-        scene.remove(object);
-      });
-    };
-  }, [mountRef, hospital, selectedFloor, selectedPatientId, isDarkMode, visibleBeds, visiblePatients, visibleFloors, onBedSelect, onPatientSelect]);
-  
+    });
+    previousSelectionRef.current = selectedPatientIds;
+  }, [selectedPatientIds]);
+
+  const previousRoomSelectionRef = useRef<string | null>(null);
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { layers } = context;
+    [previousRoomSelectionRef.current, selectedRoomId].forEach(roomId => {
+      const object = roomId ? roomObjectsRef.current.get(roomId) : undefined;
+      if (object) {
+        layers.roomFloors.setColor(roomId, getRoomFloorColor(object.room, roomId === selectedRoomId));
+      }
+    });
+    previousRoomSelectionRef.current = selectedRoomId ?? null;
+  }, [selectedRoomId]);
+
+  // Corner handles on the selected room while beds and rooms can be moved
+  const selectedRoom = selectedRoomId ? hospital.rooms.find(room => room.id === selectedRoomId) : undefined;
+  useEffect(() => {
+    const context = sceneRef.current;
+    if (!context) return;
+
+    const { group, handles } = context.layoutEditor;
+    const isShown = layoutTool === 'select' && editedFloor !== null && selectedRoom?.floorId === editedFloor.id;
+    const corners = isShown ? getBoundsCorners(selectedRoom.bounds) : [];
+    group.userData = isShown ? { roomId: selectedRoom.id, bounds: selectedRoom.bounds } : {};
+    handles.forEach((handle, corner) => {
+      handle.visible = isShown;
+      if (isShown) {
+        handle.position.set(corners[corner].x, editedFloor.level * 4 + ROOM_WALL_HEIGHT, corners[corner].z);
+      }
+    });
+  }, [layoutTool, editedFloor, selectedRoom]);
+
   return (
     <div ref={mountRef} style={{ width: '100%', height: '100%' }} />
   );
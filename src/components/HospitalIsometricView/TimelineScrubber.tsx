@@ -0,0 +1,158 @@
+
+import React, { useEffect, useState } from 'react';
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { HospitalEvent } from '@/services/hospitalEvents';
+import { useNow } from '@/hooks/use-now';
+import { History, Pause, Play, Radio } from 'lucide-react';
+
+interface TimelineScrubberProps {
+  startTime: number;
+  events: HospitalEvent[];
+  // Time being replayed, or null when showing the live state
+  playbackTime: number | null;
+  onPlaybackTimeChange: (time: number | null) => void;
+  isDarkMode?: boolean;
+}
+
+// Playback speeds as multiples of real time
+const PLAYBACK_SPEEDS = [1, 10, 60, 300];
+const PLAYBACK_TICK_MS = 100;
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const TimelineScrubber: React.FC<TimelineScrubberProps> = ({
+  startTime,
+  events,
+  playbackTime,
+  onPlaybackTimeChange,
+  isDarkMode = true
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+  const now = useNow(1000);
+
+  const lastEventTime = events.length > 0 ? Date.parse(events[events.length - 1].timestamp) : startTime;
+  const endTime = Math.max(now, lastEventTime, startTime + 1000);
+  const isLive = playbackTime === null;
+  const currentTime = playbackTime ?? endTime;
+
+  // Advance the replayed time while playing; reaching the end returns to the live view
+  useEffect(() => {
+    if (!isPlaying || playbackTime === null) return;
+
+    const timer = window.setTimeout(() => {
+      const nextTime = playbackTime + PLAYBACK_TICK_MS * speed;
+      if (nextTime >= endTime) {
+        setIsPlaying(false);
+        onPlaybackTimeChange(null);
+      } else {
+        onPlaybackTimeChange(nextTime);
+      }
+    }, PLAYBACK_TICK_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, playbackTime, speed, endTime, onPlaybackTimeChange]);
+
+  const handleSliderChange = ([value]: number[]) => {
+    onPlaybackTimeChange(value >= endTime ? null : value);
+  };
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the live position replays the whole session
+    if (isLive) {
+      onPlaybackTimeChange(startTime);
+    }
+    setIsPlaying(true);
+  };
+
+  const handleGoLive = () => {
+    setIsPlaying(false);
+    onPlaybackTimeChange(null);
+  };
+
+  const panelTheme = isDarkMode
+    ? "bg-slate-900/80 border-slate-700/80"
+    : "bg-white/80 border-slate-200/80";
+
+  return (
+    <div className={`rounded-2xl border shadow-sm backdrop-blur-sm px-4 py-3 ${panelTheme}`}>
+      <div className="flex items-center gap-3">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handlePlayPause}
+          disabled={events.length === 0}
+          className="h-8 w-8 rounded-full shrink-0"
+          title={isPlaying ? 'Pause' : 'Play history'}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+
+        <div className="relative flex-1 py-2">
+          {/* One tick per recorded event */}
+          <div className="absolute inset-x-0 top-0 h-1.5 pointer-events-none">
+            {events.map(event => (
+              <div
+                key={event.id}
+                className="absolute top-0 h-1.5 w-0.5 rounded-full bg-blue-500/70"
+                style={{ left: `${((Date.parse(event.timestamp) - startTime) / (endTime - startTime)) * 100}%` }}
+              />
+            ))}
+          </div>
+          <Slider
+            min={startTime}
+            max={endTime}
+            step={1000}
+            value={[currentTime]}
+            onValueChange={handleSliderChange}
+            aria-label="Timeline"
+          />
+        </div>
+
+        <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+          <SelectTrigger className="h-8 w-[76px] text-xs shrink-0" aria-label="Playback speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map(option => (
+              <SelectItem key={option} value={String(option)} className="text-xs">{option}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          variant={isLive ? "default" : "outline"}
+          size="sm"
+          onClick={handleGoLive}
+          className="h-8 text-xs shrink-0"
+        >
+          <Radio className="h-3.5 w-3.5 mr-1.5" />
+          Live
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between mt-1.5 text-xs text-slate-500 dark:text-slate-400">
+        <span>{formatClock(startTime)}</span>
+        {isLive ? (
+          <span>{events.length} {events.length === 1 ? 'change' : 'changes'} recorded</span>
+        ) : (
+          <Badge variant="outline" className="text-xs font-medium gap-1">
+            <History className="h-3 w-3" />
+            Replaying {formatClock(currentTime)}
+          </Badge>
+        )}
+        <span>{formatClock(endTime)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineScrubber;
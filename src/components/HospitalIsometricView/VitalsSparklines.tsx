@@ -0,0 +1,83 @@
+import React from 'react';
+import { Line, LineChart, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer } from "@/components/ui/chart";
+import { Consciousness, VitalSigns } from '@/types/hospital';
+import { VITAL_SIGN_LABELS, VitalSignKey } from '@/services/clinical';
+import { getNews2Score } from '@/services/news2';
+
+interface VitalsSparklinesProps {
+  // Oldest first, as stored on the patient
+  vitals: VitalSigns[];
+}
+
+const VITAL_SIGN_KEYS: VitalSignKey[] = ['respiratoryRate', 'heartRate', 'systolicBp', 'spo2', 'temperature'];
+
+const chartConfig: ChartConfig = {
+  respiratoryRate: { label: VITAL_SIGN_LABELS.respiratoryRate.label, color: 'hsl(262 83% 58%)' },
+  heartRate: { label: VITAL_SIGN_LABELS.heartRate.label, color: 'hsl(346 77% 50%)' },
+  systolicBp: { label: VITAL_SIGN_LABELS.systolicBp.label, color: 'hsl(221 83% 53%)' },
+  spo2: { label: VITAL_SIGN_LABELS.spo2.label, color: 'hsl(173 80% 40%)' },
+  temperature: { label: VITAL_SIGN_LABELS.temperature.label, color: 'hsl(38 92% 50%)' },
+};
+
+const CONSCIOUSNESS_LABELS: Record<Consciousness, string> = {
+  alert: 'Alert',
+  confusion: 'New confusion',
+  voice: 'Responds to voice',
+  pain: 'Responds to pain',
+  unresponsive: 'Unresponsive',
+};
+
+// Text color of the latest value by how far it is out of range
+const pointClasses = ['text-foreground', 'text-amber-600 dark:text-amber-400', 'text-orange-600 dark:text-orange-400', 'text-rose-600 dark:text-rose-400'];
+
+const formatVital = (key: VitalSignKey, vitals: VitalSigns) => {
+  if (key === 'systolicBp') return `${vitals.systolicBp}/${vitals.diastolicBp}`;
+  return key === 'temperature' ? vitals.temperature.toFixed(1) : `${vitals[key]}`;
+};
+
+// One row per vital sign: the latest value next to a sparkline of the recorded series
+const VitalsSparklines: React.FC<VitalsSparklinesProps> = ({ vitals }) => {
+  if (vitals.length === 0) {
+    return <div className="text-sm text-muted-foreground">No observations recorded</div>;
+  }
+
+  const latest = vitals[vitals.length - 1];
+  const { parameters } = getNews2Score(latest);
+
+  return (
+    <div className="space-y-1">
+      {VITAL_SIGN_KEYS.map(key => (
+        <div key={key} className="bg-muted px-2 py-1 rounded-md flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-muted-foreground text-xs">{VITAL_SIGN_LABELS[key].label}</div>
+            <div className={`text-sm font-medium ${pointClasses[parameters[key]]}`}>
+              {formatVital(key, latest)} <span className="text-xs font-normal text-muted-foreground">{VITAL_SIGN_LABELS[key].unit}</span>
+            </div>
+          </div>
+          <ChartContainer config={chartConfig} className="h-8 w-28 aspect-auto">
+            <LineChart data={vitals} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+              <YAxis hide domain={['dataMin', 'dataMax']} />
+              <Line
+                dataKey={key}
+                type="monotone"
+                stroke={`var(--color-${key})`}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      ))}
+      <div className="flex justify-between px-2 text-xs">
+        <span className={pointClasses[parameters.consciousness]}>{CONSCIOUSNESS_LABELS[latest.consciousness]}</span>
+        <span className={pointClasses[parameters.supplementalOxygen]}>
+          {latest.onSupplementalOxygen ? 'On supplemental oxygen' : 'On room air'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default VitalsSparklines;
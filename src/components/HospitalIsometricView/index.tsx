@@ -1,36 +1,259 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import ThreeJSCanvas from './ThreeJSCanvas';
 import ControlPanel from './ControlPanel';
 import DetailPanel from './DetailPanel';
-import { generateHospitalData, updateBedStatus, updatePatientStatus } from '@/services/hospitalDataService';
-import { Hospital, BedStatus, PatientStatus } from '@/types/hospital';
+import TimelineScrubber from './TimelineScrubber';
+import FloorPlanEditorToolbar, { LayoutEditTool } from './FloorPlanEditorToolbar';
+import FloorPlanView from './FloorPlanView';
+import SearchPalette from './SearchPalette';
+import AlertInbox from './AlertInbox';
+import { AdmissionQueueHandlers } from './AdmissionQueue';
+import { createPatientId, AdmissionDetails, HospitalOperationError } from '@/services/hospitalDataService';
+import { HospitalChange, describeHospitalEvent } from '@/services/hospitalEvents';
+import { HospitalDataSource } from '@/services/hospitalDataSource';
+import { exportFloorPlan, FloorPlanError, readFloorPlanFile } from '@/services/floorPlan';
+import { createBedId, createRoomId } from '@/services/layoutEditing';
+import { createNoteId, PATIENT_NOTE_CATEGORY_LABELS } from '@/services/patientNotes';
+import { AdmissionRequest, createAdmissionRequestId } from '@/services/admissionQueue';
+import { EntityLocation, locateEntity, SearchTarget } from '@/services/hospitalSearch';
+import { matchHospitalFilters } from '@/services/hospitalFilters';
+import {
+  checkAssignStaff,
+  checkUnassignStaff,
+  DEFAULT_STAFFING_RULES,
+  getStaffPatients,
+  StaffingRules,
+  StaffingRuleViolation,
+} from '@/services/staffing';
+import { CAMERA_PRESETS, CameraPreset, MissingViewEntity, ViewSelection } from '@/services/viewRoute';
+import { validateHospital } from '@/services/hospitalValidator';
+import { Hospital, BedStatus, PatientStatus, PatientNoteCategory, EquipmentStatus, PlanPoint, RoomBounds } from '@/types/hospital';
+import { FloorPlan } from '@/types/floorPlan';
 import { useToast } from '@/hooks/use-toast';
+import { useHospitalData } from '@/hooks/use-hospital-data';
+import { useHospitalHistory } from '@/hooks/use-hospital-history';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
+import { useHospitalFilters } from '@/hooks/use-hospital-filters';
+import { useViewRoute } from '@/hooks/use-view-route';
+import { useAlerts } from '@/hooks/use-alerts';
+import { getLiveUpdateConfig, LiveUpdateMessage } from '@/services/liveUpdates';
+import { DEFAULT_NEWS2_SUGGESTION_OPTIONS, News2SuggestionOptions } from '@/services/news2';
+import { AlertRules, DEFAULT_ALERT_RULES, getAlertBeacons, HospitalAlert } from '@/services/alerts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AlertCircle, Loader2, MapIcon, RefreshCw, Search, SearchX } from 'lucide-react';
 
 interface HospitalIsometricViewProps {
   isDarkMode?: boolean;
+  dataSource?: HospitalDataSource;
+  actor?: string;
+  // Limits checked when staff are assigned to or removed from patients
+  staffingRules?: StaffingRules;
+  // When status changes are suggested from the NEWS2 score; null turns the suggestions off
+  news2Suggestions?: News2SuggestionOptions | null;
+  // Conditions that raise an alert in the alert inbox
+  alertRules?: AlertRules;
 }
 
-const HospitalIsometricView: React.FC<HospitalIsometricViewProps> = ({ isDarkMode = true }) => {
-  const [hospital, setHospital] = useState<Hospital>(generateHospitalData());
-  const [selectedFloor, setSelectedFloor] = useState<string | null>(null);
-  const [selectedBedId, setSelectedBedId] = useState<string | null>(null);
-  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+const liveUpdateConfig = getLiveUpdateConfig();
+
+const MISSING_ENTITY_LABELS: Record<MissingViewEntity['type'], string> = {
+  floor: 'floor',
+  bed: 'bed',
+  patient: 'patient',
+  room: 'room',
+  equipment: 'equipment',
+  staff: 'staff member',
+};
+
+const CAMERA_PRESET_LABELS: Record<CameraPreset, string> = {
+  isometric: 'Iso',
+  top: 'Top',
+  front: 'Front',
+  side: 'Side',
+};
+
+// Ignore undo/redo shortcuts while the user is typing
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const HospitalIsometricView: React.FC<HospitalIsometricViewProps> = ({
+  isDarkMode = true,
+  dataSource,
+  actor = 'Bed manager',
+  staffingRules = DEFAULT_STAFFING_RULES,
+  news2Suggestions = DEFAULT_NEWS2_SUGGESTION_OPTIONS,
+  alertRules = DEFAULT_ALERT_RULES,
+}) => {
+  const { data, error, isError, isPending, isFetching, refetch } = useHospitalData(dataSource);
+  const history = useHospitalHistory(actor, staffingRules);
+  const { hospital, reset: resetHistory, receive, undo, redo } = history;
+  // Floor, selection and camera preset come from the URL (see useViewRoute)
+  const { route, navigateToView, setCameraPreset, brokenLink } = useViewRoute(hospital);
+  const selectedFloor = route.floorId;
+  // Moment being replayed from the history, or null for the live state
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
+  const [layoutTool, setLayoutTool] = useState<LayoutEditTool>('select');
+  // The 2D floor plan is shown beside the isometric view and shares its selection
+  const [showFloorPlan, setShowFloorPlan] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  // Last searched location, which the 3D camera flies to
+  const [cameraFocus, setCameraFocus] = useState<EntityLocation | null>(null);
+  const { filters, setFilters } = useHospitalFilters();
   const { toast } = useToast();
+  // Latest undo/redo handlers, so the keyboard shortcuts report results like the buttons do
+  const historyShortcutsRef = useRef<{ undo: () => void; redo: () => void } | null>(null);
+
+  // Changes pushed by the live feed are recorded in the history like any other change
+  const handleLiveMessage = useCallback((message: LiveUpdateMessage) => {
+    if (message.deltas.length === 0) return;
+    receive({ type: 'live-update-received', deltas: message.deltas }, 'Live feed');
+  }, [receive]);
+  const liveConnection = useLiveUpdates(liveUpdateConfig, handleLiveMessage);
+  // Alerts always follow the live state, also while an earlier moment is replayed
+  const alertInbox = useAlerts(hospital, alertRules);
+  const alertBeacons = useMemo(
+    () => getAlertBeacons(alertInbox.alerts.filter(alert => alert.isActive)),
+    [alertInbox.alerts]
+  );
+
+  // Every fetched snapshot starts a new history
+  useEffect(() => {
+    if (data) {
+      resetHistory(data);
+      setPlaybackTime(null);
+    }
+  }, [data, resetHistory]);
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo, Ctrl/Cmd+K to search
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      
+      const key = event.key.toLowerCase();
+      if (key === 'k') {
+        event.preventDefault();
+        setIsSearchOpen(open => !open);
+      } else if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        historyShortcutsRef.current?.undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        historyShortcutsRef.current?.redo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const violations = useMemo(() => hospital ? validateHospital(hospital) : [], [hospital]);
+
+  // Replay only changes when the scrubber crosses an event, not on every playback tick
+  const { events, getHospitalAt } = history;
+  const playbackEventCount = useMemo(() => {
+    if (playbackTime === null) return null;
+    return events.filter(event => Date.parse(event.timestamp) <= playbackTime).length;
+  }, [events, playbackTime]);
+  const playbackHospital = useMemo(
+    () => playbackEventCount === null ? null : getHospitalAt(playbackEventCount),
+    [playbackEventCount, getHospitalAt]
+  );
+  
+  const filterMatch = useMemo(() => {
+    const shownHospital = playbackHospital ?? hospital;
+    return shownHospital ? matchHospitalFilters(shownHospital, filters) : null;
+  }, [playbackHospital, hospital, filters]);
+
+  if (isPending || (!hospital && !isError)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[70vh] rounded-2xl border border-slate-200/60 dark:border-slate-700/60 text-slate-600 dark:text-slate-300">
+        <Loader2 className="h-8 w-8 animate-spin mb-3 text-blue-500" />
+        <p className="text-sm">Loading hospital data...</p>
+      </div>
+    );
+  }
+
+  if (!hospital) {
+    return (
+      <div className="flex items-center justify-center h-[70vh]">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <div className="flex items-center gap-2 text-rose-500">
+              <AlertCircle className="h-5 w-5" />
+              <CardTitle className="text-lg">Could not load hospital data</CardTitle>
+            </div>
+            <CardDescription>{error instanceof Error ? error.message : 'Unknown error'}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Retry
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Links to floors or entities this hospital does not have
+  if (brokenLink) {
+    return (
+      <div className="flex items-center justify-center h-[70vh]">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <div className="flex items-center gap-2 text-amber-500">
+              <SearchX className="h-5 w-5" />
+              <CardTitle className="text-lg">Not found</CardTitle>
+            </div>
+            <CardDescription>
+              This link points to {MISSING_ENTITY_LABELS[brokenLink.type]} <span className="font-mono">{brokenLink.id}</span>, which is not in this hospital.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => navigateToView(null, null)}>
+              Back to overview
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // While replaying, every panel shows the historical snapshot and editing is disabled
+  const displayedHospital = playbackHospital ?? hospital;
+  const isReplaying = playbackHospital !== null;
+
+  // A selected bed also shows the patient lying in it, and a selected patient their bed
+  const { selection } = route;
+  const selectedBedId = selection?.type === 'bed'
+    ? selection.id
+    : selection?.type === 'patient' ? displayedHospital.patients.find(p => p.id === selection.id)?.bedId ?? null : null;
+  const selectedPatientId = selection?.type === 'patient'
+    ? selection.id
+    : selection?.type === 'bed' ? displayedHospital.beds.find(b => b.id === selection.id)?.patientId ?? null : null;
+  const selectedEquipmentId = selection?.type === 'equipment' ? selection.id : null;
+  const selectedRoomId = selection?.type === 'room' ? selection.id : null;
+  const selectedStaff = selection?.type === 'staff' ? displayedHospital.staff.find(s => s.id === selection.id) : undefined;
+
+  // Selections follow the current floor; follow-ups to an edit replace the history entry instead of adding one
+  const select = (next: ViewSelection | null, options?: { replace?: boolean }) => {
+    navigateToView(selectedFloor, next, options);
+  };
 
   // Calculate occupancy rate
-  const occupancyRate = hospital.beds.filter(bed => bed.status === 'occupied').length / hospital.beds.length;
+  const occupancyRate = displayedHospital.beds.filter(bed => bed.status === 'occupied').length / displayedHospital.beds.length;
 
   const handleFloorChange = (floorId: string | null) => {
-    setSelectedFloor(floorId);
-    
-    // Reset bed and patient selection when changing floors
-    setSelectedBedId(null);
-    setSelectedPatientId(null);
+    // Reset bed, patient, equipment and room selection when changing floors
+    navigateToView(floorId, null);
     
     // Show toast notification
     if (floorId) {
-      const floor = hospital.floors.find(f => f.id === floorId);
+      const floor = displayedHospital.floors.find(f => f.id === floorId);
       toast({
         title: "Piso seleccionado",
         description: `Viendo ${floor?.name || 'piso desconocido'}`,
@@ -43,45 +266,108 @@ const HospitalIsometricView: React.FC<HospitalIsometricViewProps> = ({ isDarkMod
     }
   };
 
-  const handleBedSelect = (bedId: string) => {
-    setSelectedBedId(bedId);
-    
-    const bed = hospital.beds.find(b => b.id === bedId);
-    if (bed && bed.patientId) {
-      setSelectedPatientId(bed.patientId);
-    } else {
-      setSelectedPatientId(null);
-    }
+  const handleBedSelect = (bedId: string, floorId = selectedFloor) => {
+    navigateToView(floorId, { type: 'bed', id: bedId });
     
+    const bed = displayedHospital.beds.find(b => b.id === bedId);
     toast({
       title: "Cama seleccionada",
       description: `Viendo detalles de ${bed?.room || 'cama desconocida'}`,
     });
   };
 
-  const handlePatientSelect = (patientId: string) => {
-    setSelectedPatientId(patientId);
-    
-    const patient = hospital.patients.find(p => p.id === patientId);
-    if (patient && patient.bedId) {
-      setSelectedBedId(patient.bedId);
-    } else {
-      setSelectedBedId(null);
-    }
+  const handlePatientSelect = (patientId: string, floorId = selectedFloor) => {
+    navigateToView(floorId, { type: 'patient', id: patientId });
     
+    const patient = displayedHospital.patients.find(p => p.id === patientId);
     toast({
       title: "Paciente seleccionado",
       description: `Viendo detalles de ${patient?.name || 'paciente desconocido'}`,
     });
   };
 
+  const handleEquipmentSelect = (equipmentId: string) => {
+    select({ type: 'equipment', id: equipmentId });
+    
+    const equipment = displayedHospital.equipment.find(e => e.id === equipmentId);
+    toast({
+      title: "Equipo seleccionado",
+      description: `Viendo detalles de ${equipment?.name || 'equipo desconocido'}`,
+    });
+  };
+
+  const handleRoomSelect = (roomId: string, floorId = selectedFloor) => {
+    navigateToView(floorId, { type: 'room', id: roomId });
+    
+    const room = displayedHospital.rooms.find(r => r.id === roomId);
+    toast({
+      title: "Habitación seleccionada",
+      description: `Viendo ocupación de ${room?.name || 'habitación desconocida'}`,
+    });
+  };
+
+  const handleStaffSelect = (staffId: string | null, floorId = selectedFloor) => {
+    if (!staffId) {
+      navigateToView(floorId, null);
+      return;
+    }
+    navigateToView(floorId, { type: 'staff', id: staffId });
+    
+    const staff = displayedHospital.staff.find(s => s.id === staffId);
+    const patientCount = staff ? getStaffPatients(displayedHospital, staff).length : 0;
+    toast({
+      title: "Personal seleccionado",
+      description: `${staff?.name || 'Personal desconocido'} atiende a ${patientCount} ${patientCount === 1 ? 'paciente' : 'pacientes'}`,
+    });
+  };
+
+  // Searching switches to the entity's floor, selects it and flies the camera over to it
+  const handleSearchSelect = (target: SearchTarget) => {
+    const location = locateEntity(displayedHospital, target);
+    const floorId = location?.floorId ?? selectedFloor;
+    if (location) {
+      setCameraFocus(location);
+    }
+    
+    if (target.type === 'bed') {
+      handleBedSelect(target.id, floorId);
+    } else if (target.type === 'patient') {
+      handlePatientSelect(target.id, floorId);
+    } else if (target.type === 'room') {
+      handleRoomSelect(target.id, floorId);
+    } else {
+      handleStaffSelect(target.id, floorId);
+    }
+  };
+
+  // Clicking an alert selects what it is about, like a search result
+  const handleAlertSelect = (alert: HospitalAlert) => {
+    const { target } = alert;
+    if (target.type === 'floor') {
+      handleFloorChange(target.id);
+    } else if (target.type === 'equipment') {
+      const location = alert.bedId ? locateEntity(displayedHospital, { type: 'bed', id: alert.bedId }) : null;
+      if (location) {
+        navigateToView(location.floorId, { type: 'equipment', id: target.id });
+        setCameraFocus(location);
+      } else {
+        handleEquipmentSelect(target.id);
+      }
+    } else {
+      handleSearchSelect({ type: target.type, id: target.id });
+    }
+  };
+
   const handleCloseDetail = () => {
-    setSelectedBedId(null);
-    setSelectedPatientId(null);
+    select(null);
   };
 
   const handleUpdateBedStatus = (bedId: string, status: BedStatus) => {
-    setHospital(prevHospital => updateBedStatus(prevHospital, bedId, status));
+    const updatedHospital = applyChange(
+      { type: 'bed-status-changed', bedId, status },
+      "No se pudo cambiar el estado de la cama"
+    );
+    if (!updatedHospital) return;
     
     toast({
       title: "Estado de cama actualizado",
@@ -90,7 +376,16 @@ const HospitalIsometricView: React.FC<HospitalIsometricViewProps> = ({ isDarkMod
   };
 
   const handleUpdatePatientStatus = (patientId: string, status: PatientStatus) => {
-    setHospital(prevHospital => updatePatientStatus(prevHospital, patientId, status));
+    const updatedHospital = applyChange(
+      { type: 'patient-status-changed', patientId, status },
+      "No se pudo cambiar el estado del paciente"
+    );
+    if (!updatedHospital) return;
+    
+    // A discharge releases the bed, so the selection follows the patient only
+    if (!updatedHospital.patients.find(p => p.id === patientId)?.bedId) {
+      select({ type: 'patient', id: patientId }, { replace: true });
+    }
     
     toast({
       title: "Estado de paciente actualizado",
@@ -98,14 +393,387 @@ const HospitalIsometricView: React.FC<HospitalIsometricViewProps> = ({ isDarkMod
     });
   };
 
-  const handleRefreshData = () => {
-    setHospital(generateHospitalData());
-    setSelectedBedId(null);
-    setSelectedPatientId(null);
+  const handleUpdateEquipmentStatus = (equipmentId: string, status: EquipmentStatus) => {
+    const updatedHospital = applyChange(
+      { type: 'equipment-status-changed', equipmentId, status },
+      "No se pudo cambiar el estado del equipo"
+    );
+    if (!updatedHospital) return;
+    
+    toast({
+      title: "Estado de equipo actualizado",
+      description: `Estado de equipo cambiado a ${status}`,
+    });
+  };
+
+  // Record a change in the history, reporting invalid transitions instead of changing state
+  const applyChange = (change: HospitalChange, errorTitle: string): Hospital | null => {
+    try {
+      return history.dispatch(change);
+    } catch (operationError) {
+      if (!(operationError instanceof HospitalOperationError)) throw operationError;
+      
+      toast({
+        title: errorTitle,
+        description: operationError.message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const handleAdmitPatient = (bedId: string, details: AdmissionDetails): boolean => {
+    const patientId = createPatientId();
+    const updatedHospital = applyChange(
+      { type: 'patient-admitted', patientId, bedId, details },
+      "No se pudo ingresar al paciente"
+    );
+    if (!updatedHospital) return false;
+    
+    select({ type: 'patient', id: patientId }, { replace: true });
+    
+    toast({
+      title: "Paciente ingresado",
+      description: `${details.name} ingresado en ${updatedHospital.beds.find(b => b.id === bedId)?.room}`,
+    });
+    return true;
+  };
+
+  const handleTransferPatient = (patientId: string, bedId: string): boolean => {
+    const updatedHospital = applyChange(
+      { type: 'patient-transferred', patientId, bedId },
+      "No se pudo trasladar al paciente"
+    );
+    if (!updatedHospital) return false;
+    
+    select({ type: 'patient', id: patientId }, { replace: true });
+    
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: "Paciente trasladado",
+      description: `${patient?.name} trasladado a ${updatedHospital.beds.find(b => b.id === bedId)?.room}`,
+    });
+    return true;
+  };
+
+  const handleDischargePatient = (patientId: string): boolean => {
+    const updatedHospital = applyChange(
+      { type: 'patient-discharged', patientId },
+      "No se pudo dar de alta al paciente"
+    );
+    if (!updatedHospital) return false;
+    
+    select({ type: 'patient', id: patientId }, { replace: true });
+    
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: "Paciente dado de alta",
+      description: `${patient?.name} ha sido dado de alta y su cama pasa a limpieza`,
+    });
+    return true;
+  };
+
+  // Blocking staffing rules stop the change; warnings are returned so the result toast can mention them
+  const checkStaffingRules = (violations: StaffingRuleViolation[], errorTitle: string): string[] | null => {
+    const blocking = violations.filter(violation => violation.level === 'block');
+    if (blocking.length > 0) {
+      toast({
+        title: errorTitle,
+        description: blocking.map(violation => violation.message).join('. '),
+        variant: "destructive",
+      });
+      return null;
+    }
+    return violations.map(violation => violation.message);
+  };
+
+  const handleAssignStaff = (patientId: string, staffId: string) => {
+    const errorTitle = "No se pudo asignar el personal";
+    const warnings = checkStaffingRules(checkAssignStaff(hospital, patientId, staffId, staffingRules), errorTitle);
+    if (!warnings) return;
+    
+    const updatedHospital = applyChange({ type: 'staff-assigned', patientId, staffId }, errorTitle);
+    if (!updatedHospital) return;
+    
+    const staff = updatedHospital.staff.find(s => s.id === staffId);
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: warnings.length > 0 ? "Personal asignado con advertencias" : "Personal asignado",
+      description: warnings.length > 0 ? warnings.join('. ') : `${staff?.name} atiende ahora a ${patient?.name}`,
+    });
+  };
+
+  const handleUnassignStaff = (patientId: string, staffId: string) => {
+    const errorTitle = "No se pudo retirar el personal";
+    const warnings = checkStaffingRules(checkUnassignStaff(hospital, patientId, staffId, staffingRules), errorTitle);
+    if (!warnings) return;
+    
+    const updatedHospital = applyChange({ type: 'staff-unassigned', patientId, staffId }, errorTitle);
+    if (!updatedHospital) return;
+    
+    const staff = updatedHospital.staff.find(s => s.id === staffId);
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: warnings.length > 0 ? "Personal retirado con advertencias" : "Personal retirado",
+      description: warnings.length > 0 ? warnings.join('. ') : `${staff?.name} ya no atiende a ${patient?.name}`,
+    });
+  };
+
+  const handleAddNote = (patientId: string, category: PatientNoteCategory, text: string) => {
+    const updatedHospital = applyChange(
+      { type: 'patient-note-added', patientId, noteId: createNoteId(), category, text },
+      "No se pudo añadir la nota"
+    );
+    if (!updatedHospital) return;
+
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: "Nota añadida",
+      description: `Nota de ${PATIENT_NOTE_CATEGORY_LABELS[category].toLowerCase()} para ${patient?.name}`,
+    });
+  };
+
+  const handleAmendNote = (patientId: string, noteId: string, text: string) => {
+    const updatedHospital = applyChange({ type: 'patient-note-amended', patientId, noteId, text }, "No se pudo corregir la nota");
+    if (!updatedHospital) return;
+
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: "Nota corregida",
+      description: `La versión anterior queda en el historial de ${patient?.name}`,
+    });
+  };
+
+  const handleQueueAdmission = (request: AdmissionRequest): boolean => {
+    const updatedHospital = applyChange(
+      { type: 'admission-queued', admissionId: createAdmissionRequestId(), request },
+      "No se pudo añadir a la cola de ingresos"
+    );
+    if (!updatedHospital) return false;
+
+    toast({
+      title: "Paciente en cola",
+      description: `${request.patientName} espera una cama en ${request.floorType}`,
+    });
+    return true;
+  };
+
+  const handleReserveBed = (admissionId: string, bedId: string) => {
+    const updatedHospital = applyChange({ type: 'bed-reserved', admissionId, bedId }, "No se pudo reservar la cama");
+    if (!updatedHospital) return;
+
+    const admission = updatedHospital.pendingAdmissions?.find(a => a.id === admissionId);
+    toast({
+      title: "Cama reservada",
+      description: `${updatedHospital.beds.find(b => b.id === bedId)?.room} reservada para ${admission?.patientName}`,
+    });
+  };
+
+  const handleReleaseReservation = (admissionId: string) => {
+    const updatedHospital = applyChange({ type: 'reservation-released', admissionId }, "No se pudo liberar la reserva");
+    if (!updatedHospital) return;
+
+    const admission = updatedHospital.pendingAdmissions?.find(a => a.id === admissionId);
+    toast({
+      title: "Reserva liberada",
+      description: `${admission?.patientName} sigue en la cola sin cama reservada`,
+    });
+  };
+
+  const handleAdmitQueued = (admissionId: string) => {
+    const patientId = createPatientId();
+    const updatedHospital = applyChange(
+      { type: 'queued-patient-admitted', admissionId, patientId },
+      "No se pudo ingresar al paciente"
+    );
+    if (!updatedHospital) return;
+
+    select({ type: 'patient', id: patientId }, { replace: true });
+
+    const patient = updatedHospital.patients.find(p => p.id === patientId);
+    toast({
+      title: "Paciente ingresado",
+      description: `${patient?.name} ingresado en ${updatedHospital.beds.find(b => b.id === patient?.bedId)?.room}`,
+    });
+  };
+
+  const handleCancelAdmission = (admissionId: string) => {
+    const admission = hospital.pendingAdmissions?.find(a => a.id === admissionId);
+    if (!applyChange({ type: 'admission-cancelled', admissionId }, "No se pudo cancelar el ingreso")) return;
+
+    toast({
+      title: "Ingreso cancelado",
+      description: `${admission?.patientName} ya no está en la cola`,
+    });
+  };
+
+  const admissionQueueHandlers: AdmissionQueueHandlers = {
+    onQueueAdmission: handleQueueAdmission,
+    onReserveBed: handleReserveBed,
+    onReleaseReservation: handleReleaseReservation,
+    onAdmit: handleAdmitQueued,
+    onCancel: handleCancelAdmission,
+  };
+
+  const handleRepairHospital = () => {
+    const repairedCount = violations.length;
+    if (!applyChange({ type: 'hospital-repaired' }, "No se pudieron reparar los datos")) return;
+    
+    toast({
+      title: "Datos reparados",
+      description: `Se corrigieron ${repairedCount} inconsistencias en los datos del hospital`,
+    });
+  };
+
+  const handleImportFloorPlan = async (file: File) => {
+    let plan: FloorPlan;
+    try {
+      plan = await readFloorPlanFile(file);
+    } catch (importError) {
+      if (!(importError instanceof FloorPlanError)) throw importError;
+      
+      toast({
+        title: "Plano no válido",
+        description: importError.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (!applyChange({ type: 'floor-plan-imported', plan }, "No se pudo importar el plano")) return;
+    
+    const roomCount = plan.floors.reduce((count, floor) => count + floor.rooms.length, 0);
+    toast({
+      title: "Plano importado",
+      description: `${plan.name ?? file.name}: ${roomCount} habitaciones en ${plan.floors.length} pisos`,
+    });
+  };
+
+  const handleUndo = () => {
+    if (!history.lastEvent) return;
+    const description = describeHospitalEvent(history.lastEvent, hospital);
+    undo();
+    
+    toast({
+      title: "Cambio deshecho",
+      description,
+    });
+  };
+
+  const handleRedo = () => {
+    if (!history.nextEvent) return;
+    const description = describeHospitalEvent(history.nextEvent, hospital);
+    try {
+      redo();
+    } catch (redoError) {
+      if (!(redoError instanceof HospitalOperationError)) throw redoError;
+      
+      toast({
+        title: "No se pudo rehacer el cambio",
+        description: redoError.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    toast({
+      title: "Cambio rehecho",
+      description,
+    });
+  };
+
+  // Floor plan editing; layout changes go through the history like any other change, so they can be undone
+  const handleBedMove = (bedId: string, position: PlanPoint) => {
+    applyChange({ type: 'bed-moved', bedId, position }, "No se pudo mover la cama");
+  };
+
+  const handleBedAdd = (floorId: string, position: PlanPoint) => {
+    const bedId = createBedId();
+    const updatedHospital = applyChange({ type: 'bed-added', bedId, floorId, position }, "No se pudo añadir la cama");
+    if (!updatedHospital) return;
+    
+    select({ type: 'bed', id: bedId }, { replace: true });
+    
+    toast({
+      title: "Cama añadida",
+      description: `Nueva cama en ${updatedHospital.beds.find(b => b.id === bedId)?.room}`,
+    });
+  };
+
+  const handleRemoveBed = (bedId: string) => {
+    if (!applyChange({ type: 'bed-removed', bedId }, "No se pudo eliminar la cama")) return;
+    select(null, { replace: true });
+    
+    toast({
+      title: "Cama eliminada",
+      description: `La cama ${bedId} se ha retirado del plano`,
+    });
+  };
+
+  const handleRoomDraw = (floorId: string, bounds: RoomBounds) => {
+    const roomId = createRoomId();
+    const name = `Room ${hospital.rooms.filter(r => r.floorId === floorId).length + 1}`;
+    if (!applyChange({ type: 'room-added', roomId, floorId, bounds, name }, "No se pudo crear la habitación")) return;
+    
+    select({ type: 'room', id: roomId }, { replace: true });
+    
+    toast({
+      title: "Habitación creada",
+      description: `${name} añadida al plano`,
+    });
+  };
+
+  const handleRoomResize = (roomId: string, bounds: RoomBounds) => {
+    applyChange({ type: 'room-resized', roomId, bounds }, "No se pudo redimensionar la habitación");
+  };
+
+  const handleRenameRoom = (roomId: string, name: string) => {
+    if (!applyChange({ type: 'room-renamed', roomId, name }, "No se pudo renombrar la habitación")) return;
+    
+    toast({
+      title: "Habitación renombrada",
+      description: `La habitación ahora se llama ${name.trim()}`,
+    });
+  };
+
+  const handleExportLayout = () => {
+    const plan = exportFloorPlan(hospital);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(plan, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'floor-plan.json';
+    link.click();
+    URL.revokeObjectURL(url);
+    
+    toast({
+      title: "Plano exportado",
+      description: `${plan.floors.length} pisos guardados en floor-plan.json`,
+    });
+  };
+
+  historyShortcutsRef.current = { undo: handleUndo, redo: handleRedo };
+
+  const handleRefreshData = async () => {
+    const result = await refetch();
+    
+    if (result.isError) {
+      toast({
+        title: "Error al actualizar",
+        description: result.error instanceof Error ? result.error.message : "No se pudieron cargar los datos del hospital",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // A snapshot equal to the last one keeps the same data object, so the effect above would not
+    // start a new history; an explicit reload always does
+    resetHistory(result.data);
+    setPlaybackTime(null);
+    select(null);
     
     toast({
       title: "Datos actualizados",
-      description: "Datos del hospital han sido actualizados con nuevos valores aleatorios",
+      description: "Datos del hospital han sido recargados desde la fuente de datos",
     });
   };
 
@@ -114,36 +782,177 @@ const HospitalIsometricView: React.FC<HospitalIsometricViewProps> = ({ isDarkMod
       <div className="lg:col-span-3 space-y-6">
         <div className="sticky top-6">
           <ControlPanel 
-            hospital={hospital}
+            hospital={displayedHospital}
             selectedFloor={selectedFloor}
             onFloorChange={handleFloorChange}
             onRefreshData={handleRefreshData}
+            isRefreshing={isFetching}
+            violations={isReplaying ? [] : violations}
+            onRepairViolations={handleRepairHospital}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            undoLabel={history.lastEvent ? describeHospitalEvent(history.lastEvent, hospital) : null}
+            redoLabel={history.nextEvent ? describeHospitalEvent(history.nextEvent, hospital) : null}
+            onImportFloorPlan={isReplaying ? undefined : handleImportFloorPlan}
+            liveConnection={liveConnection}
+            filters={filters}
+            onFiltersChange={setFilters}
+            filterMatch={filterMatch}
+            selectedStaffId={selectedStaff?.id ?? null}
+            onStaffSelect={handleStaffSelect}
+            staffingRules={staffingRules}
+            admissionQueueHandlers={isReplaying ? undefined : admissionQueueHandlers}
+            onBedSelect={bedId => handleSearchSelect({ type: 'bed', id: bedId })}
             occupancyRate={occupancyRate}
             isDarkMode={isDarkMode}
           />
           
-          {(selectedBedId || selectedPatientId) && (
+          {(selectedBedId || selectedPatientId || selectedEquipmentId || selectedRoomId) && (
             <div className="mt-6 animate-fade-in">
               <DetailPanel 
-                hospital={hospital}
+                hospital={displayedHospital}
+                readOnly={isReplaying}
                 selectedBedId={selectedBedId}
                 selectedPatientId={selectedPatientId}
+                selectedEquipmentId={selectedEquipmentId}
+                selectedRoomId={selectedRoomId}
                 onClose={handleCloseDetail}
+                onBedSelect={handleBedSelect}
                 onUpdateBedStatus={handleUpdateBedStatus}
                 onUpdatePatientStatus={handleUpdatePatientStatus}
+                onUpdateEquipmentStatus={handleUpdateEquipmentStatus}
+                onAdmitPatient={handleAdmitPatient}
+                onTransferPatient={handleTransferPatient}
+                onDischargePatient={handleDischargePatient}
+                onAssignStaff={handleAssignStaff}
+                onUnassignStaff={handleUnassignStaff}
+                onAddNote={handleAddNote}
+                onAmendNote={handleAmendNote}
+                staffingRules={staffingRules}
+                news2Suggestions={news2Suggestions}
               />
             </div>
           )}
         </div>
       </div>
       
-      <div className="lg:col-span-9 overflow-hidden h-[70vh] rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 backdrop-blur-sm bg-white/5 dark:bg-slate-900/5">
-        <ThreeJSCanvas 
-          hospital={hospital}
-          selectedFloor={selectedFloor}
-          selectedPatientId={selectedPatientId}
-          onBedSelect={handleBedSelect}
-          onPatientSelect={handlePatientSelect}
+      <div className="lg:col-span-9 space-y-4">
+        <div className={`grid gap-4 ${showFloorPlan ? 'xl:grid-cols-2' : 'grid-cols-1'}`}>
+          <div className="relative overflow-hidden h-[70vh] rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 backdrop-blur-sm bg-white/5 dark:bg-slate-900/5">
+            <ThreeJSCanvas 
+              hospital={displayedHospital}
+              selectedFloor={selectedFloor}
+              selectedPatientId={selectedPatientId}
+              highlightedPatientIds={selectedStaff?.assignedPatientIds}
+              alertBeacons={isReplaying ? [] : alertBeacons}
+              selectedRoomId={selectedRoomId}
+              onBedSelect={handleBedSelect}
+              onPatientSelect={handlePatientSelect}
+              onEquipmentSelect={handleEquipmentSelect}
+              onRoomSelect={handleRoomSelect}
+              cameraPreset={route.camera}
+              cameraFocus={cameraFocus}
+              filterMatch={filterMatch}
+              filterMode={filters.mode}
+              layoutTool={isEditingLayout && !isReplaying ? layoutTool : null}
+              onBedMove={handleBedMove}
+              onBedAdd={handleBedAdd}
+              onRoomDraw={handleRoomDraw}
+              onRoomResize={handleRoomResize}
+              isDarkMode={isDarkMode}
+            />
+            <div className="absolute top-3 left-3 flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSearchOpen(true)}
+                className="h-8 text-xs shadow-sm"
+              >
+                <Search className="h-3.5 w-3.5 mr-1.5" />
+                Search
+                <kbd className="ml-2 rounded border px-1 text-[10px] text-muted-foreground">Ctrl K</kbd>
+              </Button>
+              <AlertInbox
+                alerts={alertInbox.alerts}
+                activeCount={alertInbox.activeCount}
+                onAcknowledge={alertInbox.acknowledge}
+                onSnooze={alertInbox.snooze}
+                onAcknowledgeAll={alertInbox.acknowledgeAll}
+                onSelect={handleAlertSelect}
+                notificationsSupported={alertInbox.notificationsSupported}
+                notificationsEnabled={alertInbox.notificationsEnabled}
+                notificationPermission={alertInbox.notificationPermission}
+                onNotificationsChange={alertInbox.setNotifications}
+              />
+            </div>
+            <Button
+              variant={showFloorPlan ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowFloorPlan(!showFloorPlan)}
+              className="absolute top-3 right-3 h-8 text-xs shadow-sm"
+            >
+              <MapIcon className="h-3.5 w-3.5 mr-1.5" />
+              2D plan
+            </Button>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={route.camera}
+              onValueChange={(value) => value && setCameraPreset(value as CameraPreset)}
+              className="absolute bottom-3 right-3 rounded-md border bg-background/80 p-0.5 shadow-sm backdrop-blur-sm"
+            >
+              {CAMERA_PRESETS.map(preset => (
+                <ToggleGroupItem key={preset} value={preset} className="h-7 px-2 text-xs" aria-label={`${CAMERA_PRESET_LABELS[preset]} view`}>
+                  {CAMERA_PRESET_LABELS[preset]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          
+          {showFloorPlan && (
+            <div className="h-[70vh] rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 backdrop-blur-sm bg-white/5 dark:bg-slate-900/5">
+              <FloorPlanView
+                hospital={displayedHospital}
+                selectedFloor={selectedFloor}
+                selectedBedId={selectedBedId}
+                selectedPatientId={selectedPatientId}
+                selectedRoomId={selectedRoomId}
+                onBedSelect={handleBedSelect}
+                onRoomSelect={handleRoomSelect}
+                isDarkMode={isDarkMode}
+              />
+            </div>
+          )}
+        </div>
+        
+        {!isReplaying && (
+          <FloorPlanEditorToolbar
+            isEditing={isEditingLayout}
+            onEditingChange={setIsEditingLayout}
+            tool={layoutTool}
+            onToolChange={setLayoutTool}
+            canEdit={selectedFloor !== null}
+            selectedRoom={hospital.rooms.find(r => r.id === selectedRoomId)}
+            selectedBed={hospital.beds.find(b => b.id === selectedBedId)}
+            onRenameRoom={handleRenameRoom}
+            onRemoveBed={handleRemoveBed}
+            onExport={handleExportLayout}
+            isDarkMode={isDarkMode}
+          />
+        )}
+        
+        <SearchPalette
+          hospital={displayedHospital}
+          open={isSearchOpen}
+          onOpenChange={setIsSearchOpen}
+          onSelect={handleSearchSelect}
+        />
+        
+        <TimelineScrubber 
+          startTime={history.loadedAt}
+          events={events}
+          playbackTime={playbackTime}
+          onPlaybackTimeChange={setPlaybackTime}
           isDarkMode={isDarkMode}
         />
       </div>
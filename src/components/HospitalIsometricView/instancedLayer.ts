@@ -0,0 +1,163 @@
+
+import * as THREE from 'three';
+
+// One piece of a composite object (e.g. a bed's frame), drawn for every instance of the layer
+export interface InstancedPart {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  // Placement of the part relative to the instance origin
+  matrix: THREE.Matrix4;
+  // Parts with per-instance colors multiply their material color by the instance color
+  colored?: boolean;
+  // Parts tested by raycasting; keep this to one coarse part per layer
+  pickable?: boolean;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+}
+
+// Many copies of a composite object keyed by entity id, drawn with one InstancedMesh per part.
+// Instances can be added, moved, recolored and removed individually.
+export interface InstancedLayer {
+  group: THREE.Group;
+  readonly pickMeshes: THREE.InstancedMesh[];
+  has: (id: string) => boolean;
+  // A vector scale stretches the instance per axis, e.g. a unit box into a wall segment
+  set: (id: string, position: THREE.Vector3, scale?: number | THREE.Vector3, rotationY?: number) => void;
+  setColor: (id: string, color: THREE.ColorRepresentation) => void;
+  remove: (id: string) => void;
+  // Entity id of an instance hit by a raycast
+  getId: (instanceId: number) => string | undefined;
+  dispose: () => void;
+}
+
+export const partMatrix = (x: number, y: number, z: number, rotationX = 0, rotationZ = 0): THREE.Matrix4 =>
+  new THREE.Matrix4().compose(
+    new THREE.Vector3(x, y, z),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(rotationX, 0, rotationZ)),
+    new THREE.Vector3(1, 1, 1)
+  );
+
+const _instanceMatrix = new THREE.Matrix4();
+const _partMatrix = new THREE.Matrix4();
+const _rotation = new THREE.Quaternion();
+const _up = new THREE.Vector3(0, 1, 0);
+const _scale = new THREE.Vector3();
+const _color = new THREE.Color();
+
+export const createInstancedLayer = (type: string, parts: InstancedPart[], initialCapacity = 64): InstancedLayer => {
+  const group = new THREE.Group();
+  const ids: string[] = [];
+  const indexById = new Map<string, number>();
+  let capacity = Math.max(1, initialCapacity);
+
+  const createMeshes = (size: number) => parts.map(part => {
+    const mesh = new THREE.InstancedMesh(part.geometry, part.material, size);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    if (part.colored) {
+      mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(size * 3).fill(1), 3);
+    }
+    mesh.count = ids.length;
+    mesh.castShadow = part.castShadow ?? false;
+    mesh.receiveShadow = part.receiveShadow ?? false;
+    mesh.userData.type = type;
+    group.add(mesh);
+    return mesh;
+  });
+
+  let meshes = createMeshes(capacity);
+
+  const markChanged = () => {
+    meshes.forEach(mesh => {
+      mesh.count = ids.length;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+      // Recomputed on demand for culling and raycasting
+      mesh.boundingSphere = null;
+    });
+  };
+
+  // Double the capacity, carrying the existing instances over
+  const grow = () => {
+    capacity *= 2;
+    const previous = meshes;
+    meshes = createMeshes(capacity);
+    previous.forEach((mesh, i) => {
+      meshes[i].instanceMatrix.array.set(mesh.instanceMatrix.array);
+      if (mesh.instanceColor) meshes[i].instanceColor.array.set(mesh.instanceColor.array);
+      group.remove(mesh);
+      mesh.dispose();
+    });
+  };
+
+  const set = (id: string, position: THREE.Vector3, scale: number | THREE.Vector3 = 1, rotationY = 0) => {
+    let index = indexById.get(id);
+    if (index === undefined) {
+      if (ids.length === capacity) grow();
+      index = ids.length;
+      ids.push(id);
+      indexById.set(id, index);
+      meshes.forEach(mesh => mesh.instanceColor && mesh.setColorAt(index, _color.set(0xffffff)));
+    }
+
+    if (typeof scale === 'number') {
+      _scale.set(scale, scale, scale);
+    } else {
+      _scale.copy(scale);
+    }
+    _instanceMatrix.compose(position, _rotation.setFromAxisAngle(_up, rotationY), _scale);
+    meshes.forEach((mesh, i) => {
+      mesh.setMatrixAt(index, _partMatrix.multiplyMatrices(_instanceMatrix, parts[i].matrix));
+    });
+    markChanged();
+  };
+
+  const setColor = (id: string, color: THREE.ColorRepresentation) => {
+    const index = indexById.get(id);
+    if (index === undefined) return;
+
+    _color.set(color);
+    meshes.forEach(mesh => {
+      if (!mesh.instanceColor) return;
+      mesh.setColorAt(index, _color);
+      mesh.instanceColor.needsUpdate = true;
+    });
+  };
+
+  // Move the last instance into the freed slot so instances stay contiguous
+  const remove = (id: string) => {
+    const index = indexById.get(id);
+    if (index === undefined) return;
+
+    const lastIndex = ids.length - 1;
+    if (index !== lastIndex) {
+      const lastId = ids[lastIndex];
+      meshes.forEach(mesh => {
+        mesh.getMatrixAt(lastIndex, _partMatrix);
+        mesh.setMatrixAt(index, _partMatrix);
+        if (mesh.instanceColor) {
+          mesh.getColorAt(lastIndex, _color);
+          mesh.setColorAt(index, _color);
+        }
+      });
+      ids[index] = lastId;
+      indexById.set(lastId, index);
+    }
+
+    ids.pop();
+    indexById.delete(id);
+    markChanged();
+  };
+
+  return {
+    group,
+    get pickMeshes() {
+      return meshes.filter((_, i) => parts[i].pickable);
+    },
+    has: (id) => indexById.has(id),
+    set,
+    setColor,
+    remove,
+    getId: (instanceId) => ids[instanceId],
+    dispose: () => meshes.forEach(mesh => mesh.dispose()),
+  };
+};
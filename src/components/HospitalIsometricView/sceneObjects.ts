@@ -0,0 +1,771 @@
+
+import * as THREE from 'three';
+import { BedStatus, EquipmentStatus, EquipmentType, FloorArea, PlanPoint, Position, Room, RoomBounds } from '@/types/hospital';
+import { getRoomOutline } from '@/services/rooms';
+import { PatientSeverity } from '@/services/clinical';
+import { News2Score, News2RiskBand } from '@/services/news2';
+import { AlertSeverity } from '@/services/alerts';
+import { createInstancedLayer, InstancedLayer, partMatrix } from './instancedLayer';
+
+// Shared materials and instanced layers for the objects in the isometric scene.
+// Beds and patients are drawn with one InstancedMesh per part, so the number of
+// draw calls does not grow with the number of beds.
+
+// Status indicator colors, matching the ControlPanel legend
+const bedStatusIndicatorColors: Partial<Record<BedStatus, number>> = {
+  available: 0x4ade80,
+  cleaning: 0x60a5fa,
+  reserved: 0xa78bfa,
+  blocked: 0x64748b,
+  maintenance: 0xfacc15,
+};
+
+const patientSeverityColors: Record<PatientSeverity, number> = {
+  critical: 0xea384c,
+  deteriorating: 0xf97316,
+  stable: 0x4ade80,
+  discharged: 0x8E9196,
+};
+
+export const OVERDUE_CLEANING_COLOR = 0xef4444;
+
+// Beds and indicators that do not match the active filters are drawn in this tint
+export const DIMMED_COLOR = 0x3f3f46;
+
+export const RESERVATION_GHOST_COLOR = 0xa78bfa;
+
+export const ALERT_BEACON_COLORS: Record<AlertSeverity, number> = {
+  critical: 0xf43f5e,
+  warning: 0xf59e0b,
+};
+
+// Occupied beds show their patient instead of a status light
+export const getBedIndicatorColor = (status: BedStatus): number | undefined => bedStatusIndicatorColors[status];
+
+// The selected patient is drawn lighter, patients filtered out darker
+export const getPatientColor = (severity: PatientSeverity, isSelected: boolean, isDimmed = false): THREE.Color => {
+  const color = new THREE.Color(patientSeverityColors[severity]);
+  if (isDimmed) return color.multiplyScalar(0.25);
+  return isSelected ? color.lerp(new THREE.Color(0xffffff), 0.45) : color;
+};
+
+// Beds sit just above their floor slab, patients lie on the mattress
+export const getBedPosition = (position: Position): THREE.Vector3 =>
+  new THREE.Vector3(position.x, (position.y !== undefined ? position.y : 0) + 0.1, position.z);
+
+export const getBedIndicatorPosition = (position: Position): THREE.Vector3 =>
+  getBedPosition(position).add(new THREE.Vector3(0, 0.8, 0));
+
+export const getPatientPosition = (bedPosition: Position): THREE.Vector3 =>
+  new THREE.Vector3(bedPosition.x, (bedPosition.y !== undefined ? bedPosition.y : 0) + 0.45, bedPosition.z);
+
+// NEWS2 badges float above the patient's head, colored by risk band like the patient details
+const news2BadgeColors: Record<News2RiskBand, string> = {
+  low: '#10b981',
+  'low-medium': '#f59e0b',
+  medium: '#f97316',
+  high: '#e11d48',
+};
+
+export const getScoreBadgePosition = (bedPosition: Position): THREE.Vector3 =>
+  getPatientPosition(bedPosition).add(new THREE.Vector3(0, 1.3, -0.65));
+
+// A sprite always faces the camera; its texture is drawn once per score, so a changed score needs a new badge
+export const createScoreBadge = ({ total, riskBand }: News2Score, isDimmed: boolean): THREE.Sprite => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 40;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.fillStyle = news2BadgeColors[riskBand];
+    context.beginPath();
+    context.roundRect(2, 2, 60, 36, 10);
+    context.fill();
+    context.fillStyle = '#ffffff';
+    context.font = 'bold 26px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(`${total}`, 32, 21);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+    map: texture,
+    transparent: true,
+    opacity: isDimmed ? 0.25 : 1,
+    depthWrite: false,
+  }));
+  sprite.scale.set(0.64, 0.4, 1);
+  sprite.name = 'news2-badge';
+  return sprite;
+};
+
+export const disposeScoreBadge = (sprite: THREE.Sprite) => {
+  sprite.material.map?.dispose();
+  sprite.material.dispose();
+};
+
+export const getEquipmentPosition = (position: Position): THREE.Vector3 =>
+  new THREE.Vector3(position.x, position.y, position.z);
+
+export const ROOM_WALL_HEIGHT = 1.2;
+const ROOM_WALL_THICKNESS = 0.1;
+const ROOM_DOOR_WIDTH = 1.4;
+
+// Room floors are tinted per instance over the theme's floor color
+const ROOM_ISOLATION_COLOR = 0xfcd34d;
+const ROOM_SELECTED_COLOR = 0x93c5fd;
+
+export const getRoomFloorColor = (room: Room, isSelected: boolean): number => {
+  if (isSelected) return ROOM_SELECTED_COLOR;
+  return room.isolation ? ROOM_ISOLATION_COLOR : 0xffffff;
+};
+
+// Thin tile covering the room's footprint, just above the floor slab; it is what room clicks hit
+export const getRoomFloorPlacement = (room: Room, floorLevel: number) => {
+  const { minX, minZ, maxX, maxZ } = room.bounds;
+  return {
+    position: new THREE.Vector3((minX + maxX) / 2, floorLevel * 4 + 0.002, (minZ + maxZ) / 2),
+    scale: new THREE.Vector3(maxX - minX, 0.01, maxZ - minZ),
+  };
+};
+
+// Floor slabs cover at least the default 25 x 25 area, and grow to fit imported layouts
+export const getFloorSlabBounds = (rooms: Room[], corridors: FloorArea[] = []): RoomBounds => {
+  const margin = 1.5;
+  const points = [...rooms.flatMap(getRoomOutline), ...corridors.flatMap(corridor => corridor.outline)];
+  return {
+    minX: Math.min(-12.5, ...points.map(p => p.x - margin)),
+    minZ: Math.min(-12.5, ...points.map(p => p.z - margin)),
+    maxX: Math.max(12.5, ...points.map(p => p.x + margin)),
+    maxZ: Math.max(12.5, ...points.map(p => p.z + margin)),
+  };
+};
+
+// Flat shape of a corridor, lying on the floor plane
+export const createCorridorGeometry = (corridor: FloorArea): THREE.ShapeGeometry => {
+  // Shapes are drawn in the XY plane; rotating onto the floor maps shape y to -z
+  const shape = new THREE.Shape(corridor.outline.map(point => new THREE.Vector2(point.x, -point.z)));
+  const geometry = new THREE.ShapeGeometry(shape);
+  geometry.rotateX(-Math.PI / 2);
+  return geometry;
+};
+
+export interface WallSegment {
+  position: THREE.Vector3;
+  scale: THREE.Vector3;
+  rotationY: number;
+}
+
+// Without explicit doors, the door opens in the middle of the side wall that faces the centre of the floor
+const getRoomDoors = (room: Room): PlanPoint[] => {
+  if (room.doors) return room.doors;
+  const { minX, minZ, maxX, maxZ } = room.bounds;
+  return [{ x: (minX + maxX) / 2 < 0 ? maxX : minX, z: (minZ + maxZ) / 2 }];
+};
+
+// Wall segments along the room outline, inset so neighbouring rooms get two walls side by side,
+// with a gap wherever a door sits on a wall
+export const getRoomWallSegments = (room: Room, floorLevel: number): WallSegment[] => {
+  const outline = getRoomOutline(room);
+  const doors = getRoomDoors(room);
+  const y = floorLevel * 4;
+  // Positive for counter-clockwise outlines, which have their inside on the left of each edge
+  const signedArea = outline.reduce((area, point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    return area + point.x * next.z - next.x * point.z;
+  }, 0);
+  const inside = signedArea > 0 ? 1 : -1;
+  const segments: WallSegment[] = [];
+
+  outline.forEach((start, i) => {
+    const end = outline[(i + 1) % outline.length];
+    const dx = end.x - start.x;
+    const dz = end.z - start.z;
+    const length = Math.hypot(dx, dz);
+    if (length === 0) return;
+    const ux = dx / length;
+    const uz = dz / length;
+    const offsetX = -uz * inside * ROOM_WALL_THICKNESS / 2;
+    const offsetZ = ux * inside * ROOM_WALL_THICKNESS / 2;
+
+    // Stretches of the edge left open for doors, as distances from the start of the edge
+    const gaps = doors
+      .map(door => ({
+        along: (door.x - start.x) * ux + (door.z - start.z) * uz,
+        across: Math.abs((door.x - start.x) * uz - (door.z - start.z) * ux),
+      }))
+      .filter(({ along, across }) => across < 0.5 && along >= 0 && along <= length)
+      .map(({ along }) => [along - ROOM_DOOR_WIDTH / 2, along + ROOM_DOOR_WIDTH / 2])
+      .sort((a, b) => a[0] - b[0]);
+
+    let from = 0;
+    [...gaps, [length, length]].forEach(([gapStart, gapEnd]) => {
+      const to = Math.min(gapStart, length);
+      if (to - from > 0.01) {
+        const middle = (from + to) / 2;
+        segments.push({
+          position: new THREE.Vector3(start.x + ux * middle + offsetX, y, start.z + uz * middle + offsetZ),
+          scale: new THREE.Vector3(to - from, ROOM_WALL_HEIGHT, ROOM_WALL_THICKNESS),
+          rotationY: Math.atan2(-uz, ux),
+        });
+      }
+      from = Math.max(from, gapEnd);
+    });
+  });
+
+  return segments;
+};
+
+// Overlays of the floor plan editor: corner handles of the selected room, and the outline
+// of a room being drawn or resized
+export interface LayoutEditorObjects {
+  group: THREE.Group;
+  // Corners in the order (minX, minZ), (maxX, minZ), (maxX, maxZ), (minX, maxZ)
+  handles: THREE.Mesh[];
+  draft: THREE.Mesh;
+}
+
+const LAYOUT_EDITOR_COLOR = 0x3b82f6;
+
+export const createLayoutEditorObjects = (): LayoutEditorObjects => {
+  const group = new THREE.Group();
+
+  const handleGeometry = new THREE.SphereGeometry(0.3, 12, 12);
+  const handleMaterial = new THREE.MeshBasicMaterial({ color: LAYOUT_EDITOR_COLOR });
+  const handles = [0, 1, 2, 3].map(corner => {
+    const handle = new THREE.Mesh(handleGeometry, handleMaterial);
+    handle.userData.corner = corner;
+    handle.visible = false;
+    group.add(handle);
+    return handle;
+  });
+
+  const draftGeometry = new THREE.BoxGeometry(1, 1, 1);
+  draftGeometry.translate(0, 0.5, 0);
+  const draft = new THREE.Mesh(
+    draftGeometry,
+    new THREE.MeshBasicMaterial({ color: LAYOUT_EDITOR_COLOR, transparent: true, opacity: 0.25, depthWrite: false })
+  );
+  draft.visible = false;
+  group.add(draft);
+
+  return { group, handles, draft };
+};
+
+export const getBoundsCorners = ({ minX, minZ, maxX, maxZ }: RoomBounds): PlanPoint[] => [
+  { x: minX, z: minZ },
+  { x: maxX, z: minZ },
+  { x: maxX, z: maxZ },
+  { x: minX, z: maxZ },
+];
+
+// Show the draft room as a translucent block of wall height
+export const placeDraftRoom = (draft: THREE.Mesh, bounds: RoomBounds, floorLevel: number) => {
+  const { minX, minZ, maxX, maxZ } = bounds;
+  draft.position.set((minX + maxX) / 2, floorLevel * 4, (minZ + maxZ) / 2);
+  draft.scale.set(Math.max(maxX - minX, 0.01), ROOM_WALL_HEIGHT, Math.max(maxZ - minZ, 0.01));
+  draft.visible = true;
+};
+
+export interface SceneMaterials {
+  bedFrame: THREE.MeshStandardMaterial;
+  bedRail: THREE.MeshStandardMaterial;
+  bedBoard: THREE.MeshStandardMaterial;
+  bedLeg: THREE.MeshStandardMaterial;
+  mattress: THREE.MeshStandardMaterial;
+  pillow: THREE.MeshStandardMaterial;
+  indicator: THREE.MeshStandardMaterial;
+  patientBody: THREE.MeshStandardMaterial;
+  blanket: THREE.MeshStandardMaterial;
+  ivPole: THREE.MeshStandardMaterial;
+  ivBag: THREE.MeshStandardMaterial;
+  roomWall: THREE.MeshStandardMaterial;
+  roomFloor: THREE.MeshStandardMaterial;
+  alertBeacon: THREE.MeshBasicMaterial;
+  reservationGhost: THREE.MeshStandardMaterial;
+}
+
+export const createSceneMaterials = (): SceneMaterials => ({
+  bedFrame: new THREE.MeshStandardMaterial({ roughness: 0.3, metalness: 0.8 }),
+  bedRail: new THREE.MeshStandardMaterial({ roughness: 0.2, metalness: 0.9 }),
+  bedBoard: new THREE.MeshStandardMaterial({ roughness: 0.4, metalness: 0.5 }),
+  bedLeg: new THREE.MeshStandardMaterial({ roughness: 0.2, metalness: 0.8 }),
+  mattress: new THREE.MeshStandardMaterial({ roughness: 0.7, metalness: 0.0 }),
+  pillow: new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.8, metalness: 0.0 }),
+  // White base colors, tinted per instance
+  indicator: new THREE.MeshStandardMaterial({ color: 0xffffff, emissive: 0x222222 }),
+  patientBody: new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.6, metalness: 0.1 }),
+  blanket: new THREE.MeshStandardMaterial({ roughness: 0.8, metalness: 0.0 }),
+  ivPole: new THREE.MeshStandardMaterial({ color: 0xCCCCCC, roughness: 0.2, metalness: 0.9 }),
+  ivBag: new THREE.MeshStandardMaterial({ color: 0xFFFFFF, transparent: true, opacity: 0.7, roughness: 0.1 }),
+  // Unlit, so beacons stand out in either theme; tinted per instance by alert severity
+  alertBeacon: new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.85, depthWrite: false }),
+  // See-through silhouette of the patient a reserved bed is waiting for
+  reservationGhost: new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0x7c3aed,
+    emissiveIntensity: 0.35,
+    transparent: true,
+    opacity: 0.4,
+    depthWrite: false,
+  }),
+  roomWall: new THREE.MeshStandardMaterial({ roughness: 0.9, metalness: 0.0 }),
+  roomFloor: new THREE.MeshStandardMaterial({ roughness: 0.9, metalness: 0.0 }),
+});
+
+// Theme changes recolor the shared materials in place
+export const applySceneTheme = (materials: SceneMaterials, isDarkMode: boolean) => {
+  materials.bedFrame.color.setHex(isDarkMode ? 0x9F9EA1 : 0xCBD5E0);
+  materials.bedRail.color.setHex(isDarkMode ? 0x9F9EA1 : 0xCBD5E0);
+  materials.bedBoard.color.setHex(isDarkMode ? 0x8A898C : 0xA0AEC0);
+  materials.bedLeg.color.setHex(isDarkMode ? 0x8A898C : 0xA0AEC0);
+  materials.mattress.color.setHex(isDarkMode ? 0xD3E4FD : 0xEBF8FF);
+  materials.blanket.color.setHex(isDarkMode ? 0xD3E4FD : 0xEBF8FF);
+  materials.patientBody.emissive.setHex(isDarkMode ? 0x333333 : 0x111111);
+  materials.roomWall.color.setHex(isDarkMode ? 0x8A898C : 0xF1F0FB);
+  materials.roomFloor.color.setHex(isDarkMode ? 0x403E43 : 0xF8FAFC);
+};
+
+export interface SceneLayers {
+  beds: InstancedLayer;
+  bedIndicators: InstancedLayer;
+  patients: InstancedLayer;
+  // Critical patients get an IV pole
+  ivPoles: InstancedLayer;
+  // Reserved beds show a ghost of the incoming patient, keyed by bed id
+  reservationGhosts: InstancedLayer;
+  // Room floor tiles are keyed by room id, wall segments by `${roomId}:${index}`
+  roomFloors: InstancedLayer;
+  roomWalls: InstancedLayer;
+  // Beds with an active alert get a pin above them and a ring around them that pulses
+  alertPins: InstancedLayer;
+  alertRings: InstancedLayer;
+}
+
+export const createSceneLayers = (materials: SceneMaterials): SceneLayers => {
+  const boardGeometry = new THREE.BoxGeometry(0.9, 0.6, 0.08);
+  const railGeometry = new THREE.BoxGeometry(0.05, 0.3, 1.8);
+  const legGeometry = new THREE.CylinderGeometry(0.04, 0.04, 0.3, 8);
+  const armGeometry = new THREE.CapsuleGeometry(0.08, 0.5, 4, 8);
+
+  const beds = createInstancedLayer('bed', [
+    // Frame and mattress are tinted per instance to dim filtered-out beds
+    { geometry: new THREE.BoxGeometry(0.9, 0.3, 2.1), material: materials.bedFrame, matrix: partMatrix(0, 0.15, 0), colored: true, pickable: true, castShadow: true, receiveShadow: true },
+    { geometry: new THREE.BoxGeometry(0.8, 0.15, 1.9), material: materials.mattress, matrix: partMatrix(0, 0.38, 0), colored: true, castShadow: true, receiveShadow: true },
+    { geometry: new THREE.BoxGeometry(0.6, 0.1, 0.4), material: materials.pillow, matrix: partMatrix(0, 0.45, -0.7), castShadow: true },
+    { geometry: railGeometry, material: materials.bedRail, matrix: partMatrix(-0.425, 0.5, 0), castShadow: true },
+    { geometry: railGeometry, material: materials.bedRail, matrix: partMatrix(0.425, 0.5, 0), castShadow: true },
+    { geometry: boardGeometry, material: materials.bedBoard, matrix: partMatrix(0, 0.5, -1.05), castShadow: true },
+    { geometry: boardGeometry, material: materials.bedBoard, matrix: partMatrix(0, 0.5, 1.05), castShadow: true },
+    ...[[-0.4, -0.9], [0.4, -0.9], [-0.4, 0.9], [0.4, 0.9]].map(([x, z]) => (
+      { geometry: legGeometry, material: materials.bedLeg, matrix: partMatrix(x, -0.15, z), castShadow: true }
+    )),
+  ], 128);
+
+  const bedIndicators = createInstancedLayer('bed-indicator', [
+    { geometry: new THREE.SphereGeometry(0.2, 8, 8), material: materials.indicator, matrix: new THREE.Matrix4(), colored: true },
+  ], 128);
+
+  const patients = createInstancedLayer('patient', [
+    { geometry: new THREE.CapsuleGeometry(0.25, 0.8, 4, 8), material: materials.patientBody, matrix: partMatrix(0, 0.55, 0, Math.PI / 2), colored: true, pickable: true, castShadow: true },
+    { geometry: new THREE.SphereGeometry(0.2, 16, 16), material: materials.patientBody, matrix: partMatrix(0, 0.6, -0.65), colored: true, castShadow: true },
+    { geometry: armGeometry, material: materials.patientBody, matrix: partMatrix(-0.35, 0.55, -0.15, 0, Math.PI / 2), colored: true, castShadow: true },
+    { geometry: armGeometry, material: materials.patientBody, matrix: partMatrix(0.35, 0.55, -0.15, 0, -Math.PI / 2), colored: true, castShadow: true },
+    { geometry: new THREE.BoxGeometry(0.7, 0.08, 0.9), material: materials.blanket, matrix: partMatrix(0, 0.5, 0.5), castShadow: true },
+  ], 128);
+
+  const ivPoles = createInstancedLayer('iv-pole', [
+    { geometry: new THREE.CylinderGeometry(0.02, 0.02, 1.2, 8), material: materials.ivPole, matrix: partMatrix(0.45, 0.9, -0.3) },
+    { geometry: new THREE.BoxGeometry(0.05, 0.15, 0.05), material: materials.ivBag, matrix: partMatrix(0.45, 1.4, -0.3) },
+  ], 32);
+
+  const reservationGhosts = createInstancedLayer('reservation-ghost', [
+    { geometry: new THREE.CapsuleGeometry(0.25, 0.8, 4, 8), material: materials.reservationGhost, matrix: partMatrix(0, 0.55, 0, Math.PI / 2), colored: true },
+    { geometry: new THREE.SphereGeometry(0.2, 16, 16), material: materials.reservationGhost, matrix: partMatrix(0, 0.6, -0.65), colored: true },
+  ], 16);
+
+  // Unit boxes, stretched per instance to the room footprint or wall segment
+  const unitBox = new THREE.BoxGeometry(1, 1, 1);
+
+  const roomFloors = createInstancedLayer('room', [
+    { geometry: unitBox, material: materials.roomFloor, matrix: partMatrix(0, 0.5, 0), colored: true, pickable: true, receiveShadow: true },
+  ], 32);
+
+  const roomWalls = createInstancedLayer('room-wall', [
+    { geometry: unitBox, material: materials.roomWall, matrix: partMatrix(0, 0.5, 0), castShadow: true, receiveShadow: true },
+  ], 128);
+
+  const alertPins = createInstancedLayer('alert-pin', [
+    { geometry: new THREE.ConeGeometry(0.2, 0.45, 12), material: materials.alertBeacon, matrix: partMatrix(0, 2.5, 0, Math.PI), colored: true },
+  ], 16);
+
+  const alertRings = createInstancedLayer('alert-ring', [
+    { geometry: new THREE.TorusGeometry(1.3, 0.05, 8, 32), material: materials.alertBeacon, matrix: partMatrix(0, 0.02, 0, Math.PI / 2), colored: true },
+  ], 16);
+
+  return { beds, bedIndicators, patients, ivPoles, reservationGhosts, roomFloors, roomWalls, alertPins, alertRings };
+};
+
+// Free the instance buffers, shared geometries and materials of the layers
+export const disposeSceneLayers = (layers: SceneLayers, materials: SceneMaterials) => {
+  Object.values(layers).forEach(layer => {
+    disposeObject(layer.group);
+    layer.dispose();
+  });
+  Object.values(materials).forEach(material => material.dispose());
+};
+
+const createEquipmentMaterials = (isDarkMode: boolean) => ({
+  default: new THREE.MeshStandardMaterial({ 
+    color: isDarkMode ? 0xb0b0b0 : 0xA0AEC0,
+    roughness: 0.2,
+    metalness: 0.8
+  }),
+  screen: new THREE.MeshStandardMaterial({ 
+    color: 0x222222,
+    emissive: isDarkMode ? 0x1EAEDB : 0x3182CE,
+    emissiveIntensity: isDarkMode ? 0.5 : 0.3,
+    roughness: 0.1,
+    metalness: 0.9
+  }),
+  working: new THREE.MeshStandardMaterial({ 
+    color: 0x4ade80,
+    emissive: 0x4ade80,
+    emissiveIntensity: isDarkMode ? 0.5 : 0.3
+  }),
+  maintenance: new THREE.MeshStandardMaterial({ 
+    color: 0xfbbd23,
+    emissive: 0xfbbd23,
+    emissiveIntensity: isDarkMode ? 0.5 : 0.3
+  }),
+  offline: new THREE.MeshStandardMaterial({ 
+    color: 0xea384c,
+    emissive: 0xea384c,
+    emissiveIntensity: isDarkMode ? 0.3 : 0.2
+  }),
+  glass: new THREE.MeshPhysicalMaterial({
+    color: isDarkMode ? 0xffffff : 0xE2E8F0,
+    transparent: true,
+    opacity: isDarkMode ? 0.3 : 0.4,
+    roughness: 0.1, 
+    transmission: isDarkMode ? 0.9 : 0.7,
+    ior: 1.5
+  })
+});
+
+// Detailed model of a piece of equipment with a status light; equipment is sparse, so each gets its own meshes
+export const createEquipment = (
+  type: EquipmentType,
+  position: THREE.Vector3,
+  equipmentId: string,
+  status: EquipmentStatus = 'working',
+  isDarkMode = true
+): THREE.Group => {
+  const equipmentMaterials = createEquipmentMaterials(isDarkMode);
+  const group = new THREE.Group();
+  let statusLight: THREE.Mesh;
+  // Per-frame updates for screens, rings and lamps, run by the render loop
+  const animations: (() => void)[] = [];
+  const statusMaterial = equipmentMaterials[status];
+  
+  switch(type) {
+    case 'monitor': {
+      const standGeometry = new THREE.CylinderGeometry(0.2, 0.3, 0.8, 16);
+      const stand = new THREE.Mesh(standGeometry, equipmentMaterials.default);
+      stand.position.y = 0.4;
+      group.add(stand);
+      
+      const armGeometry = new THREE.BoxGeometry(0.1, 0.8, 0.1);
+      const arm = new THREE.Mesh(armGeometry, equipmentMaterials.default);
+      arm.position.y = 1.2;
+      group.add(arm);
+      
+      const screenGeometry = new THREE.BoxGeometry(0.8, 0.6, 0.08);
+      const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
+      screen.position.y = 1.5;
+      screen.position.z = 0.1;
+      group.add(screen);
+      
+      const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
+      statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
+      statusLight.position.set(0.3, 1.3, 0);
+      
+      const animateScreen = () => {
+        const time = Date.now() * 0.001;
+        const screenMat = screen.material as THREE.MeshStandardMaterial;
+        screenMat.emissiveIntensity = 0.3 + Math.sin(time * 2) * 0.1;
+      };
+      animations.push(animateScreen);
+      
+      break;
+    }
+    
+    case 'ventilator': {
+      const baseGeometry = new THREE.BoxGeometry(0.7, 1.2, 0.7);
+      const base = new THREE.Mesh(baseGeometry, equipmentMaterials.default);
+      base.position.y = 0.6;
+      group.add(base);
+      
+      const screenGeometry = new THREE.BoxGeometry(0.5, 0.3, 0.05);
+      const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
+      screen.position.y = 0.9;
+      screen.position.z = 0.38;
+      group.add(screen);
+      
+      const tubeGeometry = new THREE.TubeGeometry(
+        new THREE.CatmullRomCurve3([
+          new THREE.Vector3(0, 0.8, 0.35),
+          new THREE.Vector3(0.3, 0.7, 0.4),
+          new THREE.Vector3(0.4, 0.5, 0.5),
+          new THREE.Vector3(0.3, 0, 0.5),
+        ]),
+        20, 0.05, 8, false
+      );
+      const tube = new THREE.Mesh(tubeGeometry, new THREE.MeshStandardMaterial({
+        color: 0xdedede,
+        roughness: 0.7
+      }));
+      group.add(tube);
+      
+      const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
+      statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
+      statusLight.position.set(-0.25, 1.05, 0.38);
+      
+      const animateScreen = () => {
+        const time = Date.now() * 0.001;
+        const screenMat = screen.material as THREE.MeshStandardMaterial;
+        screenMat.emissiveIntensity = 0.4 + Math.sin(time * 4) * 0.2;
+      };
+      animations.push(animateScreen);
+      
+      break;
+    }
+    
+    case 'ct-scanner': {
+      const baseGeometry = new THREE.CylinderGeometry(1.4, 1.4, 0.4, 32);
+      const base = new THREE.Mesh(baseGeometry, equipmentMaterials.default);
+      base.position.y = 0.2;
+      group.add(base);
+      
+      const ringGeometry = new THREE.TorusGeometry(1.2, 0.2, 16, 32);
+      const ring = new THREE.Mesh(ringGeometry, equipmentMaterials.default);
+      ring.position.y = 1.0;
+      ring.rotation.x = Math.PI / 2;
+      group.add(ring);
+      
+      const tableGeometry = new THREE.BoxGeometry(0.8, 0.1, 2.5);
+      const table = new THREE.Mesh(tableGeometry, equipmentMaterials.default);
+      table.position.y = 0.7;
+      table.position.z = 0.5;
+      group.add(table);
+      
+      const panelGeometry = new THREE.BoxGeometry(0.6, 0.8, 0.15);
+      const panel = new THREE.Mesh(panelGeometry, equipmentMaterials.default);
+      panel.position.set(-1.0, 1.0, 1.5);
+      group.add(panel);
+      
+      const screenGeometry = new THREE.PlaneGeometry(0.4, 0.3);
+      const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
+      screen.position.set(-1.0, 1.2, 1.58);
+      group.add(screen);
+      
+      const lightGeometry = new THREE.SphereGeometry(0.1, 16, 16);
+      statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
+      statusLight.position.set(-1.0, 0.8, 1.58);
+      
+      const animateRing = () => {
+        const time = Date.now() * 0.001;
+        if (status === 'working') {
+          ring.rotation.z = time * 0.3;
+        }
+      };
+      animations.push(animateRing);
+      
+      const animateScreen = () => {
+        const time = Date.now() * 0.001;
+        const screenMat = screen.material as THREE.MeshStandardMaterial;
+        screenMat.emissiveIntensity = 0.3 + Math.sin(time * 2) * 0.1;
+      };
+      animations.push(animateScreen);
+      
+      break;
+    }
+    
+    case 'mri': {
+      const bodyGeometry = new THREE.CylinderGeometry(1.2, 1.2, 2, 32);
+      const body = new THREE.Mesh(bodyGeometry, equipmentMaterials.default);
+      body.position.y = 1;
+      body.rotation.x = Math.PI / 2;
+      group.add(body);
+      
+      const boreGeometry = new THREE.CylinderGeometry(0.6, 0.6, 2.2, 32);
+      const bore = new THREE.Mesh(boreGeometry, new THREE.MeshBasicMaterial({ 
+        color: 0x000000 
+      }));
+      bore.position.y = 1;
+      bore.rotation.x = Math.PI / 2;
+      group.add(bore);
+      
+      const tableGeometry = new THREE.BoxGeometry(0.8, 0.1, 3);
+      const table = new THREE.Mesh(tableGeometry, equipmentMaterials.default);
+      table.position.y = 0.7;
+      table.position.z = 0.5;
+      group.add(table);
+      
+      const terminalGeometry = new THREE.BoxGeometry(0.8, 1.2, 0.5);
+      const terminal = new THREE.Mesh(terminalGeometry, equipmentMaterials.default);
+      terminal.position.set(-1.5, 0.6, 1.5);
+      group.add(terminal);
+      
+      const screenGeometry = new THREE.PlaneGeometry(0.6, 0.5);
+      const screen = new THREE.Mesh(screenGeometry, equipmentMaterials.screen);
+      screen.position.set(-1.5, 1.0, 1.76);
+      group.add(screen);
+      
+      const lightGeometry = new THREE.SphereGeometry(0.12, 16, 16);
+      statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
+      statusLight.position.set(0, 1.8, 0);
+      
+      const animateScreen = () => {
+        const time = Date.now() * 0.001;
+        const screenMat = screen.material as THREE.MeshStandardMaterial;
+        screenMat.emissiveIntensity = 0.3 + Math.sin(time * 1.5) * 0.15;
+      };
+      animations.push(animateScreen);
+      
+      break;
+    }
+    
+    case 'surgical-lights': {
+      const boomGeometry = new THREE.CylinderGeometry(0.05, 0.05, 1.5, 8);
+      const boom = new THREE.Mesh(boomGeometry, equipmentMaterials.default);
+      boom.position.y = 2.25;
+      boom.rotation.x = Math.PI / 2;
+      group.add(boom);
+      
+      const housingGeometry = new THREE.CylinderGeometry(0.4, 0.6, 0.2, 16);
+      const housing = new THREE.Mesh(housingGeometry, equipmentMaterials.default);
+      housing.position.y = 1.5;
+      group.add(housing);
+      
+      const lensGeometry = new THREE.CircleGeometry(0.5, 32);
+      const lens = new THREE.Mesh(lensGeometry, new THREE.MeshBasicMaterial({ 
+        color: status === 'working' ? 0xffffee : 0x555555,
+        transparent: true,
+        opacity: 0.9
+      }));
+      lens.position.y = 1.38;
+      lens.rotation.x = -Math.PI / 2;
+      group.add(lens);
+      
+      const spotlight = new THREE.SpotLight(
+        status === 'working' ? 0xffffee : 0x000000, 
+        status === 'working' ? 1 : 0, 
+        10, 
+        Math.PI / 4, 
+        0.5
+      );
+      spotlight.position.set(0, 1.5, 0);
+      spotlight.target.position.set(0, 0, 0);
+      group.add(spotlight);
+      group.add(spotlight.target);
+      
+      const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
+      statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
+      statusLight.position.set(0.3, 1.5, 0);
+      
+      const animateLight = () => {
+        if (status === 'working') {
+          const time = Date.now() * 0.001;
+          const lensMat = lens.material as THREE.MeshBasicMaterial;
+          lensMat.opacity = 0.8 + Math.sin(time) * 0.1;
+        }
+      };
+      animations.push(animateLight);
+      
+      break;
+    }
+    
+    case 'anesthesia-machine': {
+      const bodyGeometry = new THREE.BoxGeometry(0.8, 1.4, 0.6);
+      const body = new THREE.Mesh(bodyGeometry, equipmentMaterials.default);
+      body.position.y = 0.7;
+      group.add(body);
+      
+      const cylinderGeometry = new THREE.CylinderGeometry(0.1, 0.1, 0.5, 16);
+      const cylinder1 = new THREE.Mesh(cylinderGeometry, new THREE.MeshStandardMaterial({ 
+        color: 0x6e9df1, roughness: 0.2, metalness: 0.9 
+      }));
+      cylinder1.position.set(-0.25, 1.2, 0.35);
+      group.add(cylinder1);
+      
+      const cylinder2 = new THREE.Mesh(cylinderGeometry, new THREE.MeshStandardMaterial({ 
+        color: 0xc1f16e, roughness: 0.2, metalness: 0.9 
+      }));
+      cylinder2.position.set(0, 1.2, 0.35);
+      group.add(cylinder2);
+      
+      const cylinder3 = new THREE.Mesh(cylinderGeometry, new THREE.MeshStandardMaterial({ 
+        color: 0xf1a66e, roughness: 0.2, metalness: 0.9 
+      }));
+      cylinder3.position.set(0.25, 1.2, 0.35);
+      group.add(cylinder3);
+      
+      const monitorGeometry = new THREE.BoxGeometry(0.6, 0.4, 0.05);
+      const monitor = new THREE.Mesh(monitorGeometry, equipmentMaterials.screen);
+      monitor.position.set(0.25, 1.3, 0.35);
+      group.add(monitor);
+      
+      const animateMonitor = () => {
+        const time = Date.now() * 0.001;
+        const monitorMat = monitor.material as THREE.MeshStandardMaterial;
+        monitorMat.emissiveIntensity = 0.3 + Math.sin(time * 2) * 0.1;
+      };
+      animations.push(animateMonitor);
+      
+      const lightGeometry = new THREE.SphereGeometry(0.08, 16, 16);
+      statusLight = new THREE.Mesh(lightGeometry, statusMaterial);
+      statusLight.position.set(-0.25, 1.4, 0.35);
+      
+      break;
+    }
+  }
+  
+  group.add(statusLight);
+  
+  group.position.copy(position);
+  group.userData.id = equipmentId;
+  group.userData.type = 'equipment';
+  group.userData.animations = animations;
+  
+  return group;
+};
+
+// Fade an equipment group in or out; each group has its own materials, whose own opacity is kept aside
+export const setObjectDimmed = (object: THREE.Object3D, isDimmed: boolean) => {
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => {
+      if (material.userData.baseOpacity === undefined) {
+        material.userData.baseOpacity = material.opacity;
+        material.userData.baseTransparent = material.transparent;
+      }
+      material.opacity = isDimmed ? material.userData.baseOpacity * 0.2 : material.userData.baseOpacity;
+      material.transparent = isDimmed || material.userData.baseTransparent;
+      material.needsUpdate = true;
+    });
+  });
+};
+
+// Free the GPU resources of an object removed from the scene
+export const disposeObject = (object: THREE.Object3D) => {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(material => material.dispose());
+    }
+  });
+};
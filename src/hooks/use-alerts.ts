@@ -0,0 +1,85 @@
+import * as React from "react"
+import { Hospital } from "@/types/hospital"
+import {
+  AlertRules,
+  AlertState,
+  AlertStates,
+  DEFAULT_ALERT_RULES,
+  evaluateAlerts,
+  HospitalAlert,
+  isAlertActive,
+  syncAlertStates,
+} from "@/services/alerts"
+import { useNow } from "@/hooks/use-now"
+
+export interface InboxAlert extends HospitalAlert {
+  state: AlertState
+  isActive: boolean
+}
+
+const canNotify = () => typeof window !== "undefined" && "Notification" in window
+
+// Alerts raised by the rules over the current hospital, with what the user did with each of them.
+// Browser notifications are off until the user turns them on; once on, every newly raised alert
+// is also posted as a system notification.
+export function useAlerts(hospital: Hospital | null, rules: AlertRules = DEFAULT_ALERT_RULES) {
+  const now = useNow()
+  const alerts = React.useMemo(() => (hospital ? evaluateAlerts(hospital, now, rules) : []), [hospital, now, rules])
+  const [states, setStates] = React.useState<AlertStates>({})
+  const [notificationsEnabled, setNotificationsEnabled] = React.useState(false)
+  const knownIdsRef = React.useRef(new Set<string>())
+
+  React.useEffect(() => {
+    setStates(previous => syncAlertStates(previous, alerts, Date.now()))
+
+    const raised = alerts.filter(alert => !knownIdsRef.current.has(alert.id))
+    knownIdsRef.current = new Set(alerts.map(alert => alert.id))
+    if (notificationsEnabled && canNotify() && Notification.permission === "granted") {
+      raised.forEach(alert => new Notification(alert.title, { body: alert.description, tag: alert.id }))
+    }
+  }, [alerts, notificationsEnabled])
+
+  const inbox: InboxAlert[] = alerts.map(alert => {
+    const state = states[alert.id] ?? { raisedAt: now, acknowledged: false, snoozedUntil: null }
+    return { ...alert, state, isActive: isAlertActive(state, now) }
+  })
+
+  const updateState = React.useCallback((alertId: string, update: Partial<AlertState>) => {
+    setStates(previous => (previous[alertId] ? { ...previous, [alertId]: { ...previous[alertId], ...update } } : previous))
+  }, [])
+
+  const acknowledge = React.useCallback((alertId: string) => updateState(alertId, { acknowledged: true }), [updateState])
+
+  const snooze = React.useCallback(
+    (alertId: string, durationMs: number) => updateState(alertId, { snoozedUntil: Date.now() + durationMs }),
+    [updateState]
+  )
+
+  const acknowledgeAll = React.useCallback(() => {
+    setStates(previous => Object.fromEntries(
+      Object.entries(previous).map(([id, state]) => [id, { ...state, acknowledged: true }])
+    ))
+  }, [])
+
+  // Asks for permission the first time; notifications stay off when it is denied
+  const setNotifications = React.useCallback(async (enabled: boolean) => {
+    if (!enabled || !canNotify()) {
+      setNotificationsEnabled(false)
+      return
+    }
+    const permission = Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission
+    setNotificationsEnabled(permission === "granted")
+  }, [])
+
+  return {
+    alerts: inbox,
+    activeCount: inbox.filter(alert => alert.isActive).length,
+    acknowledge,
+    snooze,
+    acknowledgeAll,
+    notificationsEnabled,
+    notificationsSupported: canNotify(),
+    notificationPermission: canNotify() ? Notification.permission : "denied",
+    setNotifications,
+  }
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { getDefaultHospitalDataSource, HospitalDataSource } from "@/services/hospitalDataSource"
+
+export const HOSPITAL_QUERY_KEY = "hospital"
+
+// Without a data source the one configured through the environment is used; it is only created inside
+// the query, so configuration errors end up in the query's error state
+export function useHospitalData(dataSource?: HospitalDataSource) {
+  return useQuery({
+    queryKey: [HOSPITAL_QUERY_KEY, dataSource?.kind ?? "default", dataSource?.name ?? "default"],
+    queryFn: ({ signal }) => (dataSource ?? getDefaultHospitalDataSource()).fetchHospital(signal),
+    // Local edits live on top of the fetched snapshot, so only refetch on demand
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  })
+}
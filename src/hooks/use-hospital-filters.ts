@@ -0,0 +1,15 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+import { filtersFromSearchParams, HospitalFilters, writeFiltersToSearchParams } from "@/services/hospitalFilters"
+
+// Scene filters live in the URL query, so a filtered view can be bookmarked or shared
+export function useHospitalFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = React.useMemo(() => filtersFromSearchParams(searchParams), [searchParams])
+
+  const setFilters = React.useCallback((next: HospitalFilters) => {
+    setSearchParams(params => writeFiltersToSearchParams(params, next), { replace: true })
+  }, [setSearchParams])
+
+  return { filters, setFilters }
+}
@@ -0,0 +1,131 @@
+import * as React from "react"
+
+import {
+  applyHospitalEvent,
+  createHospitalEvent,
+  getEventChange,
+  HospitalChange,
+  HospitalEvent,
+  replayHospitalEvents,
+} from "@/services/hospitalEvents"
+import { DEFAULT_STAFFING_RULES, StaffingRules } from "@/services/staffing"
+import { Hospital } from "@/types/hospital"
+
+interface HospitalHistoryState {
+  base: Hospital | null
+  // When the base snapshot was loaded, in epoch ms
+  loadedAt: number
+  // Applied events, in the order they happened
+  events: HospitalEvent[]
+  // Undone local events, most recent last
+  redoStack: HospitalEvent[]
+}
+
+const initialState: HospitalHistoryState = { base: null, loadedAt: 0, events: [], redoStack: [] }
+
+const findLastLocalIndex = (events: HospitalEvent[]) => {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].origin === "local") return i
+  }
+  return -1
+}
+
+// Staff assignments are held to the staffing rules, the same ones the view checks before dispatching
+export function useHospitalHistory(actor: string, staffingRules: StaffingRules = DEFAULT_STAFFING_RULES) {
+  const [state, setState] = React.useState<HospitalHistoryState>(initialState)
+
+  const hospital = React.useMemo(
+    () => state.base ? replayHospitalEvents(state.base, state.events, staffingRules) : null,
+    [state.base, state.events, staffingRules]
+  )
+
+  // State after the first eventCount events, for replaying history
+  const getHospitalAt = React.useCallback(
+    (eventCount: number) => state.base ? replayHospitalEvents(state.base, state.events.slice(0, eventCount), staffingRules) : null,
+    [state.base, state.events, staffingRules]
+  )
+
+  // Start a new history on top of a freshly loaded snapshot
+  const reset = React.useCallback((base: Hospital) => {
+    setState({ base, loadedAt: Date.now(), events: [], redoStack: [] })
+  }, [])
+
+  // Record a local change; throws HospitalOperationError (and records nothing) if it cannot be applied
+  const dispatch = React.useCallback((change: HospitalChange): Hospital => {
+    if (!hospital) {
+      throw new Error("Hospital data has not been loaded yet")
+    }
+
+    const event = createHospitalEvent(change, actor)
+    const updatedHospital = applyHospitalEvent(hospital, event, staffingRules)
+
+    setState(prev => ({ ...prev, events: [...prev.events, event], redoStack: [] }))
+
+    return updatedHospital
+  }, [hospital, actor, staffingRules])
+
+  // Record a change pushed by the live feed; it is never undone and keeps the redo stack intact
+  const receive = React.useCallback((change: HospitalChange, source: string) => {
+    setState(prev => prev.base
+      ? { ...prev, events: [...prev.events, createHospitalEvent(change, source, "live")] }
+      : prev
+    )
+  }, [])
+
+  // Revert the most recent local event; later live events stay applied
+  const undo = React.useCallback(() => {
+    setState(prev => {
+      const index = findLastLocalIndex(prev.events)
+      if (index === -1) return prev
+
+      return {
+        ...prev,
+        events: [...prev.events.slice(0, index), ...prev.events.slice(index + 1)],
+        redoStack: [...prev.redoStack, prev.events[index]],
+      }
+    })
+  }, [])
+
+  // Perform the last undone change again, now; throws HospitalOperationError if it no longer applies
+  const redo = React.useCallback((): Hospital | null => {
+    const undone = state.redoStack[state.redoStack.length - 1]
+    if (!undone || !hospital) return null
+
+    const event = createHospitalEvent(getEventChange(undone), undone.actor)
+    let updatedHospital: Hospital
+    try {
+      updatedHospital = applyHospitalEvent(hospital, event, staffingRules)
+    } catch (error) {
+      // Live updates made the change impossible; it cannot be redone any more
+      setState(prev => ({ ...prev, redoStack: [] }))
+      throw error
+    }
+
+    setState(prev => ({
+      ...prev,
+      events: [...prev.events, event],
+      redoStack: prev.redoStack.slice(0, -1),
+    }))
+    return updatedHospital
+  }, [state.redoStack, hospital, staffingRules])
+
+  const lastLocalIndex = findLastLocalIndex(state.events)
+
+  return {
+    hospital,
+    base: state.base,
+    loadedAt: state.loadedAt,
+    events: state.events,
+    canUndo: lastLocalIndex !== -1,
+    canRedo: state.redoStack.length > 0,
+    // The event an undo would revert and the one a redo would perform again
+    lastEvent: lastLocalIndex !== -1 ? state.events[lastLocalIndex] : null,
+    nextEvent: state.redoStack.length > 0 ? state.redoStack[state.redoStack.length - 1] : null,
+    getHospitalAt,
+    reset,
+    dispatch,
+    receive,
+    undo,
+    redo,
+  }
+}
@@ -0,0 +1,41 @@
+import * as React from "react"
+
+import {
+  createLiveUpdateClient,
+  LiveConnectionState,
+  LiveUpdateConfig,
+  LiveUpdateMessage,
+} from "@/services/liveUpdates"
+
+const disabledState: LiveConnectionState = { status: "disabled", transport: null }
+
+// Subscribe to the live feed for as long as the component is mounted
+export function useLiveUpdates(config: LiveUpdateConfig | null, onMessage: (message: LiveUpdateMessage) => void) {
+  const [state, setState] = React.useState<LiveConnectionState>(disabledState)
+  const onMessageRef = React.useRef(onMessage)
+
+  React.useEffect(() => {
+    onMessageRef.current = onMessage
+  }, [onMessage])
+
+  const websocketUrl = config?.websocketUrl
+  const sseUrl = config?.sseUrl
+
+  React.useEffect(() => {
+    if (!websocketUrl && !sseUrl) {
+      setState(disabledState)
+      return
+    }
+
+    const client = createLiveUpdateClient({
+      websocketUrl,
+      sseUrl,
+      onMessage: (message) => onMessageRef.current(message),
+      onStateChange: setState,
+    })
+
+    return () => client.close()
+  }, [websocketUrl, sseUrl])
+
+  return state
+}
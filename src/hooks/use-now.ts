@@ -0,0 +1,13 @@
+import * as React from "react"
+
+// Current time in epoch ms, refreshed every intervalMs so time-based UI (e.g. overdue cleaning) stays current
+export function useNow(intervalMs: number = 30_000) {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs)
+    return () => window.clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,68 @@
+import * as React from "react"
+import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom"
+import {
+  CameraPreset,
+  findMissingViewEntity,
+  getViewPath,
+  parseViewRoute,
+  ViewSelection,
+  writeCameraPresetToSearchParams,
+} from "@/services/viewRoute"
+import { Hospital } from "@/types/hospital"
+
+// Floor, selection and camera preset live in the URL, so a view can be shared and browser
+// back/forward step through earlier selections
+export function useViewRoute(hospital: Hospital | null) {
+  const { floorId, entity, entityId } = useParams()
+  const location = useLocation()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const route = React.useMemo(
+    () => parseViewRoute({ floorId, entity, entityId }, searchParams),
+    [floorId, entity, entityId, searchParams]
+  )
+  const missingEntity = React.useMemo(
+    () => hospital ? findMissingViewEntity(hospital, route) : null,
+    [hospital, route]
+  )
+
+  // Each selection pushes a history entry; the query (filters, camera) is carried over
+  const navigateToView = React.useCallback((
+    nextFloorId: string | null,
+    selection: ViewSelection | null,
+    options?: { replace?: boolean }
+  ) => {
+    navigate({ pathname: getViewPath(nextFloorId, selection), search: location.search }, options)
+  }, [navigate, location.search])
+
+  const setCameraPreset = React.useCallback((camera: CameraPreset) => {
+    setSearchParams(params => writeCameraPresetToSearchParams(params, camera), { replace: true })
+  }, [setSearchParams])
+
+  // A location is checked against the hospital it is first shown with: ids that hospital does not know
+  // make a broken link, while entities that disappear later (e.g. an undone admission) just drop out
+  const [brokenLinkKey, setBrokenLinkKey] = React.useState<string | null>(null)
+  const checkedLocationKeyRef = React.useRef<string | null>(null)
+  React.useEffect(() => {
+    if (!hospital) return
+
+    if (checkedLocationKeyRef.current !== location.key) {
+      checkedLocationKeyRef.current = location.key
+      setBrokenLinkKey(missingEntity ? location.key : null)
+    } else if (missingEntity && brokenLinkKey !== location.key) {
+      navigateToView(missingEntity.type === "floor" ? null : route.floorId, null, { replace: true })
+    }
+  }, [hospital, missingEntity, location.key, brokenLinkKey, navigateToView, route.floorId])
+
+  // Until the effect above has run for a new location, a missing entity counts as a broken link
+  const isBrokenLink = missingEntity !== null &&
+    (brokenLinkKey === location.key || checkedLocationKeyRef.current !== location.key)
+
+  return {
+    route,
+    navigateToView,
+    setCameraPreset,
+    brokenLink: isBrokenLink ? missingEntity : null,
+  }
+}
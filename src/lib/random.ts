@@ -0,0 +1,64 @@
+export type Seed = number | string
+
+export interface Random {
+  seed: number
+  next: () => number
+  int: (maxExclusive: number) => number
+  pick: <T>(items: readonly T[]) => T
+  shuffle: <T>(items: readonly T[]) => T[]
+  id: (length?: number) => string
+}
+
+// FNV-1a, so string seeds like "demo" map to a stable 32-bit integer
+function hashSeed(seed: Seed): number {
+  if (typeof seed === "number") return seed >>> 0
+
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff)
+}
+
+// Small deterministic PRNG (mulberry32): the same seed always yields the same sequence
+export function createRandom(seed: Seed): Random {
+  const normalizedSeed = hashSeed(seed)
+  let state = normalizedSeed
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const int = (maxExclusive: number) => Math.floor(next() * maxExclusive)
+
+  return {
+    seed: normalizedSeed,
+    next,
+    int,
+    pick: (items) => items[int(items.length)],
+    shuffle: (items) => {
+      const result = [...items]
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = int(i + 1)
+        ;[result[i], result[j]] = [result[j], result[i]]
+      }
+      return result
+    },
+    id: (length = 7) => {
+      let value = ""
+      while (value.length < length) {
+        value += int(36).toString(36)
+      }
+      return value
+    },
+  }
+}
@@ -3,8 +3,12 @@ import { Hospital, Moon, Sun } from "lucide-react";
 import HospitalIsometricView from "@/components/HospitalIsometricView";
 import { Switch } from "@/components/ui/switch";
 import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { parseSelectionSegment } from "@/services/viewRoute";
+import NotFound from "./NotFound";
 
 const Index = () => {
+  const { entity } = useParams();
   const [isDarkMode, setIsDarkMode] = useState(true);
 
   // Initialize dark mode based on system preferences
@@ -21,6 +25,11 @@ const Index = () => {
     document.documentElement.classList.toggle('dark', !isDarkMode);
   };
 
+  // The /:entity/:entityId route matches any two segments; only the known entity types are views
+  if (entity && !parseSelectionSegment(entity)) {
+    return <NotFound />;
+  }
+
   return (
     <div className="container mx-auto py-8 px-4 max-w-7xl transition-colors duration-300">
       <div className="mb-8 text-center">
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData, HospitalOperationError } from "./hospitalDataService";
+import {
+  admitQueuedPatient,
+  cancelAdmission,
+  getAdmissionQueueSummary,
+  getQueuedAdmissionType,
+  getSuitableBeds,
+  queueAdmission,
+  releaseReservation,
+  reserveBed,
+} from "./admissionQueue";
+import { validateHospital } from "./hospitalValidator";
+
+const at = new Date("2025-01-02T08:00:00.000Z");
+const hospital: Hospital = queueAdmission(
+  generateHospitalData({ seed: "queue", pendingAdmissionCount: 0 }),
+  { patientName: "Alex Morgan", source: "emergency", floorType: "General", isolation: false },
+  "admission-1",
+  at
+);
+const [bed] = getSuitableBeds(hospital, hospital.pendingAdmissions[0]);
+
+describe("queueAdmission", () => {
+  it("adds the patient to the queue at the given time", () => {
+    expect(hospital.pendingAdmissions).toEqual([
+      expect.objectContaining({ id: "admission-1", patientName: "Alex Morgan", requestedAt: at.toISOString() }),
+    ]);
+  });
+
+  it("needs a patient name and a new id", () => {
+    const request = { patientName: " ", source: "transfer" as const, floorType: "ICU" as const, isolation: false };
+    expect(() => queueAdmission(hospital, request)).toThrow(HospitalOperationError);
+    expect(() => queueAdmission(hospital, { ...request, patientName: "Sam" }, "admission-1")).toThrow(HospitalOperationError);
+  });
+});
+
+describe("reservations", () => {
+  const reserved = reserveBed(hospital, "admission-1", bed.id, at);
+
+  it("holds the bed for the queued patient", () => {
+    expect(reserved.beds.find(b => b.id === bed.id)?.status).toBe("reserved");
+    expect(reserved.pendingAdmissions[0].reservedBedId).toBe(bed.id);
+    expect(validateHospital(reserved)).toEqual([]);
+  });
+
+  it("only reserves beds on the requested kind of floor", () => {
+    const otherFloorBed = hospital.beds.find(b => b.status === "available" && b.floor !== "General");
+    expect(() => reserveBed(hospital, "admission-1", otherFloorBed.id, at)).toThrow(HospitalOperationError);
+  });
+
+  it("gives the bed back when released or cancelled", () => {
+    const released = releaseReservation(reserved, "admission-1", at);
+    expect(released.beds.find(b => b.id === bed.id)?.status).toBe("available");
+    expect(released.pendingAdmissions).toHaveLength(1);
+
+    const cancelled = cancelAdmission(reserved, "admission-1", at);
+    expect(cancelled.beds.find(b => b.id === bed.id)?.status).toBe("available");
+    expect(cancelled.pendingAdmissions).toEqual([]);
+  });
+
+  it("admits the patient to the reserved bed and takes them off the queue", () => {
+    expect(() => admitQueuedPatient(hospital, "admission-1", "patient-queued", at)).toThrow(HospitalOperationError);
+
+    const admitted = admitQueuedPatient(reserved, "admission-1", "patient-queued", at);
+    expect(admitted.pendingAdmissions).toEqual([]);
+    expect(admitted.patients.find(p => p.id === "patient-queued")).toMatchObject({ bedId: bed.id, admissionType: "Emergency" });
+    expect(validateHospital(admitted)).toEqual([]);
+  });
+});
+
+describe("getQueuedAdmissionType", () => {
+  it("admits to ICU and surgery floors as patients of that floor, and from the ED as emergencies", () => {
+    const admission = hospital.pendingAdmissions[0];
+    expect(getQueuedAdmissionType({ ...admission, floorType: "ICU" })).toBe("ICU");
+    expect(getQueuedAdmissionType({ ...admission, source: "elective-surgery", floorType: "Surgery" })).toBe("Surgery");
+    expect(getQueuedAdmissionType(admission)).toBe("Emergency");
+    expect(getQueuedAdmissionType({ ...admission, source: "transfer" })).toBe("General");
+  });
+});
+
+describe("getAdmissionQueueSummary", () => {
+  it("reports wait times per kind of floor", () => {
+    const now = at.getTime() + 30 * 60 * 1000;
+    const general = getAdmissionQueueSummary(hospital, now).find(entry => entry.floorType === "General");
+    expect(general).toMatchObject({ reservedCount: 0, longestWaitMs: 30 * 60 * 1000, averageWaitMs: 30 * 60 * 1000 });
+    expect(general.admissions.map(a => a.id)).toEqual(["admission-1"]);
+  });
+});
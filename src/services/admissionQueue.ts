@@ -0,0 +1,181 @@
+import { AdmissionSource, AdmissionType, Bed, Floor, FloorType, Hospital, PendingAdmission } from "@/types/hospital";
+import { admitPatient, HospitalOperationError } from "./hospitalDataService";
+import { withBedStatus } from "./bedStatusMachine";
+
+export const ADMISSION_SOURCES: AdmissionSource[] = ['emergency', 'transfer', 'elective-surgery'];
+
+export const ADMISSION_SOURCE_LABELS: Record<AdmissionSource, string> = {
+  emergency: 'ED',
+  transfer: 'Transfer',
+  'elective-surgery': 'Elective surgery',
+};
+
+// What is asked for when a patient joins the queue
+export type AdmissionRequest = Pick<PendingAdmission, 'patientName' | 'source' | 'floorType' | 'isolation' | 'diagnosis'>;
+
+export const createAdmissionRequestId = (): string => `admission-${Math.random().toString(36).substring(2, 9)}`;
+
+const findAdmission = (hospital: Hospital, admissionId: string): PendingAdmission => {
+  const admission = hospital.pendingAdmissions?.find(a => a.id === admissionId);
+  if (!admission) {
+    throw new HospitalOperationError(`Admission request ${admissionId} is not in the queue`);
+  }
+  return admission;
+};
+
+const withAdmission = (hospital: Hospital, admission: PendingAdmission): Hospital => ({
+  ...hospital,
+  pendingAdmissions: (hospital.pendingAdmissions ?? []).map(a => (a.id === admission.id ? admission : a)),
+});
+
+// Queued patients are admitted to ICU and surgery beds as patients of that floor, and from the ED as emergencies
+export const getQueuedAdmissionType = ({ source, floorType }: PendingAdmission): AdmissionType => {
+  if (floorType === 'ICU' || floorType === 'Surgery') return floorType;
+  return source === 'emergency' ? 'Emergency' : 'General';
+};
+
+// The queued admission a bed is held for, if any
+export const getBedReservation = (hospital: Hospital, bedId: string): PendingAdmission | undefined =>
+  hospital.pendingAdmissions?.find(admission => admission.reservedBedId === bedId);
+
+// A bed on the right kind of floor, in an isolation room when the patient needs one
+export const isBedSuitable = (hospital: Hospital, bed: Bed, admission: PendingAdmission): boolean => {
+  if (bed.floor !== admission.floorType) return false;
+  if (!admission.isolation) return true;
+  return hospital.rooms.some(room => room.id === bed.roomId && room.isolation);
+};
+
+// Available beds that can be reserved for the admission
+export const getSuitableBeds = (hospital: Hospital, admission: PendingAdmission): Bed[] =>
+  hospital.beds.filter(bed => bed.status === 'available' && !bed.patientId && isBedSuitable(hospital, bed, admission));
+
+export const queueAdmission = (
+  hospital: Hospital,
+  request: AdmissionRequest,
+  admissionId: string = createAdmissionRequestId(),
+  at: Date = new Date()
+): Hospital => {
+  if (!request.patientName.trim()) {
+    throw new HospitalOperationError('A queued admission needs a patient name');
+  }
+  if (hospital.pendingAdmissions?.some(a => a.id === admissionId)) {
+    throw new HospitalOperationError(`Admission request ${admissionId} already exists`);
+  }
+
+  return {
+    ...hospital,
+    pendingAdmissions: [
+      ...(hospital.pendingAdmissions ?? []),
+      {
+        id: admissionId,
+        patientName: request.patientName.trim(),
+        source: request.source,
+        floorType: request.floorType,
+        isolation: request.isolation,
+        requestedAt: at.toISOString(),
+        diagnosis: request.diagnosis?.trim() || undefined,
+      },
+    ],
+  };
+};
+
+// Hold an available bed for a queued patient; a bed already held for them is given back
+export const reserveBed = (hospital: Hospital, admissionId: string, bedId: string, at: Date = new Date()): Hospital => {
+  const admission = findAdmission(hospital, admissionId);
+  const bed = hospital.beds.find(b => b.id === bedId);
+  if (!bed) {
+    throw new HospitalOperationError(`Bed ${bedId} does not exist`);
+  }
+  if (admission.reservedBedId === bedId) {
+    return hospital;
+  }
+  if (bed.status !== 'available' || bed.patientId) {
+    throw new HospitalOperationError(`Bed ${bedId} is not available`);
+  }
+  if (bed.floor !== admission.floorType) {
+    throw new HospitalOperationError(`${admission.patientName} needs a bed on a ${admission.floorType} floor`);
+  }
+  if (!isBedSuitable(hospital, bed, admission)) {
+    throw new HospitalOperationError(`${admission.patientName} needs a bed in an isolation room`);
+  }
+
+  const released = admission.reservedBedId ? releaseReservation(hospital, admissionId, at) : hospital;
+  return {
+    ...withAdmission(released, { ...admission, reservedBedId: bedId, reservedAt: at.toISOString() }),
+    beds: released.beds.map(b => (b.id === bedId ? withBedStatus(b, 'reserved', at) : b)),
+  };
+};
+
+// Give the bed held for a queued patient back; the patient stays in the queue
+export const releaseReservation = (hospital: Hospital, admissionId: string, at: Date = new Date()): Hospital => {
+  const admission = findAdmission(hospital, admissionId);
+  if (!admission.reservedBedId) {
+    throw new HospitalOperationError(`No bed is reserved for ${admission.patientName}`);
+  }
+
+  const bedId = admission.reservedBedId;
+  return {
+    ...withAdmission(hospital, { ...admission, reservedBedId: undefined, reservedAt: undefined }),
+    beds: hospital.beds.map(bed => (bed.id === bedId && bed.status === 'reserved' ? withBedStatus(bed, 'available', at) : bed)),
+  };
+};
+
+// Take a patient off the queue without admitting them, giving back their bed
+export const cancelAdmission = (hospital: Hospital, admissionId: string, at: Date = new Date()): Hospital => {
+  const admission = findAdmission(hospital, admissionId);
+  const released = admission.reservedBedId ? releaseReservation(hospital, admissionId, at) : hospital;
+  return {
+    ...released,
+    pendingAdmissions: released.pendingAdmissions.filter(a => a.id !== admissionId),
+  };
+};
+
+// Admit a queued patient to the bed reserved for them
+export const admitQueuedPatient = (hospital: Hospital, admissionId: string, patientId: string, at: Date = new Date()): Hospital => {
+  const admission = findAdmission(hospital, admissionId);
+  if (!admission.reservedBedId) {
+    throw new HospitalOperationError(`Reserve a bed for ${admission.patientName} first`);
+  }
+
+  const dequeued = { ...hospital, pendingAdmissions: hospital.pendingAdmissions.filter(a => a.id !== admissionId) };
+  return admitPatient(dequeued, admission.reservedBedId, {
+    name: admission.patientName,
+    admissionType: getQueuedAdmissionType(admission),
+    diagnosis: admission.diagnosis,
+  }, patientId, at);
+};
+
+export interface AdmissionQueueSummary {
+  floorType: FloorType;
+  floors: Floor[];
+  admissions: PendingAdmission[]; // longest waiting first
+  reservedCount: number;
+  // Beds that could still be reserved on these floors
+  availableBedCount: number;
+  longestWaitMs: number;
+  averageWaitMs: number;
+}
+
+// Queue length and wait times per kind of floor, in floor order; patients wait until they are admitted,
+// whether or not a bed is reserved for them
+export const getAdmissionQueueSummary = (hospital: Hospital, now: number): AdmissionQueueSummary[] => {
+  const floorTypes = [...new Set([...hospital.floors].sort((a, b) => a.level - b.level).map(floor => floor.type))];
+  const admissions = hospital.pendingAdmissions ?? [];
+
+  return floorTypes.map(floorType => {
+    const queued = admissions
+      .filter(admission => admission.floorType === floorType)
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+    const waits = queued.map(admission => Math.max(0, now - new Date(admission.requestedAt).getTime()));
+
+    return {
+      floorType,
+      floors: hospital.floors.filter(floor => floor.type === floorType).sort((a, b) => a.level - b.level),
+      admissions: queued,
+      reservedCount: queued.filter(admission => admission.reservedBedId).length,
+      availableBedCount: hospital.beds.filter(bed => bed.floor === floorType && bed.status === 'available' && !bed.patientId).length,
+      longestWaitMs: waits.length > 0 ? Math.max(...waits) : 0,
+      averageWaitMs: waits.length > 0 ? waits.reduce((sum, wait) => sum + wait, 0) / waits.length : 0,
+    };
+  });
+};
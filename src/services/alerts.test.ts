@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData } from "./hospitalDataService";
+import { DEFAULT_ALERT_RULES, evaluateAlerts, getAlertBeacons, HospitalAlert, isAlertActive, syncAlertStates } from "./alerts";
+
+const base = generateHospitalData({ seed: "alerts" });
+const now = new Date("2025-01-02T08:00:00.000Z").getTime();
+const minutes = (count: number) => count * 60 * 1000;
+
+// A quiet hospital: nobody critical, no beds being cleaned and no equipment offline
+const quiet: Hospital = {
+  ...base,
+  patients: base.patients.map(patient => ({ ...patient, status: patient.status === "critical" ? "stable" : patient.status, vitals: undefined })),
+  beds: base.beds.map(bed => (bed.status === "cleaning" ? { ...bed, status: "available" } : bed)),
+  equipment: base.equipment.map(item => ({ ...item, status: "working" })),
+};
+const rules = { ...DEFAULT_ALERT_RULES, occupancyThreshold: null };
+const patient = quiet.patients.find(p => p.bedId);
+const emptyBed = quiet.beds.find(bed => bed.status === "available");
+
+describe("evaluateAlerts", () => {
+  it("raises nothing for a quiet hospital", () => {
+    expect(evaluateAlerts(quiet, now, rules)).toEqual([]);
+  });
+
+  it("raises critical patients first, with a beacon over their bed", () => {
+    const hospital: Hospital = {
+      ...quiet,
+      patients: quiet.patients.map(p => (p.id === patient.id ? { ...p, status: "critical" } : p)),
+      equipment: quiet.equipment.map((item, index) => (index === 0 ? { ...item, status: "offline" } : item)),
+    };
+    const alerts = evaluateAlerts(hospital, now, rules);
+    expect(alerts.map(alert => alert.id)).toEqual([`patient-critical:${patient.id}`, `equipment-offline:${quiet.equipment[0].id}`]);
+    expect(alerts[0]).toMatchObject({ severity: "critical", target: { type: "patient", id: patient.id }, bedId: patient.bedId });
+  });
+
+  it("raises a cleaning alert only once the cleaning time has passed", () => {
+    const cleaningSince = (startedAt: number): Hospital => ({
+      ...quiet,
+      beds: quiet.beds.map(bed => (bed.id === emptyBed.id ? { ...bed, status: "cleaning", statusChangedAt: new Date(startedAt).toISOString() } : bed)),
+    });
+    expect(evaluateAlerts(cleaningSince(now - minutes(5)), now, rules)).toEqual([]);
+    expect(evaluateAlerts(cleaningSince(now - minutes(24 * 60)), now, rules)).toEqual([
+      expect.objectContaining({ id: `cleaning-overdue:${emptyBed.id}`, rule: "cleaning-overdue", bedId: emptyBed.id }),
+    ]);
+  });
+
+  it("raises floors above the occupancy threshold, and leaves out rules that are off", () => {
+    const floor = quiet.floors[0];
+    const alerts = evaluateAlerts(quiet, now, { ...rules, occupancyThreshold: 0 });
+    expect(alerts.map(alert => alert.target)).toContainEqual({ type: "floor", id: floor.id });
+
+    const critical: Hospital = { ...quiet, patients: quiet.patients.map(p => (p.id === patient.id ? { ...p, status: "critical" } : p)) };
+    expect(evaluateAlerts(critical, now, { ...rules, patientCritical: false })).toEqual([]);
+  });
+});
+
+describe("getAlertBeacons", () => {
+  it("shows one beacon per bed, in the color of its most severe alert", () => {
+    const alert = (id: string, severity: HospitalAlert["severity"], bedId?: string) => ({ id, severity, bedId }) as HospitalAlert;
+    expect(getAlertBeacons([alert("a", "warning", "bed-1"), alert("b", "critical", "bed-1"), alert("c", "warning", "bed-2"), alert("d", "critical")])).toEqual([
+      { bedId: "bed-1", severity: "critical" },
+      { bedId: "bed-2", severity: "warning" },
+    ]);
+  });
+});
+
+describe("alert states", () => {
+  const alert = { id: "equipment-offline:monitor-1" } as HospitalAlert;
+
+  it("tracks raised alerts and forgets cleared ones", () => {
+    const raised = syncAlertStates({}, [alert], now);
+    expect(raised).toEqual({ [alert.id]: { raisedAt: now, acknowledged: false, snoozedUntil: null } });
+    expect(syncAlertStates(raised, [alert], now + minutes(1))).toBe(raised);
+    expect(syncAlertStates(raised, [], now + minutes(1))).toEqual({});
+  });
+
+  it("treats an alert that comes back after clearing as newly raised", () => {
+    const acknowledged = { [alert.id]: { raisedAt: now, acknowledged: true, snoozedUntil: null } };
+    const cleared = syncAlertStates(acknowledged, [], now + minutes(1));
+    expect(syncAlertStates(cleared, [alert], now + minutes(2))[alert.id]).toEqual({ raisedAt: now + minutes(2), acknowledged: false, snoozedUntil: null });
+  });
+
+  it("keeps snoozed alerts quiet until the snooze runs out", () => {
+    const snoozed = { raisedAt: now, acknowledged: false, snoozedUntil: now + minutes(15) };
+    expect(isAlertActive(snoozed, now + minutes(10))).toBe(false);
+    expect(isAlertActive(snoozed, now + minutes(15))).toBe(true);
+    expect(isAlertActive({ ...snoozed, snoozedUntil: null, acknowledged: true }, now)).toBe(false);
+    expect(isAlertActive(undefined, now)).toBe(true);
+  });
+});
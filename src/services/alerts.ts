@@ -0,0 +1,159 @@
+import { Hospital } from "@/types/hospital";
+import { getCleaningDeadline } from "./bedStatusMachine";
+import { getPatientNews2, getPatientSeverity } from "./clinical";
+import { EQUIPMENT_TYPE_LABELS } from "./equipment";
+
+export type AlertRule = 'patient-critical' | 'cleaning-overdue' | 'occupancy-high' | 'equipment-offline';
+
+export type AlertSeverity = 'critical' | 'warning';
+
+export interface AlertRules {
+  // An admitted patient marked critical, or at high NEWS2 risk
+  patientCritical: boolean;
+  // A bed still being cleaned after its floor's cleaning time
+  cleaningOverdue: boolean;
+  // A floor with more than this share of its beds occupied (0–1); null turns the rule off
+  occupancyThreshold: number | null;
+  equipmentOffline: boolean;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  patientCritical: true,
+  cleaningOverdue: true,
+  occupancyThreshold: 0.9,
+  equipmentOffline: true,
+};
+
+// What the alert is about, e.g. to select it when the alert is clicked
+export interface AlertTarget {
+  type: 'patient' | 'bed' | 'equipment' | 'floor';
+  id: string;
+}
+
+// An alert lasts as long as its condition holds; the id is the same for as long as it does, so an
+// alert that clears and comes back later is a new alert
+export interface HospitalAlert {
+  id: string;
+  rule: AlertRule;
+  severity: AlertSeverity;
+  title: string;
+  description: string;
+  target: AlertTarget;
+  // The bed a beacon is shown over, if the alert has one
+  bedId?: string;
+}
+
+// Every alert whose condition holds right now, most severe first
+export const evaluateAlerts = (hospital: Hospital, now: number, rules: AlertRules = DEFAULT_ALERT_RULES): HospitalAlert[] => {
+  const alerts: HospitalAlert[] = [];
+
+  if (rules.patientCritical) {
+    hospital.patients
+      .filter(patient => patient.bedId && getPatientSeverity(patient) === 'critical')
+      .forEach(patient => {
+        const news2 = getPatientNews2(patient);
+        alerts.push({
+          id: `patient-critical:${patient.id}`,
+          rule: 'patient-critical',
+          severity: 'critical',
+          title: `${patient.name} is critical`,
+          description: patient.status === 'critical'
+            ? `Marked critical in ${patient.bedId}`
+            : `NEWS2 ${news2?.total} (high risk) in ${patient.bedId}`,
+          target: { type: 'patient', id: patient.id },
+          bedId: patient.bedId,
+        });
+      });
+  }
+
+  if (rules.cleaningOverdue) {
+    hospital.beds.forEach(bed => {
+      const deadline = getCleaningDeadline(bed);
+      if (deadline === null || now <= deadline) return;
+      alerts.push({
+        id: `cleaning-overdue:${bed.id}`,
+        rule: 'cleaning-overdue',
+        severity: 'warning',
+        title: `Cleaning overdue in ${bed.id}`,
+        description: `${bed.room}, overdue by ${Math.max(1, Math.round((now - deadline) / 60000))} min`,
+        target: { type: 'bed', id: bed.id },
+        bedId: bed.id,
+      });
+    });
+  }
+
+  if (rules.occupancyThreshold !== null) {
+    hospital.floors.forEach(floor => {
+      if (floor.beds.length === 0) return;
+      const occupied = hospital.beds.filter(bed => floor.beds.includes(bed.id) && bed.status === 'occupied').length;
+      const occupancy = occupied / floor.beds.length;
+      if (occupancy <= rules.occupancyThreshold) return;
+      alerts.push({
+        id: `occupancy-high:${floor.id}`,
+        rule: 'occupancy-high',
+        severity: occupied === floor.beds.length ? 'critical' : 'warning',
+        title: `${floor.name} at ${Math.round(occupancy * 100)}% occupancy`,
+        description: `${occupied} of ${floor.beds.length} beds occupied (threshold ${Math.round(rules.occupancyThreshold * 100)}%)`,
+        target: { type: 'floor', id: floor.id },
+      });
+    });
+  }
+
+  if (rules.equipmentOffline) {
+    hospital.equipment
+      .filter(item => item.status === 'offline')
+      .forEach(item => {
+        alerts.push({
+          id: `equipment-offline:${item.id}`,
+          rule: 'equipment-offline',
+          severity: 'warning',
+          title: `${item.name} is offline`,
+          description: `${EQUIPMENT_TYPE_LABELS[item.type]} in ${item.bedId ?? item.room}`,
+          target: { type: 'equipment', id: item.id },
+          bedId: item.bedId,
+        });
+      });
+  }
+
+  return alerts.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+};
+
+// A pulsing beacon over a bed, in the color of the most severe alert on it
+export interface AlertBeacon {
+  bedId: string;
+  severity: AlertSeverity;
+}
+
+export const getAlertBeacons = (alerts: HospitalAlert[]): AlertBeacon[] => {
+  const severities = new Map<string, AlertSeverity>();
+  alerts.forEach(({ bedId, severity }) => {
+    if (bedId && severities.get(bedId) !== 'critical') severities.set(bedId, severity);
+  });
+  return [...severities].map(([bedId, severity]) => ({ bedId, severity }));
+};
+
+// What the user did with an alert; kept only while the alert is raised
+export interface AlertState {
+  raisedAt: number;
+  acknowledged: boolean;
+  snoozedUntil: number | null;
+}
+
+export type AlertStates = Record<string, AlertState>;
+
+// Start tracking newly raised alerts and forget the ones that cleared; the same object is returned
+// when nothing changed
+export const syncAlertStates = (states: AlertStates, alerts: HospitalAlert[], now: number): AlertStates => {
+  const ids = new Set(alerts.map(alert => alert.id));
+  const isUnchanged = alerts.every(alert => states[alert.id]) && Object.keys(states).every(id => ids.has(id));
+  if (isUnchanged) return states;
+
+  return Object.fromEntries(alerts.map(alert => [
+    alert.id,
+    states[alert.id] ?? { raisedAt: now, acknowledged: false, snoozedUntil: null },
+  ]));
+};
+
+// Active alerts are neither acknowledged nor snoozed; they show a beacon and count as unread
+export const isAlertActive = (state: AlertState | undefined, now: number): boolean =>
+  !state || (!state.acknowledged && (state.snoozedUntil === null || state.snoozedUntil <= now));
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { Bed } from "@/types/hospital";
+import { canTransitionBed, getCleaningDeadline, isCleaningOverdue, withBedStatus } from "./bedStatusMachine";
+
+const bed: Bed = {
+  id: "bed-1",
+  position: { x: 0, y: 0, z: 0 },
+  status: "available",
+  floor: "ICU",
+  room: "Room 1",
+};
+
+describe("canTransitionBed", () => {
+  it("follows the available -> occupied -> cleaning -> available cycle", () => {
+    expect(canTransitionBed("available", "occupied")).toBe(true);
+    expect(canTransitionBed("occupied", "cleaning")).toBe(true);
+    expect(canTransitionBed("cleaning", "available")).toBe(true);
+  });
+
+  it("refuses to skip cleaning after a patient leaves", () => {
+    expect(canTransitionBed("occupied", "available")).toBe(false);
+    expect(canTransitionBed("cleaning", "occupied")).toBe(false);
+  });
+});
+
+describe("withBedStatus", () => {
+  it("records the transition at the given time", () => {
+    const at = new Date("2025-01-01T10:00:00.000Z");
+    const occupied = withBedStatus(bed, "occupied", at);
+    expect(occupied.status).toBe("occupied");
+    expect(occupied.statusChangedAt).toBe(at.toISOString());
+    expect(occupied.statusHistory).toEqual([{ from: "available", to: "occupied", at: at.toISOString() }]);
+  });
+
+  it("leaves a bed already in the status untouched", () => {
+    expect(withBedStatus(bed, "available")).toBe(bed);
+  });
+});
+
+describe("cleaning deadlines", () => {
+  const cleaning = withBedStatus({ ...bed, status: "occupied" }, "cleaning", new Date("2025-01-01T10:00:00.000Z"));
+
+  it("expects cleaning to take the floor's cleaning time", () => {
+    expect(getCleaningDeadline(cleaning)).toBe(Date.parse("2025-01-01T11:00:00.000Z"));
+    expect(getCleaningDeadline(bed)).toBeNull();
+  });
+
+  it("flags cleaning as overdue only past the deadline", () => {
+    expect(isCleaningOverdue(cleaning, Date.parse("2025-01-01T10:59:00.000Z"))).toBe(false);
+    expect(isCleaningOverdue(cleaning, Date.parse("2025-01-01T11:01:00.000Z"))).toBe(true);
+  });
+});
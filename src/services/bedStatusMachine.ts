@@ -0,0 +1,57 @@
+
+import { Bed, BedStatus, FloorType } from "@/types/hospital";
+
+// Allowed bed status transitions:
+// available -> reserved -> occupied -> cleaning -> available, with blocked/maintenance as side states
+export const BED_STATUS_TRANSITIONS: Record<BedStatus, BedStatus[]> = {
+  available: ['occupied', 'reserved', 'blocked', 'maintenance'],
+  reserved: ['occupied', 'available'],
+  occupied: ['cleaning'],
+  cleaning: ['available', 'blocked', 'maintenance'],
+  blocked: ['available', 'cleaning'],
+  maintenance: ['cleaning', 'available'],
+};
+
+// Expected cleaning time per floor type, in minutes
+export const CLEANING_DURATION_MINUTES: Record<FloorType, number> = {
+  ICU: 60,
+  Emergency: 30,
+  Surgery: 90,
+  General: 45,
+};
+
+export const BED_STATUS_LABELS: Record<BedStatus, string> = {
+  available: 'Available',
+  occupied: 'Occupied',
+  cleaning: 'Cleaning',
+  reserved: 'Reserved',
+  blocked: 'Blocked',
+  maintenance: 'Maintenance',
+};
+
+export const canTransitionBed = (from: BedStatus, to: BedStatus): boolean =>
+  BED_STATUS_TRANSITIONS[from].includes(to);
+
+// Move a bed to a new status and record the transition; callers are expected to check canTransitionBed first
+export const withBedStatus = (bed: Bed, status: BedStatus, at: Date = new Date()): Bed => {
+  if (bed.status === status) return bed;
+
+  const timestamp = at.toISOString();
+  return {
+    ...bed,
+    status,
+    statusChangedAt: timestamp,
+    statusHistory: [...(bed.statusHistory ?? []), { from: bed.status, to: status, at: timestamp }],
+  };
+};
+
+// When the current cleaning is expected to be finished, or null if the bed is not being cleaned
+export const getCleaningDeadline = (bed: Bed): number | null => {
+  if (bed.status !== 'cleaning' || !bed.statusChangedAt) return null;
+  return new Date(bed.statusChangedAt).getTime() + CLEANING_DURATION_MINUTES[bed.floor] * 60 * 1000;
+};
+
+export const isCleaningOverdue = (bed: Bed, now: number = Date.now()): boolean => {
+  const deadline = getCleaningDeadline(bed);
+  return deadline !== null && now > deadline;
+};
@@ -0,0 +1,36 @@
+import { Patient, VitalSigns } from "@/types/hospital";
+import { getNews2Score, News2Score } from "./news2";
+
+// Observations charted in the patient details
+export type VitalSignKey = 'respiratoryRate' | 'heartRate' | 'systolicBp' | 'spo2' | 'temperature';
+
+export const VITAL_SIGN_LABELS: Record<VitalSignKey, { label: string; unit: string }> = {
+  respiratoryRate: { label: 'Respiratory rate', unit: '/min' },
+  heartRate: { label: 'Heart rate', unit: 'bpm' },
+  systolicBp: { label: 'Blood pressure', unit: 'mmHg' },
+  spo2: { label: 'SpO₂', unit: '%' },
+  temperature: { label: 'Temperature', unit: '°C' },
+};
+
+export const getLatestVitals = (patient: Patient): VitalSigns | undefined =>
+  patient.vitals && patient.vitals.length > 0 ? patient.vitals[patient.vitals.length - 1] : undefined;
+
+// NEWS2 from the latest observations, or null when there are none or the patient has left
+export const getPatientNews2 = (patient: Patient): News2Score | null => {
+  const latest = getLatestVitals(patient);
+  return latest && patient.status !== 'discharged' ? getNews2Score(latest) : null;
+};
+
+// How a patient is drawn: the hand-set status, raised by a worsening NEWS2 risk. High risk shows as
+// critical and medium risk (or a single parameter far out of range) as deteriorating, so a patient
+// marked stable cannot hide bad observations.
+export type PatientSeverity = 'critical' | 'deteriorating' | 'stable' | 'discharged';
+
+export const getPatientSeverity = (patient: Patient): PatientSeverity => {
+  if (patient.status !== 'stable') return patient.status;
+
+  const news2 = getPatientNews2(patient);
+  if (news2?.riskBand === 'high') return 'critical';
+  if (news2?.riskBand === 'medium' || news2?.riskBand === 'low-medium') return 'deteriorating';
+  return 'stable';
+};
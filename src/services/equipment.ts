@@ -0,0 +1,17 @@
+
+import { EquipmentStatus, EquipmentType } from "@/types/hospital";
+
+export const EQUIPMENT_TYPE_LABELS: Record<EquipmentType, string> = {
+  'monitor': 'Patient monitor',
+  'ventilator': 'Ventilator',
+  'ct-scanner': 'CT scanner',
+  'mri': 'MRI scanner',
+  'surgical-lights': 'Surgical lights',
+  'anesthesia-machine': 'Anesthesia machine',
+};
+
+export const EQUIPMENT_STATUS_LABELS: Record<EquipmentStatus, string> = {
+  working: 'Working',
+  maintenance: 'Maintenance',
+  offline: 'Offline',
+};
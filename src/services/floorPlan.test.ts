@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { FloorPlan } from "@/types/floorPlan";
+import { generateHospitalData, HospitalOperationError } from "./hospitalDataService";
+import { applyFloorPlan, exportFloorPlan, FloorPlanError, geoJsonToFloorPlan, parseFloorPlan, validateFloorPlan } from "./floorPlan";
+import { validateHospital } from "./hospitalValidator";
+
+const hospital = generateHospitalData({ seed: "floor-plan", pendingAdmissionCount: 0 });
+const floor = hospital.floors[0];
+const at = new Date("2025-01-02T08:00:00.000Z");
+
+const plan: FloorPlan = {
+  version: 1,
+  floors: [
+    {
+      floorId: floor.id,
+      rooms: [
+        {
+          id: "ward-a",
+          name: "Ward A",
+          kind: "ward",
+          outline: [[-10, -5], [10, -5], [10, 5], [-10, 5]],
+          beds: [{ id: "bed-planned", position: [0, 0] }],
+        },
+      ],
+      beds: [{ id: "bed-hallway", position: [20, 0] }],
+    },
+  ],
+};
+
+describe("validateFloorPlan", () => {
+  it("accepts a well-formed plan", () => {
+    expect(validateFloorPlan(plan)).toEqual([]);
+  });
+
+  it("points at what is wrong", () => {
+    const broken = {
+      version: 1,
+      floors: [{ floorId: "f", rooms: [{ id: "r", name: "R", kind: "ward", outline: [[0, 0], [1, 0], [1, 1]], beds: [{ id: "b", position: [5, 5] }] }] }],
+    };
+    expect(validateFloorPlan(broken)).toEqual([{ path: "floors[0].rooms[0].beds[0].position", message: "is outside room r" }]);
+    expect(() => parseFloorPlan({ version: 2, floors: [] })).toThrow(FloorPlanError);
+  });
+});
+
+describe("geoJsonToFloorPlan", () => {
+  it("reads rooms, beds in rooms and beds outside rooms", () => {
+    const converted = geoJsonToFloorPlan({
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Polygon", coordinates: [[[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]]] },
+          properties: { kind: "room", id: "r1", name: "Room 1", roomKind: "ward", floorId: "f1" },
+        },
+        { type: "Feature", geometry: { type: "Point", coordinates: [1, 1] }, properties: { kind: "bed", id: "b1", roomId: "r1" } },
+        { type: "Feature", geometry: { type: "Point", coordinates: [9, 9] }, properties: { kind: "bed", id: "b2", floorId: "f1" } },
+      ],
+    });
+    expect(converted.floors).toEqual([
+      {
+        floorId: "f1",
+        rooms: [{ id: "r1", name: "Room 1", kind: "ward", outline: [[0, 0], [4, 0], [4, 4], [0, 4]], beds: [{ id: "b1", position: [1, 1] }] }],
+        corridors: [],
+        beds: [{ id: "b2", position: [9, 9] }],
+      },
+    ]);
+  });
+});
+
+describe("applyFloorPlan", () => {
+  it("refuses to drop a bed that holds a patient", () => {
+    expect(() => applyFloorPlan(hospital, plan, at)).toThrow(HospitalOperationError);
+  });
+
+  it("lays out the planned floor, creating new beds", () => {
+    const emptied = {
+      ...hospital,
+      beds: hospital.beds.map(bed => (floor.beds.includes(bed.id) ? { ...bed, patientId: undefined, status: "available" as const } : bed)),
+      patients: hospital.patients.map(patient => (floor.beds.includes(patient.bedId) ? { ...patient, bedId: undefined, status: "discharged" as const, assignedStaffIds: [] } : patient)),
+      staff: hospital.staff.map(member => ({ ...member, assignedPatientIds: member.assignedPatientIds.filter(id => !hospital.patients.some(p => p.id === id && floor.beds.includes(p.bedId))) })),
+    };
+    const applied = applyFloorPlan(emptied, plan, at);
+    expect(applied.floors[0].beds).toEqual(["bed-planned", "bed-hallway"]);
+    expect(applied.beds.find(bed => bed.id === "bed-planned")).toMatchObject({ roomId: "ward-a", status: "available" });
+    expect(applied.beds.find(bed => bed.id === "bed-hallway")?.roomId).toBeUndefined();
+    expect(applied.rooms.filter(room => room.floorId === floor.id)).toEqual([expect.objectContaining({ id: "ward-a", capacity: 1 })]);
+    expect(validateHospital(applied)).toEqual([]);
+  });
+});
+
+describe("exportFloorPlan", () => {
+  it("exports every bed, including beds outside any room", () => {
+    const [first, ...rest] = hospital.beds;
+    const withLooseBed = { ...hospital, beds: [{ ...first, roomId: undefined }, ...rest] };
+    const exported = exportFloorPlan(withLooseBed);
+    const bedIds = exported.floors.flatMap(f => [...f.rooms.flatMap(room => room.beds), ...(f.beds ?? [])]).map(bed => bed.id);
+    expect(bedIds.sort()).toEqual(hospital.beds.map(bed => bed.id).sort());
+    expect(exported.floors.find(f => f.beds)?.beds).toEqual([{ id: first.id, position: [first.position.x, first.position.z] }]);
+  });
+
+  it("round-trips through applyFloorPlan without moving beds, equipment or rooms", () => {
+    const exported = parseFloorPlan(JSON.parse(JSON.stringify(exportFloorPlan(hospital))));
+    const applied = applyFloorPlan(hospital, exported, at);
+    expect(applied.beds).toEqual(hospital.beds);
+    expect(applied.equipment).toEqual(hospital.equipment);
+    expect(applied.rooms.map(room => room.bounds)).toEqual(hospital.rooms.map(room => room.bounds));
+  });
+});
@@ -0,0 +1,511 @@
+
+import { Bed, Equipment, Floor, FloorArea, Hospital, PlanPoint, Room, RoomBounds, RoomKind } from "@/types/hospital";
+import { FloorPlan, FloorPlanBed, FloorPlanCorridor, FloorPlanFloor, FloorPlanRoom, PlanCoordinate } from "@/types/floorPlan";
+import { HospitalOperationError } from "./hospitalDataService";
+import { getBedReservation } from "./admissionQueue";
+import { getRoomOutline, ROOM_KIND_LABELS } from "./rooms";
+
+export interface FloorPlanIssue {
+  path: string; // e.g. floors[0].rooms[2].outline
+  message: string;
+}
+
+// Raised when a floor plan file cannot be read or does not match the format
+export class FloorPlanError extends Error {
+  issues: FloorPlanIssue[];
+
+  constructor(message: string, issues: FloorPlanIssue[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ')}` : message);
+    this.name = 'FloorPlanError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isCoordinate = (value: unknown): value is PlanCoordinate =>
+  Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+export const toPlanPoint = ([x, z]: PlanCoordinate): PlanPoint => ({ x, z });
+
+// Even-odd rule; points exactly on an edge may fall either way
+export const isInsidePolygon = (point: PlanPoint, polygon: PlanPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > point.z) !== (b.z > point.z) && point.x < ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const getOutlineBounds = (outline: PlanPoint[]): RoomBounds => ({
+  minX: Math.min(...outline.map(p => p.x)),
+  minZ: Math.min(...outline.map(p => p.z)),
+  maxX: Math.max(...outline.map(p => p.x)),
+  maxZ: Math.max(...outline.map(p => p.z)),
+});
+
+// Check the structure and geometry of a floor plan; hospital-specific checks happen in applyFloorPlan
+export const validateFloorPlan = (value: unknown): FloorPlanIssue[] => {
+  const issues: FloorPlanIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(value)) {
+    issue('', 'must be a JSON object');
+    return issues;
+  }
+  if (value.version !== 1) {
+    issue('version', 'must be 1');
+  }
+  if (!Array.isArray(value.floors)) {
+    issue('floors', 'must be an array');
+    return issues;
+  }
+
+  const floorIds = new Set<string>();
+  const roomIds = new Set<string>();
+  const bedIds = new Set<string>();
+
+  const checkBed = (bedPath: string, bed: unknown, room?: { id: unknown; outline: PlanPoint[] | null }) => {
+    if (!isObject(bed)) {
+      issue(bedPath, 'must be an object');
+      return;
+    }
+    if (typeof bed.id !== 'string') {
+      issue(`${bedPath}.id`, 'must be a string');
+    } else if (bedIds.has(bed.id)) {
+      issue(`${bedPath}.id`, `duplicates bed ${bed.id}`);
+    } else {
+      bedIds.add(bed.id);
+    }
+    if (!isCoordinate(bed.position)) {
+      issue(`${bedPath}.position`, 'must be an [x, z] pair of numbers');
+    } else if (room?.outline && !isInsidePolygon(toPlanPoint(bed.position), room.outline)) {
+      issue(`${bedPath}.position`, `is outside room ${String(room.id)}`);
+    }
+  };
+
+  const checkOutline = (path: string, outline: unknown): boolean => {
+    if (!Array.isArray(outline) || outline.length < 3) {
+      issue(path, 'must list at least 3 [x, z] points');
+      return false;
+    }
+    const invalid = outline.findIndex(point => !isCoordinate(point));
+    if (invalid !== -1) {
+      issue(`${path}[${invalid}]`, 'must be an [x, z] pair of numbers');
+      return false;
+    }
+    return true;
+  };
+
+  value.floors.forEach((floor: unknown, f) => {
+    const floorPath = `floors[${f}]`;
+    if (!isObject(floor)) {
+      issue(floorPath, 'must be an object');
+      return;
+    }
+    if (typeof floor.floorId !== 'string') {
+      issue(`${floorPath}.floorId`, 'must be a string');
+    } else if (floorIds.has(floor.floorId)) {
+      issue(`${floorPath}.floorId`, `duplicates floor ${floor.floorId}`);
+    } else {
+      floorIds.add(floor.floorId);
+    }
+
+    if (!Array.isArray(floor.rooms)) {
+      issue(`${floorPath}.rooms`, 'must be an array');
+    } else {
+      floor.rooms.forEach((room: unknown, r) => {
+        const roomPath = `${floorPath}.rooms[${r}]`;
+        if (!isObject(room)) {
+          issue(roomPath, 'must be an object');
+          return;
+        }
+        if (typeof room.id !== 'string') {
+          issue(`${roomPath}.id`, 'must be a string');
+        } else if (roomIds.has(room.id)) {
+          issue(`${roomPath}.id`, `duplicates room ${room.id}`);
+        } else {
+          roomIds.add(room.id);
+        }
+        if (typeof room.name !== 'string') {
+          issue(`${roomPath}.name`, 'must be a string');
+        }
+        if (typeof room.kind !== 'string' || !(room.kind in ROOM_KIND_LABELS)) {
+          issue(`${roomPath}.kind`, `must be one of ${Object.keys(ROOM_KIND_LABELS).join(', ')}`);
+        }
+        if (room.isolation !== undefined && typeof room.isolation !== 'boolean') {
+          issue(`${roomPath}.isolation`, 'must be a boolean');
+        }
+        if (room.capacity !== undefined && !(Number.isInteger(room.capacity) && (room.capacity as number) >= 0)) {
+          issue(`${roomPath}.capacity`, 'must be a non-negative integer');
+        }
+        if (room.doors !== undefined && !(Array.isArray(room.doors) && room.doors.every(isCoordinate))) {
+          issue(`${roomPath}.doors`, 'must be a list of [x, z] points');
+        }
+        const hasOutline = checkOutline(`${roomPath}.outline`, room.outline);
+        const outline = hasOutline ? (room.outline as PlanCoordinate[]).map(toPlanPoint) : null;
+
+        if (!Array.isArray(room.beds)) {
+          issue(`${roomPath}.beds`, 'must be an array');
+          return;
+        }
+        room.beds.forEach((bed: unknown, b) => checkBed(`${roomPath}.beds[${b}]`, bed, { id: room.id, outline }));
+      });
+    }
+
+    if (floor.beds !== undefined) {
+      if (!Array.isArray(floor.beds)) {
+        issue(`${floorPath}.beds`, 'must be an array');
+      } else {
+        floor.beds.forEach((bed: unknown, b) => checkBed(`${floorPath}.beds[${b}]`, bed));
+      }
+    }
+
+    if (floor.corridors !== undefined) {
+      if (!Array.isArray(floor.corridors)) {
+        issue(`${floorPath}.corridors`, 'must be an array');
+        return;
+      }
+      floor.corridors.forEach((corridor: unknown, c) => {
+        const corridorPath = `${floorPath}.corridors[${c}]`;
+        if (!isObject(corridor) || typeof corridor.id !== 'string') {
+          issue(`${corridorPath}.id`, 'must be a string');
+          return;
+        }
+        checkOutline(`${corridorPath}.outline`, corridor.outline);
+      });
+    }
+  });
+
+  return issues;
+};
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+// Polygon rings repeat the first point at the end; the plan format does not
+const toOutline = (geometry: GeoJsonFeature['geometry']): PlanCoordinate[] | undefined => {
+  if (geometry?.type !== 'Polygon' || !Array.isArray(geometry.coordinates)) return undefined;
+  const ring = geometry.coordinates[0] as PlanCoordinate[];
+  if (!Array.isArray(ring)) return undefined;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const closed = ring.length > 1 && isCoordinate(first) && isCoordinate(last) && first[0] === last[0] && first[1] === last[1];
+  return closed ? ring.slice(0, -1) : ring;
+};
+
+// Convert a GeoJSON FeatureCollection to the plan format. Features are told apart by properties.kind:
+// 'room' and 'corridor' Polygons carry a floorId, 'bed' Points the roomId they stand in, or a floorId
+// when they stand outside any room.
+export const geoJsonToFloorPlan = (collection: { features?: unknown; name?: unknown }): FloorPlan => {
+  if (!Array.isArray(collection.features)) {
+    throw new FloorPlanError('Invalid GeoJSON floor plan', [{ path: 'features', message: 'must be an array' }]);
+  }
+
+  const issues: FloorPlanIssue[] = [];
+  const floors = new Map<string, FloorPlanFloor>();
+  const rooms = new Map<string, FloorPlanRoom>();
+  const beds: { bed: FloorPlanBed; roomId: unknown; floorId: unknown; path: string }[] = [];
+  const getFloor = (floorId: string) => {
+    if (!floors.has(floorId)) floors.set(floorId, { floorId, rooms: [], corridors: [] });
+    return floors.get(floorId);
+  };
+
+  (collection.features as GeoJsonFeature[]).forEach((feature, index) => {
+    const path = `features[${index}]`;
+    const properties = feature?.properties ?? {};
+
+    switch (properties.kind) {
+      case 'room': {
+        if (typeof properties.floorId !== 'string') {
+          issues.push({ path: `${path}.properties.floorId`, message: 'must be a string' });
+          return;
+        }
+        const room: FloorPlanRoom = {
+          id: properties.id as string,
+          name: properties.name as string,
+          kind: properties.roomKind as RoomKind,
+          outline: toOutline(feature.geometry),
+          doors: properties.doors as PlanCoordinate[] | undefined,
+          isolation: properties.isolation as boolean | undefined,
+          capacity: properties.capacity as number | undefined,
+          beds: [],
+        };
+        rooms.set(room.id, room);
+        getFloor(properties.floorId).rooms.push(room);
+        return;
+      }
+      case 'corridor': {
+        if (typeof properties.floorId !== 'string') {
+          issues.push({ path: `${path}.properties.floorId`, message: 'must be a string' });
+          return;
+        }
+        const corridor: FloorPlanCorridor = {
+          id: properties.id as string,
+          name: properties.name as string | undefined,
+          outline: toOutline(feature.geometry),
+        };
+        getFloor(properties.floorId).corridors.push(corridor);
+        return;
+      }
+      case 'bed':
+        beds.push({
+          bed: {
+            id: properties.id as string,
+            position: feature.geometry?.type === 'Point' ? feature.geometry.coordinates as PlanCoordinate : undefined,
+          },
+          roomId: properties.roomId,
+          floorId: properties.floorId,
+          path,
+        });
+        return;
+      default:
+        issues.push({ path: `${path}.properties.kind`, message: "must be 'room', 'bed' or 'corridor'" });
+    }
+  });
+
+  beds.forEach(({ bed, roomId, floorId, path }) => {
+    if (roomId === undefined && typeof floorId === 'string') {
+      const floor = getFloor(floorId);
+      floor.beds = [...(floor.beds ?? []), bed];
+      return;
+    }
+    const room = typeof roomId === 'string' ? rooms.get(roomId) : undefined;
+    if (!room) {
+      issues.push({ path: `${path}.properties.roomId`, message: `refers to unknown room ${String(roomId)}` });
+      return;
+    }
+    room.beds.push(bed);
+  });
+
+  if (issues.length > 0) {
+    throw new FloorPlanError('Invalid GeoJSON floor plan', issues);
+  }
+
+  return {
+    version: 1,
+    name: typeof collection.name === 'string' ? collection.name : undefined,
+    floors: [...floors.values()],
+  };
+};
+
+// Accept either the plan format or a GeoJSON FeatureCollection, and validate it
+export const parseFloorPlan = (value: unknown): FloorPlan => {
+  const plan = isObject(value) && value.type === 'FeatureCollection' ? geoJsonToFloorPlan(value) : value;
+  const issues = validateFloorPlan(plan);
+  if (issues.length > 0) {
+    throw new FloorPlanError('Invalid floor plan', issues);
+  }
+  return plan as FloorPlan;
+};
+
+const parseJson = (text: string, source: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new FloorPlanError(`${source} is not valid JSON`);
+  }
+};
+
+export const readFloorPlanFile = async (file: File): Promise<FloorPlan> =>
+  parseFloorPlan(parseJson(await file.text(), file.name));
+
+export const fetchFloorPlan = async (url: string, signal?: AbortSignal): Promise<FloorPlan> => {
+  const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Failed to load floor plan from ${url}: ${response.status} ${response.statusText}`);
+  }
+  return parseFloorPlan(parseJson(await response.text(), url));
+};
+
+const toRoom = (room: FloorPlanRoom, floorId: string): Room => {
+  const outline = room.outline.map(toPlanPoint);
+  return {
+    id: room.id,
+    floorId,
+    name: room.name,
+    kind: room.kind,
+    bounds: getOutlineBounds(outline),
+    capacity: room.capacity ?? room.beds.length,
+    isolation: room.isolation ?? false,
+    outline,
+    doors: room.doors?.map(toPlanPoint),
+  };
+};
+
+const toCorridor = (corridor: FloorPlanCorridor): FloorArea => ({
+  id: corridor.id,
+  name: corridor.name,
+  outline: corridor.outline.map(toPlanPoint),
+});
+
+// Lay out the planned floors as the plan says: their rooms and corridors are replaced, planned beds are
+// moved (or created as available beds) and beds the plan leaves out are removed. Floors not in the plan keep
+// their layout. Patients are never moved or dropped, so leaving out an occupied bed is an error.
+export const applyFloorPlan = (hospital: Hospital, plan: FloorPlan, at: Date = new Date()): Hospital => {
+  const floorsById = new Map(hospital.floors.map(floor => [floor.id, floor]));
+  const missingFloor = plan.floors.find(planFloor => !floorsById.has(planFloor.floorId));
+  if (missingFloor) {
+    throw new HospitalOperationError(`Floor ${missingFloor.floorId} in the floor plan does not exist`);
+  }
+
+  const plannedFloorIds = new Set(plan.floors.map(planFloor => planFloor.floorId));
+  const keptRooms = hospital.rooms.filter(room => !plannedFloorIds.has(room.floorId));
+  const clashingRoom = plan.floors
+    .flatMap(planFloor => planFloor.rooms)
+    .find(room => keptRooms.some(kept => kept.id === room.id));
+  if (clashingRoom) {
+    throw new HospitalOperationError(`Room ${clashingRoom.id} already exists on a floor outside the plan`);
+  }
+
+  // Where each planned bed goes; beds outside any room have no room
+  const placements = new Map<string, { floor: Floor; room?: FloorPlanRoom; position: PlanCoordinate }>();
+  plan.floors.forEach(planFloor => {
+    const floor = floorsById.get(planFloor.floorId);
+    planFloor.rooms.forEach(room => room.beds.forEach(bed => placements.set(bed.id, { floor, room, position: bed.position })));
+    (planFloor.beds ?? []).forEach(bed => placements.set(bed.id, { floor, position: bed.position }));
+  });
+
+  const plannedFloorBedIds = new Set(
+    hospital.floors.filter(floor => plannedFloorIds.has(floor.id)).flatMap(floor => floor.beds)
+  );
+  const removedBeds = hospital.beds.filter(bed => plannedFloorBedIds.has(bed.id) && !placements.has(bed.id));
+  const occupied = removedBeds.find(bed => bed.patientId);
+  if (occupied) {
+    throw new HospitalOperationError(`Bed ${occupied.id} holds a patient but is not in the floor plan`);
+  }
+  const reservation = removedBeds.map(bed => getBedReservation(hospital, bed.id)).find(Boolean);
+  if (reservation) {
+    throw new HospitalOperationError(`Bed ${reservation.reservedBedId} is reserved for ${reservation.patientName} but is not in the floor plan`);
+  }
+  const removedBedIds = new Set(removedBeds.map(bed => bed.id));
+
+  const placeBed = (bed: Bed, id: string): Bed => {
+    const { floor, room, position } = placements.get(id);
+    return {
+      ...bed,
+      position: { x: position[0], y: floor.level * 4, z: position[1] },
+      floor: floor.type,
+      room: room?.name ?? '',
+      roomId: room?.id,
+    };
+  };
+
+  const existingBedIds = new Set(hospital.beds.map(bed => bed.id));
+  const movedBeds = new Map<string, { from: Bed; to: Bed }>();
+  const beds: Bed[] = hospital.beds
+    .filter(bed => !removedBedIds.has(bed.id))
+    .map(bed => {
+      if (!placements.has(bed.id)) return bed;
+      const placed = placeBed(bed, bed.id);
+      movedBeds.set(bed.id, { from: bed, to: placed });
+      return placed;
+    });
+  placements.forEach((_, bedId) => {
+    if (existingBedIds.has(bedId)) return;
+    beds.push(placeBed({
+      id: bedId,
+      position: { x: 0, y: 0, z: 0 },
+      status: 'available',
+      floor: placements.get(bedId).floor.type,
+      room: '',
+      statusChangedAt: at.toISOString(),
+    }, bedId));
+  });
+
+  // Planned floors list exactly their planned beds; other floors lose beds that moved away
+  const floors: Floor[] = hospital.floors.map(floor => {
+    const planFloor = plan.floors.find(candidate => candidate.floorId === floor.id);
+    if (planFloor) {
+      return {
+        ...floor,
+        beds: [...planFloor.rooms.flatMap(room => room.beds), ...(planFloor.beds ?? [])].map(bed => bed.id),
+        corridors: (planFloor.corridors ?? []).map(toCorridor),
+      };
+    }
+    const remaining = floor.beds.filter(bedId => !placements.has(bedId));
+    return remaining.length === floor.beds.length ? floor : { ...floor, beds: remaining };
+  });
+
+  const rooms = [
+    ...keptRooms,
+    ...plan.floors.flatMap(planFloor => planFloor.rooms.map(room => toRoom(room, planFloor.floorId))),
+  ];
+  const roomIds = new Set(rooms.map(room => room.id));
+
+  // Bedside equipment moves with its bed; equipment loses links to removed beds and rooms
+  const equipment: Equipment[] = hospital.equipment.map(item => {
+    const moved = item.bedId ? movedBeds.get(item.bedId) : undefined;
+    if (moved) {
+      return {
+        ...item,
+        position: {
+          x: item.position.x + (moved.to.position.x - moved.from.position.x),
+          y: item.position.y + (moved.to.position.y - moved.from.position.y),
+          z: item.position.z + (moved.to.position.z - moved.from.position.z),
+        },
+        floor: moved.to.floor,
+        room: moved.to.room,
+        roomId: moved.to.roomId,
+      };
+    }
+    const lostBed = item.bedId && removedBedIds.has(item.bedId);
+    const lostRoom = item.roomId && !roomIds.has(item.roomId);
+    if (!lostBed && !lostRoom) return item;
+    return {
+      ...item,
+      bedId: lostBed ? undefined : item.bedId,
+      roomId: lostRoom ? undefined : item.roomId,
+    };
+  });
+
+  return { ...hospital, floors, beds, rooms, equipment };
+};
+
+const toCoordinate = (point: PlanPoint): PlanCoordinate => [point.x, point.z];
+
+const toPlanBed = (bed: Bed): FloorPlanBed => ({ id: bed.id, position: [bed.position.x, bed.position.z] });
+
+// The current layout in the plan format, for every floor that has rooms or beds; beds outside any room of
+// their floor are listed on the floor itself
+export const exportFloorPlan = (hospital: Hospital, name?: string): FloorPlan => ({
+  version: 1,
+  name,
+  floors: hospital.floors
+    .filter(floor => floor.beds.length > 0 || hospital.rooms.some(room => room.floorId === floor.id))
+    .map(floor => {
+      const rooms = hospital.rooms.filter(room => room.floorId === floor.id);
+      const roomIds = new Set(rooms.map(room => room.id));
+      const beds = hospital.beds.filter(bed => floor.beds.includes(bed.id));
+      const looseBeds = beds.filter(bed => !bed.roomId || !roomIds.has(bed.roomId));
+      const corridors = floor.corridors ?? [];
+      return {
+        floorId: floor.id,
+        rooms: rooms.map(room => ({
+          id: room.id,
+          name: room.name,
+          kind: room.kind,
+          outline: getRoomOutline(room).map(toCoordinate),
+          doors: room.doors?.map(toCoordinate),
+          isolation: room.isolation,
+          capacity: room.capacity,
+          beds: beds.filter(bed => bed.roomId === room.id).map(toPlanBed),
+        })),
+        ...(corridors.length > 0 && {
+          corridors: corridors.map(corridor => ({
+            id: corridor.id,
+            name: corridor.name,
+            outline: corridor.outline.map(toCoordinate),
+          })),
+        }),
+        ...(looseBeds.length > 0 && { beds: looseBeds.map(toPlanBed) }),
+      };
+    }),
+});
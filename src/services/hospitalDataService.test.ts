@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  admitPatient,
+  dischargePatient,
+  generateHospitalData,
+  HospitalOperationError,
+  SEEDED_REFERENCE_TIME,
+  transferPatient,
+  updateBedStatus,
+  updatePatientStatus,
+} from "./hospitalDataService";
+import { validateHospital } from "./hospitalValidator";
+
+describe("generateHospitalData", () => {
+  it("reproduces the same hospital from the same seed, timestamps included", async () => {
+    const first = JSON.stringify(generateHospitalData({ seed: "demo" }));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(JSON.stringify(generateHospitalData({ seed: "demo" }))).toBe(first);
+  });
+
+  it("dates seeded hospitals relative to the reference time", () => {
+    const hospital = generateHospitalData({ seed: "demo" });
+    const timestamps = hospital.beds.map(bed => bed.statusChangedAt).filter(Boolean).map(Date.parse);
+    expect(Math.max(...timestamps)).toBeLessThanOrEqual(SEEDED_REFERENCE_TIME);
+
+    const later = SEEDED_REFERENCE_TIME + 24 * 60 * 60 * 1000;
+    const shifted = generateHospitalData({ seed: "demo", referenceTime: later });
+    expect(shifted.beds[0].statusChangedAt).not.toBe(hospital.beds[0].statusChangedAt);
+  });
+
+  it("generates different hospitals from different seeds", () => {
+    expect(generateHospitalData({ seed: "a" })).not.toEqual(generateHospitalData({ seed: "b" }));
+  });
+
+  it("generates a hospital without violations", () => {
+    expect(validateHospital(generateHospitalData({ seed: "demo" }))).toEqual([]);
+  });
+
+  it("places the imaging room and its machine clear of the ward rooms, however long the rooms are", () => {
+    [3, 5, 8].forEach(bedsPerRoom => {
+      const hospital = generateHospitalData({ seed: "imaging", bedsPerRoom });
+      const imagingRooms = hospital.rooms.filter(room => room.kind === "imaging");
+      expect(imagingRooms.length).toBeGreaterThan(0);
+      imagingRooms.forEach(imaging => {
+        const wards = hospital.rooms.filter(room => room.floorId === imaging.floorId && room.kind !== "imaging");
+        wards.forEach(ward => expect(ward.bounds.maxX).toBeLessThan(imaging.bounds.minX));
+
+        const machine = hospital.equipment.find(item => item.roomId === imaging.id);
+        expect(machine.position.x).toBeGreaterThan(imaging.bounds.minX);
+        expect(machine.position.x).toBeLessThan(imaging.bounds.maxX);
+      });
+    });
+  });
+});
+
+describe("admission, transfer and discharge", () => {
+  const hospital = generateHospitalData({ seed: "workflow" });
+  const at = new Date("2025-01-02T08:00:00.000Z");
+  const freeBeds = hospital.beds.filter(bed =>
+    bed.status === "available" && !hospital.pendingAdmissions.some(admission => admission.reservedBedId === bed.id)
+  );
+  const nurse = hospital.staff.find(member => member.type === "Nurse");
+  const admitted = admitPatient(hospital, freeBeds[0].id, { name: "Alex Morgan", admissionType: "General", assignedStaffIds: [nurse.id] }, "patient-new", at);
+
+  it("admits a patient into an available bed", () => {
+    expect(admitted.patients.find(p => p.id === "patient-new")).toMatchObject({
+      bedId: freeBeds[0].id,
+      status: "stable",
+      admittedAt: at.toISOString(),
+      assignedStaffIds: [nurse.id],
+    });
+    expect(admitted.beds.find(bed => bed.id === freeBeds[0].id)).toMatchObject({ status: "occupied", patientId: "patient-new" });
+    expect(admitted.staff.find(member => member.id === nurse.id)?.assignedPatientIds).toContain("patient-new");
+    expect(validateHospital(admitted)).toEqual([]);
+  });
+
+  it("refuses beds that are taken and ids that are in use", () => {
+    const occupied = hospital.beds.find(bed => bed.patientId);
+    expect(() => admitPatient(hospital, occupied.id, { name: "Sam", admissionType: "General" })).toThrow(HospitalOperationError);
+    expect(() => admitPatient(admitted, freeBeds[1].id, { name: "Sam", admissionType: "General" }, "patient-new")).toThrow(HospitalOperationError);
+  });
+
+  it("transfers a patient, sending the old bed to cleaning", () => {
+    const transferred = transferPatient(admitted, "patient-new", freeBeds[1].id, at);
+    expect(transferred.patients.find(p => p.id === "patient-new")?.bedId).toBe(freeBeds[1].id);
+    expect(transferred.beds.find(bed => bed.id === freeBeds[0].id)).toMatchObject({ status: "cleaning", patientId: undefined });
+    expect(transferred.beds.find(bed => bed.id === freeBeds[1].id)).toMatchObject({ status: "occupied", patientId: "patient-new" });
+    expect(validateHospital(transferred)).toEqual([]);
+    expect(() => transferPatient(admitted, "patient-new", freeBeds[0].id, at)).toThrow(HospitalOperationError);
+  });
+
+  it("discharges a patient, freeing the bed for cleaning and releasing staff", () => {
+    const discharged = dischargePatient(admitted, "patient-new", at);
+    expect(discharged.patients.find(p => p.id === "patient-new")).toMatchObject({ status: "discharged", bedId: undefined, assignedStaffIds: [] });
+    expect(discharged.beds.find(bed => bed.id === freeBeds[0].id)?.status).toBe("cleaning");
+    expect(discharged.staff.find(member => member.id === nurse.id)?.assignedPatientIds).not.toContain("patient-new");
+    expect(validateHospital(discharged)).toEqual([]);
+    expect(() => dischargePatient(discharged, "patient-new", at)).toThrow(HospitalOperationError);
+  });
+});
+
+describe("updatePatientStatus", () => {
+  const hospital = generateHospitalData({ seed: "status" });
+  const patient = hospital.patients.find(p => p.bedId && p.status === "stable");
+  const at = new Date("2025-01-02T08:00:00.000Z");
+
+  it("changes the status of an admitted patient", () => {
+    expect(updatePatientStatus(hospital, patient.id, "critical", at).patients.find(p => p.id === patient.id)?.status).toBe("critical");
+  });
+
+  it("runs the full discharge when a patient is marked discharged", () => {
+    expect(updatePatientStatus(hospital, patient.id, "discharged", at)).toEqual(dischargePatient(hospital, patient.id, at));
+  });
+
+  it("refuses unknown patients and patients who are not admitted", () => {
+    expect(() => updatePatientStatus(hospital, "nobody", "critical", at)).toThrow(HospitalOperationError);
+
+    const discharged = dischargePatient(hospital, patient.id, at);
+    expect(() => updatePatientStatus(discharged, patient.id, "critical", at)).toThrow(HospitalOperationError);
+  });
+});
+
+describe("updateBedStatus", () => {
+  const hospital = generateHospitalData({ seed: "bed-status" });
+  const bed = hospital.beds.find(b => b.status === "available" && !hospital.pendingAdmissions.some(admission => admission.reservedBedId === b.id));
+  const at = new Date("2025-01-02T08:00:00.000Z");
+
+  it("follows the bed state machine", () => {
+    expect(updateBedStatus(hospital, bed.id, "maintenance", at).beds.find(b => b.id === bed.id)).toMatchObject({
+      status: "maintenance",
+      statusChangedAt: at.toISOString(),
+    });
+  });
+
+  it("leaves occupying and reserving beds to admissions and the queue", () => {
+    expect(() => updateBedStatus(hospital, bed.id, "occupied", at)).toThrow(HospitalOperationError);
+    expect(() => updateBedStatus(hospital, bed.id, "reserved", at)).toThrow("queued patient");
+  });
+});
@@ -1,8 +1,40 @@
 
-import { Hospital, Bed, Patient, Staff, Floor, Position, BedStatus, PatientStatus, FloorType, AdmissionType, StaffType } from "@/types/hospital";
+import { Hospital, Bed, Patient, Staff, Floor, Position, BedStatus, PatientStatus, FloorType, AdmissionType, StaffType, Equipment, EquipmentStatus, EquipmentType, Room, RoomBounds, VitalSigns, AdmissionSource, PendingAdmission } from "@/types/hospital";
+import { createRandom, Random, randomSeed, Seed } from "@/lib/random";
+import { canTransitionBed, CLEANING_DURATION_MINUTES, withBedStatus } from "./bedStatusMachine";
+import { EQUIPMENT_TYPE_LABELS } from "./equipment";
+import { FLOOR_ROOM_KINDS } from "./rooms";
 
-// Generate a random ID
-const generateId = () => Math.random().toString(36).substring(2, 9);
+export interface HospitalGeneratorOptions {
+  seed?: Seed;
+  floorCount?: number;
+  bedsPerFloor?: number;
+  bedsPerRoom?: number;
+  staffCounts?: Record<StaffType, number>;
+  occupancyRatio?: number; // share of beds that start occupied
+  cleaningRatio?: number; // share of beds that start in cleaning
+  criticalRatio?: number; // share of patients that start critical
+  dischargedRatio?: number; // share of patients that start discharged
+  pendingAdmissionCount?: number; // patients waiting for a bed
+  referenceTime?: number; // epoch ms that generated timestamps are relative to (defaults to now, or SEEDED_REFERENCE_TIME with a seed)
+}
+
+// Seeded hospitals are dated relative to this time unless a referenceTime is given, so a seed alone
+// always reproduces the same hospital, timestamps included. It is long past, so the app and the mock
+// server pass the time they started instead.
+export const SEEDED_REFERENCE_TIME = Date.UTC(2025, 0, 1);
+
+export const DEFAULT_GENERATOR_OPTIONS: Required<Omit<HospitalGeneratorOptions, 'seed' | 'referenceTime'>> = {
+  floorCount: 4,
+  bedsPerFloor: 20,
+  bedsPerRoom: 5,
+  staffCounts: { Doctor: 10, Nurse: 15, Technician: 5 },
+  occupancyRatio: 0.7,
+  cleaningRatio: 0.1,
+  criticalRatio: 0.2,
+  dischargedRatio: 0.1,
+  pendingAdmissionCount: 6,
+};
 
 // Generate random position with some spacing for the isometric view
 const generatePosition = (floorLevel: number, index: number, totalInRow: number = 5): Position => {
@@ -16,20 +48,42 @@ const generatePosition = (floorLevel: number, index: number, totalInRow: number
   };
 };
 
+// Ward rooms are one row of beds each; the bounds leave half a bed spacing around the row
+const generateRoomBounds = (roomIndex: number, bedsPerRoom: number): RoomBounds => {
+  const first = generatePosition(0, roomIndex * bedsPerRoom, bedsPerRoom);
+  const last = generatePosition(0, roomIndex * bedsPerRoom + bedsPerRoom - 1, bedsPerRoom);
+  
+  return {
+    minX: first.x - 1.5,
+    minZ: first.z - 1.5,
+    maxX: last.x + 1.5,
+    maxZ: last.z + 1.5,
+  };
+};
+
+// Floors that keep an isolation room hold it in their last ward room
+const ISOLATION_FLOORS: FloorType[] = ['ICU', 'Emergency'];
+
+// Room that holds the imaging machine, just past the end of the ward rooms so the two never overlap
+const generateImagingRoomBounds = (bedsPerRoom: number): RoomBounds => {
+  const minX = generateRoomBounds(0, bedsPerRoom).maxX + 0.8;
+  return { minX, minZ: -6.5, maxX: minX + 5.2, maxZ: 0.5 };
+};
+
 // Generate random status for beds with more occupied beds for realism
-const generateBedStatus = (): BedStatus => {
-  const rand = Math.random();
-  if (rand < 0.7) return 'occupied'; // Increased to 70% for more patients
-  if (rand < 0.9) return 'available';
+const generateBedStatus = (random: Random, occupancyRatio: number, cleaningRatio: number): BedStatus => {
+  const rand = random.next();
+  if (rand < occupancyRatio) return 'occupied';
+  if (rand < 1 - cleaningRatio) return 'available';
   return 'cleaning';
 };
 
 // Generate random status for patients with more realistic distribution
-const generatePatientStatus = (): PatientStatus => {
-  const rand = Math.random();
-  if (rand < 0.2) return 'critical'; // 20% critical
-  if (rand < 0.9) return 'stable'; // 70% stable
-  return 'discharged'; // 10% discharged
+const generatePatientStatus = (random: Random, criticalRatio: number, dischargedRatio: number): PatientStatus => {
+  const rand = random.next();
+  if (rand < criticalRatio) return 'critical';
+  if (rand < 1 - dischargedRatio) return 'stable';
+  return 'discharged';
 };
 
 // Generate random floor type
@@ -41,7 +95,7 @@ const generateFloorType = (index: number): FloorType => {
 };
 
 // Generate realistic patient names
-const generatePatientName = (): string => {
+const generatePatientName = (random: Random): string => {
   const firstNames = [
     "James", "Mary", "John", "Patricia", "Robert", "Jennifer", "Michael", 
     "Linda", "William", "Elizabeth", "David", "Susan", "Richard", "Jessica",
@@ -54,37 +108,308 @@ const generatePatientName = (): string => {
     "Harris", "Martin", "Thompson", "Garcia", "Martinez", "Robinson", "Clark"
   ];
   
-  return `${firstNames[Math.floor(Math.random() * firstNames.length)]} ${lastNames[Math.floor(Math.random() * lastNames.length)]}`;
+  return `${random.pick(firstNames)} ${random.pick(lastNames)}`;
+};
+
+// When the bed entered its current status: cleaning beds sometimes run past their expected duration
+const generateStatusChangedAt = (random: Random, status: BedStatus, floorType: FloorType, referenceTime: number): string => {
+  const minutesAgo = status === 'cleaning'
+    ? random.int(Math.round(CLEANING_DURATION_MINUTES[floorType] * 1.5))
+    : random.int(3 * 24 * 60);
+  return new Date(referenceTime - minutesAgo * 60 * 1000).toISOString();
+};
+
+// Bedside equipment per floor type: the share of beds that get each kind, and where it stands relative to the bed
+const BEDSIDE_EQUIPMENT: Record<FloorType, { type: EquipmentType; ratio: number; offset: Position }[]> = {
+  ICU: [
+    { type: 'monitor', ratio: 1, offset: { x: 0.9, y: 0, z: -0.7 } },
+    { type: 'ventilator', ratio: 0.4, offset: { x: -1.0, y: 0, z: -0.4 } },
+  ],
+  Emergency: [
+    { type: 'monitor', ratio: 0.5, offset: { x: 0.9, y: 0, z: -0.7 } },
+  ],
+  Surgery: [
+    { type: 'anesthesia-machine', ratio: 0.2, offset: { x: -1.1, y: 0, z: 0.2 } },
+    { type: 'surgical-lights', ratio: 0.2, offset: { x: 1.1, y: 0, z: 0.6 } },
+  ],
+  General: [
+    { type: 'monitor', ratio: 0.2, offset: { x: 0.9, y: 0, z: -0.7 } },
+  ],
+};
+
+// Large imaging machines stand beside the bed area, one per floor that has them
+const IMAGING_EQUIPMENT: Partial<Record<FloorType, EquipmentType>> = {
+  Emergency: 'ct-scanner',
+  General: 'mri',
+};
+
+const generateEquipmentStatus = (random: Random): EquipmentStatus => {
+  const rand = random.next();
+  if (rand < 0.85) return 'working';
+  if (rand < 0.95) return 'maintenance';
+  return 'offline';
+};
+
+// Last service up to six months before the reference time
+const generateLastServiceDate = (random: Random, referenceTime: number): string =>
+  new Date(referenceTime - random.int(180 * 24 * 60) * 60 * 1000).toISOString();
+
+const generateEquipment = (random: Random, floors: Floor[], rooms: Room[], beds: Bed[], referenceTime: number): Equipment[] => {
+  const equipment: Equipment[] = [];
+  
+  floors.forEach(floor => {
+    const floorBeds = beds.filter(bed => floor.beds.includes(bed.id));
+    const add = (type: EquipmentType, position: Position, room: string, roomId?: string, bedId?: string) => {
+      const number = equipment.filter(item => item.floor === floor.type && item.type === type).length + 1;
+      equipment.push({
+        id: `equipment-${floor.level}-${equipment.length}`,
+        name: `${EQUIPMENT_TYPE_LABELS[type]} ${floor.type}-${number}`,
+        type,
+        status: generateEquipmentStatus(random),
+        position,
+        floor: floor.type,
+        room,
+        roomId,
+        bedId,
+        lastServiceDate: generateLastServiceDate(random, referenceTime),
+      });
+    };
+    
+    BEDSIDE_EQUIPMENT[floor.type].forEach(({ type, ratio, offset }) => {
+      floorBeds.forEach(bed => {
+        if (random.next() >= ratio) return;
+        add(type, { x: bed.position.x + offset.x, y: bed.position.y + offset.y, z: bed.position.z + offset.z }, bed.room, bed.roomId, bed.id);
+      });
+    });
+    
+    const imagingType = IMAGING_EQUIPMENT[floor.type];
+    const imagingRoom = rooms.find(room => room.floorId === floor.id && room.kind === 'imaging');
+    if (imagingType && imagingRoom) {
+      const { bounds } = imagingRoom;
+      add(imagingType, { x: bounds.minX + 1.7, y: floor.level * 4, z: (bounds.minZ + bounds.maxZ) / 2 }, imagingRoom.name, imagingRoom.id);
+    }
+  });
+  
+  return equipment;
+};
+
+const DIAGNOSES: Record<FloorType, string[]> = {
+  ICU: ['Septic shock', 'Acute respiratory distress syndrome', 'Post-cardiac arrest care', 'Severe pneumonia', 'Diabetic ketoacidosis'],
+  Emergency: ['Chest pain', 'Hip fracture', 'Acute asthma', 'Head injury', 'Abdominal pain'],
+  Surgery: ['Appendectomy', 'Cholecystectomy', 'Knee replacement', 'Hernia repair', 'Bowel resection'],
+  General: ['Community-acquired pneumonia', 'Heart failure exacerbation', 'Cellulitis', 'COPD exacerbation', 'Urinary tract infection'],
+};
+
+const ALLERGIES = ['Penicillin', 'Latex', 'Sulfonamides', 'Aspirin', 'Iodine contrast', 'Peanuts'];
+
+// Typical length of stay in days, [min, max)
+const LENGTH_OF_STAY_DAYS: Record<FloorType, [number, number]> = {
+  ICU: [5, 11],
+  Emergency: [1, 4],
+  Surgery: [3, 8],
+  General: [2, 7],
+};
+
+// Hours between observations: the sicker the floor, the closer they are monitored
+const OBSERVATION_INTERVAL_HOURS: Record<FloorType, number> = {
+  ICU: 1,
+  Emergency: 2,
+  Surgery: 4,
+  General: 4,
+};
+
+const OBSERVATION_COUNT = 12;
+
+// Share of stable patients whose observations drift towards the critical baseline
+const DETERIORATING_RATIO = 0.15;
+
+type MeasuredVitalSign = 'respiratoryRate' | 'heartRate' | 'systolicBp' | 'diastolicBp' | 'spo2' | 'temperature';
+
+// Baseline observations per patient status, and how far each observation may stray from them
+const VITALS_BASELINES: Record<'critical' | 'stable', Record<MeasuredVitalSign, number>> = {
+  critical: { respiratoryRate: 23, heartRate: 118, systolicBp: 96, diastolicBp: 58, spo2: 92, temperature: 38.4 },
+  stable: { respiratoryRate: 15, heartRate: 76, systolicBp: 122, diastolicBp: 78, spo2: 97, temperature: 36.8 },
+};
+const VITALS_SPREAD: Record<MeasuredVitalSign, number> = { respiratoryRate: 3, heartRate: 14, systolicBp: 12, diastolicBp: 8, spo2: 2, temperature: 0.5 };
+
+// Chance that an observation of a critical patient finds them on oxygen, or not fully alert
+const CRITICAL_OXYGEN_RATIO = 0.6;
+const CRITICAL_CONFUSION_RATIO = 0.15;
+
+// Up to OBSERVATION_COUNT observations at the floor's interval, ending at the reference time and
+// never before admission. A deteriorating patient drifts from the stable baseline most of the way to the critical one.
+const generateVitals = (
+  random: Random,
+  status: PatientStatus,
+  floorType: FloorType,
+  admittedAt: number,
+  referenceTime: number,
+  isDeteriorating: boolean
+): VitalSigns[] => {
+  const intervalMs = OBSERVATION_INTERVAL_HOURS[floorType] * 60 * 60 * 1000;
+  
+  const vitals: VitalSigns[] = [];
+  for (let i = OBSERVATION_COUNT - 1; i >= 0; i--) {
+    const timestamp = referenceTime - i * intervalMs;
+    if (timestamp < admittedAt) continue;
+    
+    const drift = isDeteriorating ? 0.7 * (1 - i / (OBSERVATION_COUNT - 1)) : 0;
+    const vary = (key: keyof typeof VITALS_SPREAD) => {
+      const baseline = status === 'critical'
+        ? VITALS_BASELINES.critical[key]
+        : VITALS_BASELINES.stable[key] + (VITALS_BASELINES.critical[key] - VITALS_BASELINES.stable[key]) * drift;
+      return baseline + (random.next() * 2 - 1) * VITALS_SPREAD[key];
+    };
+    
+    vitals.push({
+      timestamp: new Date(timestamp).toISOString(),
+      respiratoryRate: Math.round(vary('respiratoryRate')),
+      heartRate: Math.round(vary('heartRate')),
+      systolicBp: Math.round(vary('systolicBp')),
+      diastolicBp: Math.round(vary('diastolicBp')),
+      spo2: Math.min(100, Math.round(vary('spo2'))),
+      temperature: Math.round(vary('temperature') * 10) / 10,
+      onSupplementalOxygen: status === 'critical' && random.next() < CRITICAL_OXYGEN_RATIO,
+      consciousness: status === 'critical' && random.next() < CRITICAL_CONFUSION_RATIO ? 'confusion' : 'alert',
+    });
+  }
+  return vitals;
+};
+
+// Admission and expected discharge dates, diagnosis, allergies and observations for a generated patient
+const generateClinicalRecord = (random: Random, patient: Patient, floorType: FloorType, referenceTime: number): Patient => {
+  const hourMs = 60 * 60 * 1000;
+  const [minStay, maxStay] = LENGTH_OF_STAY_DAYS[floorType];
+  const stayDays = minStay + random.int(maxStay - minStay);
+  const admittedAt = referenceTime - (2 + random.int(stayDays * 24)) * hourMs;
+  const allergyCount = random.next() < 0.7 ? 0 : 1 + random.int(2);
+  const isDeteriorating = patient.status === 'stable' && random.next() < DETERIORATING_RATIO;
+  
+  return {
+    ...patient,
+    admittedAt: new Date(admittedAt).toISOString(),
+    expectedDischargeAt: new Date(admittedAt + stayDays * 24 * hourMs).toISOString(),
+    diagnosis: random.pick(DIAGNOSES[floorType]),
+    allergies: random.shuffle(ALLERGIES).slice(0, allergyCount),
+    vitals: generateVitals(random, patient.status, floorType, admittedAt, referenceTime, isDeteriorating),
+  };
+};
+
+// Kinds of floor each source sends queued patients to
+const ADMISSION_SOURCE_FLOORS: Record<AdmissionSource, FloorType[]> = {
+  emergency: ['Emergency', 'ICU', 'General'],
+  transfer: ['ICU', 'General', 'Surgery'],
+  'elective-surgery': ['Surgery'],
+};
+
+// Longest a generated request has been waiting, in hours
+const ADMISSION_MAX_WAIT_HOURS: Record<AdmissionSource, number> = {
+  emergency: 8,
+  transfer: 24,
+  'elective-surgery': 12,
+};
+
+const ISOLATION_REQUEST_RATIO = 0.2;
+
+// Share of queued patients that already have a bed reserved, when a suitable one is available
+const RESERVED_ADMISSION_RATIO = 0.3;
+
+// Patients waiting for a bed, oldest request first; reserving a bed marks it reserved in place
+const generatePendingAdmissions = (
+  random: Random,
+  count: number,
+  floors: Floor[],
+  beds: Bed[],
+  rooms: Room[],
+  referenceTime: number
+): PendingAdmission[] => {
+  const floorTypes = new Set(floors.map(floor => floor.type));
+  const sources: AdmissionSource[] = ['emergency', 'transfer', 'elective-surgery'];
+  const admissions: PendingAdmission[] = [];
+  
+  for (let i = 0; i < count; i++) {
+    const source = random.pick(sources);
+    const candidateFloorTypes = ADMISSION_SOURCE_FLOORS[source].filter(floorType => floorTypes.has(floorType));
+    if (candidateFloorTypes.length === 0) continue;
+    
+    const floorType = random.pick(candidateFloorTypes);
+    const isolation = ISOLATION_FLOORS.includes(floorType) && random.next() < ISOLATION_REQUEST_RATIO;
+    const waitedMinutes = random.int(ADMISSION_MAX_WAIT_HOURS[source] * 60);
+    const admission: PendingAdmission = {
+      id: `admission-${random.id()}`,
+      patientName: generatePatientName(random),
+      source,
+      floorType,
+      isolation,
+      requestedAt: new Date(referenceTime - waitedMinutes * 60 * 1000).toISOString(),
+      diagnosis: random.pick(DIAGNOSES[floorType]),
+    };
+    
+    if (random.next() < RESERVED_ADMISSION_RATIO) {
+      const bed = beds.find(b =>
+        b.floor === floorType && b.status === 'available' && !b.patientId
+        && (!isolation || rooms.some(room => room.id === b.roomId && room.isolation))
+      );
+      if (bed) {
+        const reservedAt = new Date(referenceTime - random.int(waitedMinutes + 1) * 60 * 1000).toISOString();
+        bed.status = 'reserved';
+        bed.statusChangedAt = reservedAt;
+        admission.reservedBedId = bed.id;
+        admission.reservedAt = reservedAt;
+      }
+    }
+    
+    admissions.push(admission);
+  }
+  
+  return admissions.sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
 };
 
-// Generate mock hospital data
-export const generateHospitalData = (): Hospital => {
+// Generate mock hospital data; the same seed, options and referenceTime always produce the same hospital
+export const generateHospitalData = (options: HospitalGeneratorOptions = {}): Hospital => {
+  const {
+    floorCount,
+    bedsPerFloor,
+    bedsPerRoom,
+    staffCounts,
+    occupancyRatio,
+    cleaningRatio,
+    criticalRatio,
+    dischargedRatio,
+    pendingAdmissionCount,
+  } = { ...DEFAULT_GENERATOR_OPTIONS, ...options };
+  const random = createRandom(options.seed ?? randomSeed());
+  const referenceTime = options.referenceTime ?? (options.seed !== undefined ? SEEDED_REFERENCE_TIME : Date.now());
+  
   // Create floors
   const floors: Floor[] = [];
   const beds: Bed[] = [];
   const patients: Patient[] = [];
   const staff: Staff[] = [];
+  const rooms: Room[] = [];
+  // Floor each generated patient was admitted on, including discharged ones that no longer have a bed
+  const patientFloorTypes = new Map<string, FloorType>();
   
-  // Create staff members
-  for (let i = 0; i < 30; i++) {
-    const staffType: StaffType = i < 10 ? 'Doctor' : i < 25 ? 'Nurse' : 'Technician';
-    const floorIndex = Math.floor(i / 8);
-    const floorType = generateFloorType(floorIndex);
-    
-    staff.push({
-      id: `staff-${generateId()}`,
-      name: `${staffType} ${String.fromCharCode(65 + i % 26)}`,
-      type: staffType,
-      assignedPatientIds: [],
-      floor: floorType,
-    });
-  }
+  // Create staff members, spreading each staff type evenly across the floors
+  const staffTypes: StaffType[] = ['Doctor', 'Nurse', 'Technician'];
+  staffTypes.forEach(staffType => {
+    for (let i = 0; i < staffCounts[staffType]; i++) {
+      const floorType = generateFloorType(i % floorCount);
+      
+      staff.push({
+        id: `staff-${random.id()}`,
+        name: `${staffType} ${String.fromCharCode(65 + staff.length % 26)}`,
+        type: staffType,
+        assignedPatientIds: [],
+        floor: floorType,
+      });
+    }
+  });
   
   // Create floors, beds, and patients
-  for (let floorIndex = 0; floorIndex < 4; floorIndex++) {
+  for (let floorIndex = 0; floorIndex < floorCount; floorIndex++) {
     const floorType = generateFloorType(floorIndex);
     const floorBeds: string[] = [];
-    const bedsPerFloor = 20;
     
     // Create floor
     const floor: Floor = {
@@ -95,55 +420,91 @@ export const generateHospitalData = (): Hospital => {
       beds: floorBeds,
     };
     
+    // Create the rooms, bedsPerRoom beds each
+    const roomCount = Math.ceil(bedsPerFloor / bedsPerRoom);
+    for (let r = 0; r < roomCount; r++) {
+      rooms.push({
+        id: `room-${floorIndex}-${r}`,
+        floorId: floor.id,
+        name: `Room ${r + 1}`,
+        kind: FLOOR_ROOM_KINDS[floorType],
+        bounds: generateRoomBounds(r, bedsPerRoom),
+        capacity: Math.min(bedsPerRoom, bedsPerFloor - r * bedsPerRoom),
+        isolation: ISOLATION_FLOORS.includes(floorType) && r === roomCount - 1,
+      });
+    }
+    if (IMAGING_EQUIPMENT[floorType]) {
+      rooms.push({
+        id: `room-${floorIndex}-imaging`,
+        floorId: floor.id,
+        name: 'Imaging',
+        kind: 'imaging',
+        bounds: generateImagingRoomBounds(bedsPerRoom),
+        capacity: 0,
+        isolation: false,
+      });
+    }
+    
     // Create beds and patients for this floor
     for (let j = 0; j < bedsPerFloor; j++) {
       const bedId = `bed-${floorIndex}-${j}`;
-      const bedStatus = generateBedStatus();
+      const bedStatus = generateBedStatus(random, occupancyRatio, cleaningRatio);
       floorBeds.push(bedId);
       
-      // Room numbering: Room 1, Room 2, etc. - 5 beds per room
-      const roomNumber = Math.floor(j / 5) + 1;
+      // Room numbering: Room 1, Room 2, etc. - bedsPerRoom beds per room
+      const roomIndex = Math.floor(j / bedsPerRoom);
       
       // Create a bed
       const bed: Bed = {
         id: bedId,
-        position: generatePosition(floorIndex, j),
+        position: generatePosition(floorIndex, j, bedsPerRoom),
         status: bedStatus,
         floor: floorType,
-        room: `Room ${roomNumber}`,
+        room: `Room ${roomIndex + 1}`,
+        roomId: `room-${floorIndex}-${roomIndex}`,
+        statusChangedAt: generateStatusChangedAt(random, bedStatus, floorType, referenceTime),
       };
       
       // Add a patient if the bed is occupied
       if (bedStatus === 'occupied') {
         const patientId = `patient-${floorIndex}-${j}`;
-        bed.patientId = patientId;
+        const patientStatus = generatePatientStatus(random, criticalRatio, dischargedRatio);
         
         // Assign random staff to this patient
         const availableStaff = staff.filter(s => s.floor === floorType);
-        const assignedStaff = availableStaff
-          .sort(() => 0.5 - Math.random())
-          .slice(0, 1 + Math.floor(Math.random() * 2))
+        const assignedStaff = random.shuffle(availableStaff)
+          .slice(0, 1 + random.int(2))
           .map(s => s.id);
         
-        // Update staff assignments
-        assignedStaff.forEach(staffId => {
-          const staffMember = staff.find(s => s.id === staffId);
-          if (staffMember) {
-            staffMember.assignedPatientIds.push(patientId);
-          }
-        });
-        
         // Create a patient with a realistic name
         const patient: Patient = {
           id: patientId,
-          name: generatePatientName(),
-          status: generatePatientStatus(),
-          assignedStaffIds: assignedStaff,
+          name: generatePatientName(random),
+          status: patientStatus,
+          assignedStaffIds: [],
           admissionType: floorType as AdmissionType,
-          bedId: bedId,
         };
         
+        if (patientStatus === 'discharged') {
+          // Just discharged: the bed is already waiting to be cleaned
+          bed.status = 'cleaning';
+          bed.statusChangedAt = generateStatusChangedAt(random, 'cleaning', floorType, referenceTime);
+        } else {
+          bed.patientId = patientId;
+          patient.bedId = bedId;
+          patient.assignedStaffIds = assignedStaff;
+          
+          // Update staff assignments
+          assignedStaff.forEach(staffId => {
+            const staffMember = staff.find(s => s.id === staffId);
+            if (staffMember) {
+              staffMember.assignedPatientIds.push(patientId);
+            }
+          });
+        }
+        
         patients.push(patient);
+        patientFloorTypes.set(patientId, floorType);
       }
       
       beds.push(bed);
@@ -152,14 +513,62 @@ export const generateHospitalData = (): Hospital => {
     floors.push(floor);
   }
   
-  return { floors, beds, patients, staff };
+  // Generated last, so adding equipment does not change the hospital a seed produced before
+  const equipment = generateEquipment(random, floors, rooms, beds, referenceTime);
+  
+  // Clinical records come after the equipment for the same reason
+  const recordedPatients = patients.map(patient =>
+    generateClinicalRecord(random, patient, patientFloorTypes.get(patient.id), referenceTime)
+  );
+  
+  // Then the admission queue, which reserves some of the available beds
+  const pendingAdmissions = generatePendingAdmissions(random, pendingAdmissionCount, floors, beds, rooms, referenceTime);
+  
+  return { floors, beds, patients: recordedPatients, staff, equipment, rooms, pendingAdmissions };
 };
 
-// Update a specific bed status
-export const updateBedStatus = (hospital: Hospital, bedId: string, newStatus: BedStatus): Hospital => {
+// Raised when a mutation would leave the hospital in an inconsistent state
+export class HospitalOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HospitalOperationError';
+  }
+}
+
+// Queued admission a bed is held for; such beds only change through the admission queue
+const findBedReservation = (hospital: Hospital, bedId: string) =>
+  hospital.pendingAdmissions?.find(admission => admission.reservedBedId === bedId);
+
+// Update a specific bed status following the bed state machine; occupancy itself only changes through admit/transfer/discharge,
+// and reservations through the admission queue
+export const updateBedStatus = (hospital: Hospital, bedId: string, newStatus: BedStatus, at: Date = new Date()): Hospital => {
+  const target = hospital.beds.find(bed => bed.id === bedId);
+  if (!target) {
+    throw new HospitalOperationError(`Bed ${bedId} does not exist`);
+  }
+  if (target.status === newStatus) {
+    return hospital;
+  }
+  if (target.patientId) {
+    throw new HospitalOperationError(`Bed ${bedId} still holds a patient; transfer or discharge them first`);
+  }
+  if (newStatus === 'occupied') {
+    throw new HospitalOperationError(`Bed ${bedId} has no patient; admit a patient to occupy it`);
+  }
+  if (newStatus === 'reserved') {
+    throw new HospitalOperationError(`Bed ${bedId} can only be reserved for a queued patient`);
+  }
+  if (!canTransitionBed(target.status, newStatus)) {
+    throw new HospitalOperationError(`Bed ${bedId} cannot go from ${target.status} to ${newStatus}`);
+  }
+  const reservation = findBedReservation(hospital, bedId);
+  if (reservation) {
+    throw new HospitalOperationError(`Bed ${bedId} is reserved for ${reservation.patientName}; release the reservation first`);
+  }
+  
   const updatedBeds = hospital.beds.map(bed => {
     if (bed.id === bedId) {
-      return { ...bed, status: newStatus };
+      return withBedStatus(bed, newStatus, at);
     }
     return bed;
   });
@@ -167,8 +576,17 @@ export const updateBedStatus = (hospital: Hospital, bedId: string, newStatus: Be
   return { ...hospital, beds: updatedBeds };
 };
 
-// Update a specific patient status
-export const updatePatientStatus = (hospital: Hospital, patientId: string, newStatus: PatientStatus): Hospital => {
+// Update the status of an admitted patient; marking them discharged runs the full discharge. Patients
+// without a bed have to be admitted again before their status can change
+export const updatePatientStatus = (hospital: Hospital, patientId: string, newStatus: PatientStatus, at: Date = new Date()): Hospital => {
+  const target = findAdmittedPatient(hospital, patientId);
+  if (target.status === newStatus) {
+    return hospital;
+  }
+  if (newStatus === 'discharged') {
+    return dischargePatient(hospital, patientId, at);
+  }
+  
   const updatedPatients = hospital.patients.map(patient => {
     if (patient.id === patientId) {
       return { ...patient, status: newStatus };
@@ -178,3 +596,159 @@ export const updatePatientStatus = (hospital: Hospital, patientId: string, newSt
   
   return { ...hospital, patients: updatedPatients };
 };
+
+// Set an equipment status; coming back from maintenance counts as a service
+export const updateEquipmentStatus = (
+  hospital: Hospital,
+  equipmentId: string,
+  status: EquipmentStatus,
+  at: Date = new Date()
+): Hospital => {
+  const target = hospital.equipment.find(item => item.id === equipmentId);
+  if (!target) {
+    throw new HospitalOperationError(`Equipment ${equipmentId} does not exist`);
+  }
+  if (target.status === status) {
+    return hospital;
+  }
+  
+  const serviced = target.status === 'maintenance' && status === 'working';
+  
+  return {
+    ...hospital,
+    equipment: hospital.equipment.map(item =>
+      item.id === equipmentId
+        ? { ...item, status, lastServiceDate: serviced ? at.toISOString() : item.lastServiceDate }
+        : item
+    ),
+  };
+};
+
+export interface AdmissionDetails {
+  name: string;
+  admissionType: AdmissionType;
+  status?: PatientStatus;
+  assignedStaffIds?: string[];
+  diagnosis?: string;
+  allergies?: string[];
+}
+
+// IDs for patients created at runtime (admissions), outside the seeded generator
+export const createPatientId = (): string => `patient-${Math.random().toString(36).substring(2, 9)}`;
+
+const findAvailableBed = (hospital: Hospital, bedId: string): Bed => {
+  const bed = hospital.beds.find(b => b.id === bedId);
+  if (!bed) {
+    throw new HospitalOperationError(`Bed ${bedId} does not exist`);
+  }
+  if (!canTransitionBed(bed.status, 'occupied') || bed.patientId) {
+    throw new HospitalOperationError(`Bed ${bedId} is not available`);
+  }
+  const reservation = findBedReservation(hospital, bedId);
+  if (reservation) {
+    throw new HospitalOperationError(`Bed ${bedId} is reserved for ${reservation.patientName}`);
+  }
+  return bed;
+};
+
+const findAdmittedPatient = (hospital: Hospital, patientId: string): Patient => {
+  const patient = hospital.patients.find(p => p.id === patientId);
+  if (!patient) {
+    throw new HospitalOperationError(`Patient ${patientId} does not exist`);
+  }
+  if (!patient.bedId) {
+    throw new HospitalOperationError(`${patient.name} is not assigned to a bed`);
+  }
+  return patient;
+};
+
+// Admit a new patient into an available bed
+export const admitPatient = (
+  hospital: Hospital,
+  bedId: string,
+  details: AdmissionDetails,
+  patientId: string = createPatientId(),
+  at: Date = new Date()
+): Hospital => {
+  findAvailableBed(hospital, bedId);
+  if (hospital.patients.some(p => p.id === patientId)) {
+    throw new HospitalOperationError(`Patient ${patientId} already exists`);
+  }
+  
+  const assignedStaffIds = (details.assignedStaffIds ?? []).filter(staffId => hospital.staff.some(s => s.id === staffId));
+  
+  const patient: Patient = {
+    id: patientId,
+    name: details.name,
+    status: details.status ?? 'stable',
+    assignedStaffIds,
+    admissionType: details.admissionType,
+    bedId,
+    admittedAt: at.toISOString(),
+    diagnosis: details.diagnosis,
+    allergies: details.allergies ?? [],
+    vitals: [],
+  };
+  
+  return {
+    ...hospital,
+    beds: hospital.beds.map(bed => 
+      bed.id === bedId ? { ...withBedStatus(bed, 'occupied', at), patientId } : bed
+    ),
+    patients: [...hospital.patients, patient],
+    staff: hospital.staff.map(member => 
+      assignedStaffIds.includes(member.id)
+        ? { ...member, assignedPatientIds: [...member.assignedPatientIds, patientId] }
+        : member
+    ),
+  };
+};
+
+// Move an admitted patient to another available bed; the old bed goes to cleaning
+export const transferPatient = (hospital: Hospital, patientId: string, targetBedId: string, at: Date = new Date()): Hospital => {
+  const patient = findAdmittedPatient(hospital, patientId);
+  if (patient.bedId === targetBedId) {
+    throw new HospitalOperationError(`${patient.name} is already in bed ${targetBedId}`);
+  }
+  findAvailableBed(hospital, targetBedId);
+  
+  const sourceBedId = patient.bedId;
+  
+  return {
+    ...hospital,
+    beds: hospital.beds.map(bed => {
+      if (bed.id === sourceBedId) {
+        return { ...withBedStatus(bed, 'cleaning', at), patientId: undefined };
+      }
+      if (bed.id === targetBedId) {
+        return { ...withBedStatus(bed, 'occupied', at), patientId };
+      }
+      return bed;
+    }),
+    patients: hospital.patients.map(p => 
+      p.id === patientId ? { ...p, bedId: targetBedId } : p
+    ),
+  };
+};
+
+// Discharge an admitted patient: frees the bed for cleaning and releases staff assignments
+export const dischargePatient = (hospital: Hospital, patientId: string, at: Date = new Date()): Hospital => {
+  const patient = findAdmittedPatient(hospital, patientId);
+  
+  return {
+    ...hospital,
+    beds: hospital.beds.map(bed => 
+      bed.id === patient.bedId ? { ...withBedStatus(bed, 'cleaning', at), patientId: undefined } : bed
+    ),
+    patients: hospital.patients.map(p => 
+      p.id === patientId 
+        ? { ...p, status: 'discharged', bedId: undefined, assignedStaffIds: [] } 
+        : p
+    ),
+    staff: hospital.staff.map(member => 
+      member.assignedPatientIds.includes(patientId)
+        ? { ...member, assignedPatientIds: member.assignedPatientIds.filter(id => id !== patientId) }
+        : member
+    ),
+  };
+};
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateHospitalData } from "./hospitalDataService";
+import { createFixtureDataSource, createHospitalDataSource, createRestDataSource, getHospitalDataSourceConfig } from "./hospitalDataSource";
+
+const hospital = generateHospitalData({ seed: "data-source" });
+
+const respondWith = (body: unknown, init: ResponseInit = { status: 200 }) =>
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(body), init)));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("createFixtureDataSource", () => {
+  it("returns a fresh copy of the fixture on every fetch", async () => {
+    const source = createFixtureDataSource(hospital);
+    const first = await source.fetchHospital();
+    first.beds.length = 0;
+    expect(await source.fetchHospital()).toEqual(hospital);
+  });
+});
+
+describe("createRestDataSource", () => {
+  it("fills in the lists older backends leave out", async () => {
+    const { equipment, rooms, ...legacy } = hospital;
+    respondWith(legacy);
+    const fetched = await createRestDataSource("/api/hospital").fetchHospital();
+    expect(fetched.equipment).toEqual([]);
+    expect(fetched.rooms).toEqual([]);
+    expect(fetched.beds).toEqual(hospital.beds);
+  });
+
+  it("rejects failed responses and payloads that are not a hospital", async () => {
+    respondWith({}, { status: 503, statusText: "Service Unavailable" });
+    await expect(createRestDataSource("/api/hospital").fetchHospital()).rejects.toThrow("503");
+
+    respondWith({ floors: [] });
+    await expect(createRestDataSource("/api/hospital").fetchHospital()).rejects.toThrow("Invalid hospital payload");
+  });
+});
+
+describe("createHospitalDataSource", () => {
+  it("builds the configured kind of source", () => {
+    expect(createHospitalDataSource({ kind: "mock", generator: { seed: "a" } }).kind).toBe("mock");
+    expect(createHospitalDataSource({ kind: "fixture", fixture: hospital }).kind).toBe("fixture");
+    expect(createHospitalDataSource({ kind: "rest", url: "/api/hospital" }).kind).toBe("rest");
+  });
+
+  it("needs a url for the REST source", () => {
+    expect(() => createHospitalDataSource({ kind: "rest" })).toThrow("requires a url");
+  });
+});
+
+describe("getHospitalDataSourceConfig", () => {
+  it("dates a seeded hospital relative to when the app started, unless a reference time is set", () => {
+    vi.stubEnv("VITE_HOSPITAL_SEED", "ward");
+    const before = Date.now();
+    const { referenceTime } = getHospitalDataSourceConfig().generator;
+    expect(referenceTime).toBeGreaterThanOrEqual(before);
+    expect(referenceTime).toBeLessThanOrEqual(Date.now());
+
+    vi.stubEnv("VITE_HOSPITAL_REFERENCE_TIME", "2025-03-01T00:00:00.000Z");
+    expect(getHospitalDataSourceConfig().generator).toEqual({ seed: "ward", referenceTime: Date.UTC(2025, 2, 1) });
+  });
+});
@@ -0,0 +1,136 @@
+
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData, HospitalGeneratorOptions } from "./hospitalDataService";
+import { applyFloorPlan, fetchFloorPlan } from "./floorPlan";
+import { fromLegacyNote } from "./patientNotes";
+
+export type HospitalDataSourceKind = 'mock' | 'rest' | 'fixture';
+
+// Anything able to produce a Hospital snapshot for the isometric view
+export interface HospitalDataSource {
+  kind: HospitalDataSourceKind;
+  name: string;
+  fetchHospital: (signal?: AbortSignal) => Promise<Hospital>;
+}
+
+export interface HospitalDataSourceConfig {
+  kind: HospitalDataSourceKind;
+  url?: string;
+  fixture?: Hospital;
+  generator?: HospitalGeneratorOptions;
+  // Floor plan (JSON or GeoJSON) laid over whatever the source returns
+  floorPlanUrl?: string;
+}
+
+// Check the minimum shape we need before handing a payload to the view
+const isHospital = (value: unknown): value is Hospital => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return ['floors', 'beds', 'patients', 'staff'].every(key => Array.isArray(candidate[key]));
+};
+
+// Data from the mock generator; a fresh random hospital on every fetch unless a seed is given
+export const createMockDataSource = (options: HospitalGeneratorOptions = {}): HospitalDataSource => ({
+  kind: 'mock',
+  name: options.seed !== undefined ? `Mock generator (seed ${options.seed})` : 'Mock generator',
+  fetchHospital: async () => generateHospitalData(options),
+});
+
+// Hospital served as JSON by a REST endpoint
+export const createRestDataSource = (url: string): HospitalDataSource => ({
+  kind: 'rest',
+  name: `REST (${url})`,
+  fetchHospital: async (signal?: AbortSignal) => {
+    const response = await fetch(url, {
+      signal,
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load hospital data from ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const payload: unknown = await response.json();
+    if (!isHospital(payload)) {
+      throw new Error(`Invalid hospital payload received from ${url}`);
+    }
+
+    // Backends without an equipment inventory or floor plan omit those lists
+    return {
+      ...payload,
+      patients: payload.patients.map(fromLegacyNote),
+      equipment: payload.equipment ?? [],
+      rooms: payload.rooms ?? [],
+    };
+  },
+});
+
+// Fixed in-memory snapshot; every fetch returns a fresh copy so local edits never leak back
+export const createFixtureDataSource = (fixture: Hospital = generateHospitalData()): HospitalDataSource => ({
+  kind: 'fixture',
+  name: 'In-memory fixture',
+  fetchHospital: async () => structuredClone(fixture),
+});
+
+// Lay a floor plan over another source's snapshot, e.g. real ward layouts over REST or mock data
+export const withFloorPlan = (source: HospitalDataSource, floorPlanUrl: string): HospitalDataSource => ({
+  ...source,
+  name: `${source.name} with floor plan (${floorPlanUrl})`,
+  fetchHospital: async (signal?: AbortSignal) => {
+    const [hospital, plan] = await Promise.all([source.fetchHospital(signal), fetchFloorPlan(floorPlanUrl, signal)]);
+    return applyFloorPlan(hospital, plan);
+  },
+});
+
+const createBaseDataSource = (config: HospitalDataSourceConfig): HospitalDataSource => {
+  switch (config.kind) {
+    case 'rest':
+      if (!config.url) {
+        throw new Error('The REST hospital data source requires a url');
+      }
+      return createRestDataSource(config.url);
+    case 'fixture':
+      return createFixtureDataSource(config.fixture ?? generateHospitalData(config.generator));
+    case 'mock':
+    default:
+      return createMockDataSource(config.generator);
+  }
+};
+
+export const createHospitalDataSource = (config: HospitalDataSourceConfig): HospitalDataSource => {
+  const source = createBaseDataSource(config);
+  return config.floorPlanUrl ? withFloorPlan(source, config.floorPlanUrl) : source;
+};
+
+// Read the data source selection from the Vite environment
+// (VITE_HOSPITAL_DATA_SOURCE / VITE_HOSPITAL_API_URL / VITE_HOSPITAL_SEED / VITE_HOSPITAL_REFERENCE_TIME /
+// VITE_HOSPITAL_FLOOR_PLAN_URL)
+export const getHospitalDataSourceConfig = (): HospitalDataSourceConfig => {
+  const kind = import.meta.env.VITE_HOSPITAL_DATA_SOURCE;
+  const seed = import.meta.env.VITE_HOSPITAL_SEED;
+  const referenceTime = import.meta.env.VITE_HOSPITAL_REFERENCE_TIME;
+  if (referenceTime && Number.isNaN(Date.parse(referenceTime))) {
+    throw new Error(`VITE_HOSPITAL_REFERENCE_TIME is not a valid date: ${referenceTime}`);
+  }
+
+  // A seeded hospital is dated relative to when the app was opened, so its waits and cleaning times
+  // look current; the fixed SEEDED_REFERENCE_TIME is for tests
+  return {
+    kind: kind === 'rest' || kind === 'fixture' ? kind : 'mock',
+    url: import.meta.env.VITE_HOSPITAL_API_URL,
+    generator: {
+      ...(seed ? { seed, referenceTime: Date.now() } : {}),
+      ...(referenceTime ? { referenceTime: Date.parse(referenceTime) } : {}),
+    },
+    floorPlanUrl: import.meta.env.VITE_HOSPITAL_FLOOR_PLAN_URL,
+  };
+};
+
+let defaultHospitalDataSource: HospitalDataSource | null = null;
+
+// The source selected by the environment, created on first use so a bad configuration surfaces as a
+// failed fetch instead of an error at import time
+export const getDefaultHospitalDataSource = (): HospitalDataSource => {
+  defaultHospitalDataSource ??= createHospitalDataSource(getHospitalDataSourceConfig());
+  return defaultHospitalDataSource;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { generateHospitalData, HospitalOperationError } from "./hospitalDataService";
+import { applyHospitalEvent, createHospitalEvent, describeHospitalEvent, getEventChange, HospitalEvent, replayHospitalEvents } from "./hospitalEvents";
+import { validateHospital } from "./hospitalValidator";
+import { DEFAULT_STAFFING_RULES } from "./staffing";
+
+const base = generateHospitalData({ seed: "events" });
+const availableBed = base.beds.find(bed => bed.status === "available" && !base.pendingAdmissions.some(a => a.reservedBedId === bed.id));
+const admitted = base.patients.find(patient => patient.bedId && patient.status === "stable");
+
+const events: HospitalEvent[] = [
+  createHospitalEvent(
+    { type: "patient-admitted", patientId: "patient-new", bedId: availableBed.id, details: { name: "Alex Morgan", admissionType: "General" } },
+    "Nurse A",
+    "local",
+    new Date("2025-01-02T08:00:00.000Z")
+  ),
+  createHospitalEvent({ type: "patient-status-changed", patientId: admitted.id, status: "critical" }, "Nurse A", "local", new Date("2025-01-02T08:05:00.000Z")),
+  createHospitalEvent({ type: "patient-discharged", patientId: "patient-new" }, "Dr B", "local", new Date("2025-01-02T09:00:00.000Z")),
+  createHospitalEvent({ type: "hospital-repaired" }, "Dr B", "local", new Date("2025-01-02T09:30:00.000Z")),
+];
+
+describe("replayHospitalEvents", () => {
+  it("applies every event in order", () => {
+    const hospital = replayHospitalEvents(base, events);
+    expect(hospital.patients.find(p => p.id === "patient-new")?.status).toBe("discharged");
+    expect(hospital.patients.find(p => p.id === admitted.id)?.status).toBe("critical");
+    expect(hospital.beds.find(b => b.id === availableBed.id)?.status).toBe("cleaning");
+    expect(validateHospital(hospital)).toEqual([]);
+  });
+
+  it("stamps changes with the event time rather than the time of replay", () => {
+    const bed = replayHospitalEvents(base, events).beds.find(b => b.id === availableBed.id);
+    expect(bed.statusHistory?.slice(-2).map(change => change.at)).toEqual(["2025-01-02T08:00:00.000Z", "2025-01-02T09:00:00.000Z"]);
+  });
+
+  it("gives the same hospital every time the same events are replayed", async () => {
+    const first = replayHospitalEvents(base, events);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(replayHospitalEvents(base, events)).toEqual(first);
+  });
+});
+
+describe("applyHospitalEvent", () => {
+  it("rejects events that are not valid for the hospital", () => {
+    const event = createHospitalEvent({ type: "patient-discharged", patientId: "nobody" }, "Nurse A");
+    expect(() => applyHospitalEvent(base, event)).toThrow(HospitalOperationError);
+  });
+
+  it("holds staff assignments to the given staffing rules", () => {
+    const nurse = base.staff.find(member => member.type === "Nurse" && !admitted.assignedStaffIds.includes(member.id));
+    const event = createHospitalEvent({ type: "staff-assigned", patientId: admitted.id, staffId: nurse.id }, "Nurse A");
+    const rules = { ...DEFAULT_STAFFING_RULES, maxPatientsPerNurse: { ICU: 0, Emergency: 0, Surgery: 0, General: 0 } };
+    expect(() => replayHospitalEvents(base, [event], rules)).toThrow(HospitalOperationError);
+    expect(applyHospitalEvent(base, event, { ...rules, nurseWorkload: "warn" }).staff.find(s => s.id === nurse.id)?.assignedPatientIds).toContain(admitted.id);
+  });
+
+  it("attributes notes to the event's actor", () => {
+    const event = createHospitalEvent(
+      { type: "patient-note-added", patientId: admitted.id, noteId: "note-1", category: "nursing", text: "Comfortable overnight" },
+      "Nurse A",
+      "local",
+      new Date("2025-01-02T07:00:00.000Z")
+    );
+    const note = applyHospitalEvent(base, event).patients.find(p => p.id === admitted.id)?.notes?.slice(-1)[0];
+    expect(note).toMatchObject({ id: "note-1", author: "Nurse A", createdAt: "2025-01-02T07:00:00.000Z" });
+  });
+});
+
+describe("event helpers", () => {
+  it("strips the metadata off an event", () => {
+    expect(getEventChange(events[1])).toEqual({ type: "patient-status-changed", patientId: admitted.id, status: "critical" });
+  });
+
+  it("describes an event using the names in the hospital", () => {
+    expect(describeHospitalEvent(events[1], base)).toContain(admitted.name);
+  });
+});
@@ -0,0 +1,224 @@
+
+import { BedStatus, EquipmentStatus, Hospital, PatientNoteCategory, PatientStatus, PlanPoint, RoomBounds } from "@/types/hospital";
+import { FloorPlan } from "@/types/floorPlan";
+import {
+  AdmissionDetails,
+  admitPatient,
+  dischargePatient,
+  transferPatient,
+  updateBedStatus,
+  updateEquipmentStatus,
+  updatePatientStatus,
+} from "./hospitalDataService";
+import { applyFloorPlan } from "./floorPlan";
+import { addBed, addRoom, moveBed, removeBed, renameRoom, resizeRoom } from "./layoutEditing";
+import { repairHospital } from "./hospitalValidator";
+import { assignStaff, DEFAULT_STAFFING_RULES, StaffingRules, unassignStaff } from "./staffing";
+import { addPatientNote, amendPatientNote, PATIENT_NOTE_CATEGORY_LABELS } from "./patientNotes";
+import {
+  ADMISSION_SOURCE_LABELS,
+  AdmissionRequest,
+  admitQueuedPatient,
+  cancelAdmission,
+  queueAdmission,
+  releaseReservation,
+  reserveBed,
+} from "./admissionQueue";
+import { applyHospitalDeltas, HospitalDelta } from "./liveUpdates";
+
+// A change requested by a user, before it is stamped with who and when
+export type HospitalChange =
+  | { type: 'bed-status-changed'; bedId: string; status: BedStatus }
+  | { type: 'patient-status-changed'; patientId: string; status: PatientStatus }
+  | { type: 'patient-admitted'; patientId: string; bedId: string; details: AdmissionDetails }
+  | { type: 'patient-transferred'; patientId: string; bedId: string }
+  | { type: 'patient-discharged'; patientId: string }
+  | { type: 'equipment-status-changed'; equipmentId: string; status: EquipmentStatus }
+  | { type: 'hospital-repaired' }
+  | { type: 'floor-plan-imported'; plan: FloorPlan }
+  | { type: 'bed-moved'; bedId: string; position: PlanPoint }
+  | { type: 'bed-added'; bedId: string; floorId: string; position: PlanPoint }
+  | { type: 'bed-removed'; bedId: string }
+  | { type: 'room-added'; roomId: string; floorId: string; bounds: RoomBounds; name: string }
+  | { type: 'room-resized'; roomId: string; bounds: RoomBounds }
+  | { type: 'room-renamed'; roomId: string; name: string }
+  | { type: 'staff-assigned'; patientId: string; staffId: string }
+  | { type: 'staff-unassigned'; patientId: string; staffId: string }
+  | { type: 'patient-note-added'; patientId: string; noteId: string; category: PatientNoteCategory; text: string }
+  | { type: 'patient-note-amended'; patientId: string; noteId: string; text: string }
+  | { type: 'admission-queued'; admissionId: string; request: AdmissionRequest }
+  | { type: 'bed-reserved'; admissionId: string; bedId: string }
+  | { type: 'reservation-released'; admissionId: string }
+  | { type: 'admission-cancelled'; admissionId: string }
+  | { type: 'queued-patient-admitted'; admissionId: string; patientId: string }
+  | { type: 'live-update-received'; deltas: HospitalDelta[] };
+
+export type HospitalEventType = HospitalChange['type'];
+
+// Local events come from this user and can be undone; live events were pushed by the server
+export type HospitalEventOrigin = 'local' | 'live';
+
+export interface HospitalEventMeta {
+  id: string;
+  actor: string;
+  origin: HospitalEventOrigin;
+  timestamp: string; // ISO timestamp
+}
+
+// A recorded domain event; the current Hospital is the base snapshot with every event applied in order
+export type HospitalEvent = HospitalChange & HospitalEventMeta;
+
+export const createHospitalEvent = (
+  change: HospitalChange,
+  actor: string,
+  origin: HospitalEventOrigin = 'local',
+  at: Date = new Date()
+): HospitalEvent => ({
+  ...change,
+  id: `event-${Math.random().toString(36).substring(2, 9)}`,
+  actor,
+  origin,
+  timestamp: at.toISOString(),
+});
+
+// Strip the event metadata, e.g. to perform the same change again on redo
+export const getEventChange = ({ id, actor, origin, timestamp, ...change }: HospitalEvent): HospitalChange =>
+  change as HospitalChange;
+
+// Apply a single event; throws HospitalOperationError when the event is not valid for this hospital.
+// Staff assignments are checked against the given staffing rules.
+export const applyHospitalEvent = (
+  hospital: Hospital,
+  event: HospitalEvent,
+  staffingRules: StaffingRules = DEFAULT_STAFFING_RULES
+): Hospital => {
+  const at = new Date(event.timestamp);
+
+  switch (event.type) {
+    case 'bed-status-changed':
+      return updateBedStatus(hospital, event.bedId, event.status, at);
+    case 'patient-status-changed':
+      return updatePatientStatus(hospital, event.patientId, event.status, at);
+    case 'patient-admitted':
+      return admitPatient(hospital, event.bedId, event.details, event.patientId, at);
+    case 'patient-transferred':
+      return transferPatient(hospital, event.patientId, event.bedId, at);
+    case 'patient-discharged':
+      return dischargePatient(hospital, event.patientId, at);
+    case 'equipment-status-changed':
+      return updateEquipmentStatus(hospital, event.equipmentId, event.status, at);
+    case 'hospital-repaired':
+      return repairHospital(hospital, at);
+    case 'floor-plan-imported':
+      return applyFloorPlan(hospital, event.plan, at);
+    case 'bed-moved':
+      return moveBed(hospital, event.bedId, event.position);
+    case 'bed-added':
+      return addBed(hospital, event.floorId, event.position, event.bedId, at);
+    case 'bed-removed':
+      return removeBed(hospital, event.bedId);
+    case 'room-added':
+      return addRoom(hospital, event.floorId, event.bounds, event.name, event.roomId);
+    case 'room-resized':
+      return resizeRoom(hospital, event.roomId, event.bounds);
+    case 'room-renamed':
+      return renameRoom(hospital, event.roomId, event.name);
+    case 'staff-assigned':
+      return assignStaff(hospital, event.patientId, event.staffId, staffingRules);
+    case 'staff-unassigned':
+      return unassignStaff(hospital, event.patientId, event.staffId, staffingRules);
+    // Notes are attributed to whoever recorded the event
+    case 'patient-note-added':
+      return addPatientNote(hospital, event.patientId, { category: event.category, text: event.text }, event.noteId, event.actor, at);
+    case 'patient-note-amended':
+      return amendPatientNote(hospital, event.patientId, event.noteId, event.text, event.actor, at);
+    case 'admission-queued':
+      return queueAdmission(hospital, event.request, event.admissionId, at);
+    case 'bed-reserved':
+      return reserveBed(hospital, event.admissionId, event.bedId, at);
+    case 'reservation-released':
+      return releaseReservation(hospital, event.admissionId, at);
+    case 'admission-cancelled':
+      return cancelAdmission(hospital, event.admissionId, at);
+    case 'queued-patient-admitted':
+      return admitQueuedPatient(hospital, event.admissionId, event.patientId, at);
+    case 'live-update-received':
+      return applyHospitalDeltas(hospital, event.deltas);
+  }
+};
+
+export const replayHospitalEvents = (
+  base: Hospital,
+  events: HospitalEvent[],
+  staffingRules: StaffingRules = DEFAULT_STAFFING_RULES
+): Hospital =>
+  events.reduce((hospital, event) => applyHospitalEvent(hospital, event, staffingRules), base);
+
+// One-line, human readable summary of an event, resolved against the hospital it applies to
+export const describeHospitalEvent = (event: HospitalEvent, hospital: Hospital): string => {
+  const patientName = (patientId: string) => hospital.patients.find(p => p.id === patientId)?.name ?? patientId;
+  const bedLabel = (bedId: string) => {
+    const bed = hospital.beds.find(b => b.id === bedId);
+    return bed ? `${bed.floor} ${bed.room} (${bed.id})` : bedId;
+  };
+  const equipmentName = (equipmentId: string) => hospital.equipment.find(e => e.id === equipmentId)?.name ?? equipmentId;
+  const roomName = (roomId: string) => hospital.rooms.find(r => r.id === roomId)?.name ?? roomId;
+  const floorName = (floorId: string) => hospital.floors.find(f => f.id === floorId)?.name ?? floorId;
+  const staffName = (staffId: string) => hospital.staff.find(s => s.id === staffId)?.name ?? staffId;
+  const queuedName = (admissionId: string) =>
+    hospital.pendingAdmissions?.find(a => a.id === admissionId)?.patientName ?? admissionId;
+
+  switch (event.type) {
+    case 'bed-status-changed':
+      return `Bed ${bedLabel(event.bedId)} set to ${event.status}`;
+    case 'patient-status-changed':
+      return `${patientName(event.patientId)} marked ${event.status}`;
+    case 'patient-admitted':
+      return `${event.details.name} admitted to ${bedLabel(event.bedId)}`;
+    case 'patient-transferred':
+      return `${patientName(event.patientId)} transferred to ${bedLabel(event.bedId)}`;
+    case 'patient-discharged':
+      return `${patientName(event.patientId)} discharged`;
+    case 'equipment-status-changed':
+      return `${equipmentName(event.equipmentId)} set to ${event.status}`;
+    case 'hospital-repaired':
+      return 'Data integrity issues repaired';
+    case 'floor-plan-imported': {
+      const roomCount = event.plan.floors.reduce((count, floor) => count + floor.rooms.length, 0);
+      const planName = event.plan.name ? `Floor plan ${event.plan.name}` : 'Floor plan';
+      return `${planName} imported (${roomCount} ${roomCount === 1 ? 'room' : 'rooms'})`;
+    }
+    case 'bed-moved':
+      return `Bed ${bedLabel(event.bedId)} moved`;
+    case 'bed-added':
+      return `Bed ${event.bedId} added on ${floorName(event.floorId)}`;
+    case 'bed-removed':
+      return `Bed ${bedLabel(event.bedId)} removed`;
+    case 'room-added':
+      return `${event.name} added on ${floorName(event.floorId)}`;
+    case 'room-resized':
+      return `${roomName(event.roomId)} resized`;
+    case 'room-renamed':
+      return `Room renamed to ${event.name}`;
+    case 'staff-assigned':
+      return `${staffName(event.staffId)} assigned to ${patientName(event.patientId)}`;
+    case 'staff-unassigned':
+      return `${staffName(event.staffId)} unassigned from ${patientName(event.patientId)}`;
+    case 'patient-note-added':
+      return `${PATIENT_NOTE_CATEGORY_LABELS[event.category]} note added for ${patientName(event.patientId)}`;
+    case 'patient-note-amended':
+      return `Note amended for ${patientName(event.patientId)}`;
+    case 'admission-queued':
+      return `${event.request.patientName} queued for a ${event.request.floorType} bed (${ADMISSION_SOURCE_LABELS[event.request.source]})`;
+    case 'bed-reserved':
+      return `Bed ${bedLabel(event.bedId)} reserved for ${queuedName(event.admissionId)}`;
+    case 'reservation-released':
+      return `Bed reservation released for ${queuedName(event.admissionId)}`;
+    case 'admission-cancelled':
+      return `Queued admission of ${queuedName(event.admissionId)} cancelled`;
+    case 'queued-patient-admitted':
+      return `${patientName(event.patientId)} admitted from the queue`;
+    case 'live-update-received':
+      return `Live update (${event.deltas.length} ${event.deltas.length === 1 ? 'change' : 'changes'})`;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { generateHospitalData } from "./hospitalDataService";
+import { EMPTY_FILTERS, filtersFromSearchParams, HospitalFilters, matchHospitalFilters, writeFiltersToSearchParams } from "./hospitalFilters";
+
+const hospital = generateHospitalData({ seed: "filters" });
+
+describe("matchHospitalFilters", () => {
+  it("matches nothing in particular when no filter is set", () => {
+    expect(matchHospitalFilters(hospital, EMPTY_FILTERS)).toBeNull();
+    expect(matchHospitalFilters(hospital, { ...EMPTY_FILTERS, mode: "hide" })).toBeNull();
+  });
+
+  it("matches beds on their status", () => {
+    const match = matchHospitalFilters(hospital, { ...EMPTY_FILTERS, bedStatuses: ["available"] });
+    expect([...match.beds].sort()).toEqual(hospital.beds.filter(bed => bed.status === "available").map(bed => bed.id).sort());
+    expect(match.patients.size).toBe(0);
+  });
+
+  it("matches beds and patients on the patient lying in the bed", () => {
+    const match = matchHospitalFilters(hospital, { ...EMPTY_FILTERS, patientStatuses: ["critical"] });
+    const critical = hospital.patients.filter(patient => patient.status === "critical" && patient.bedId);
+    expect([...match.patients].sort()).toEqual(critical.map(patient => patient.id).sort());
+    expect([...match.beds].sort()).toEqual(critical.map(patient => patient.bedId).sort());
+  });
+
+  it("requires every criterion that is set to match", () => {
+    const member = hospital.staff.find(s => s.assignedPatientIds.length > 0);
+    const patient = hospital.patients.find(p => p.id === member.assignedPatientIds[0]);
+    const filters: HospitalFilters = { ...EMPTY_FILTERS, staffId: member.id, admissionTypes: [patient.admissionType] };
+    const match = matchHospitalFilters(hospital, filters);
+    expect(match.patients.has(patient.id)).toBe(true);
+    expect([...match.patients].every(id => member.assignedPatientIds.includes(id))).toBe(true);
+
+    const other = hospital.staff.find(s => s.id !== member.id && !s.assignedPatientIds.includes(patient.id));
+    expect(matchHospitalFilters(hospital, { ...filters, staffId: other.id }).patients.has(patient.id)).toBe(false);
+  });
+
+  it("matches equipment on its own status and room", () => {
+    const item = hospital.equipment.find(e => e.roomId);
+    const match = matchHospitalFilters(hospital, { ...EMPTY_FILTERS, roomId: item.roomId, equipmentStatuses: [item.status] });
+    expect(match.equipment.has(item.id)).toBe(true);
+    expect([...match.equipment].every(id => hospital.equipment.find(e => e.id === id)?.roomId === item.roomId)).toBe(true);
+  });
+});
+
+describe("filter search params", () => {
+  const filters: HospitalFilters = {
+    bedStatuses: ["available", "cleaning"],
+    patientStatuses: ["critical"],
+    admissionTypes: ["Surgery"],
+    staffId: "staff-3",
+    roomId: null,
+    equipmentStatuses: [],
+    mode: "hide",
+  };
+
+  it("round-trips the filters through the URL", () => {
+    const params = writeFiltersToSearchParams(new URLSearchParams(), filters);
+    expect(params.toString()).toBe("bed=available%2Ccleaning&patient=critical&admission=Surgery&staff=staff-3&filter=hide");
+    expect(filtersFromSearchParams(params)).toEqual(filters);
+  });
+
+  it("leaves unrelated params alone and removes cleared filters", () => {
+    const params = writeFiltersToSearchParams(new URLSearchParams("floor=2&bed=available"), EMPTY_FILTERS);
+    expect(params.toString()).toBe("floor=2");
+  });
+
+  it("drops unknown values from hand-edited links", () => {
+    const read = filtersFromSearchParams(new URLSearchParams("bed=available,broken&patient=discharged&filter=blur"));
+    expect(read).toEqual({ ...EMPTY_FILTERS, bedStatuses: ["available"] });
+  });
+});
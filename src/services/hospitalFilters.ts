@@ -0,0 +1,132 @@
+import { AdmissionType, Bed, BedStatus, EquipmentStatus, Hospital, PatientStatus } from "@/types/hospital";
+
+// Non-matching beds, patients and equipment are either drawn dimmed or left out of the scene
+export type FilterMode = 'dim' | 'hide';
+
+// Empty lists and null ids do not filter anything; criteria that are set must all match
+export interface HospitalFilters {
+  bedStatuses: BedStatus[];
+  patientStatuses: PatientStatus[];
+  admissionTypes: AdmissionType[];
+  staffId: string | null;
+  roomId: string | null;
+  equipmentStatuses: EquipmentStatus[];
+  mode: FilterMode;
+}
+
+export const EMPTY_FILTERS: HospitalFilters = {
+  bedStatuses: [],
+  patientStatuses: [],
+  admissionTypes: [],
+  staffId: null,
+  roomId: null,
+  equipmentStatuses: [],
+  mode: 'dim',
+};
+
+export const BED_STATUSES: BedStatus[] = ['available', 'occupied', 'cleaning', 'reserved', 'blocked', 'maintenance'];
+// Discharged patients have no bed and are never drawn, so they cannot be filtered on
+export const PATIENT_STATUSES: PatientStatus[] = ['critical', 'stable'];
+export const ADMISSION_TYPES: AdmissionType[] = ['Emergency', 'ICU', 'General', 'Surgery'];
+export const EQUIPMENT_STATUSES: EquipmentStatus[] = ['working', 'maintenance', 'offline'];
+
+export const hasActiveFilters = (filters: HospitalFilters): boolean =>
+  filters.bedStatuses.length > 0 ||
+  filters.patientStatuses.length > 0 ||
+  filters.admissionTypes.length > 0 ||
+  filters.staffId !== null ||
+  filters.roomId !== null ||
+  filters.equipmentStatuses.length > 0;
+
+// Ids of everything that matches the filters
+export interface HospitalFilterMatch {
+  beds: Set<string>;
+  patients: Set<string>;
+  equipment: Set<string>;
+}
+
+// Beds match on their own status and room, on the patient lying in them (status, admission type,
+// assigned staff) and on the status of their bedside equipment. Patients match along with their bed,
+// and equipment on its own status and room. Returns null when no filter is set.
+export const matchHospitalFilters = (hospital: Hospital, filters: HospitalFilters): HospitalFilterMatch | null => {
+  if (!hasActiveFilters(filters)) return null;
+
+  const patientsById = new Map(hospital.patients.map(patient => [patient.id, patient]));
+  const staff = filters.staffId ? hospital.staff.find(s => s.id === filters.staffId) : undefined;
+  const hasPatientCriteria = filters.patientStatuses.length > 0 || filters.admissionTypes.length > 0 || filters.staffId !== null;
+
+  const equipmentMatches = hospital.equipment.filter(item =>
+    (filters.equipmentStatuses.length === 0 || filters.equipmentStatuses.includes(item.status)) &&
+    (filters.roomId === null || item.roomId === filters.roomId)
+  );
+  const bedsWithMatchingEquipment = new Set(equipmentMatches.map(item => item.bedId).filter(Boolean));
+
+  const bedMatches = (bed: Bed) => {
+    if (filters.bedStatuses.length > 0 && !filters.bedStatuses.includes(bed.status)) return false;
+    if (filters.roomId !== null && bed.roomId !== filters.roomId) return false;
+    if (filters.equipmentStatuses.length > 0 && !bedsWithMatchingEquipment.has(bed.id)) return false;
+    if (!hasPatientCriteria) return true;
+
+    const patient = bed.patientId ? patientsById.get(bed.patientId) : undefined;
+    if (!patient) return false;
+    if (filters.patientStatuses.length > 0 && !filters.patientStatuses.includes(patient.status)) return false;
+    if (filters.admissionTypes.length > 0 && !filters.admissionTypes.includes(patient.admissionType)) return false;
+    if (filters.staffId !== null && !staff?.assignedPatientIds.includes(patient.id)) return false;
+    return true;
+  };
+
+  const beds = hospital.beds.filter(bedMatches);
+
+  return {
+    beds: new Set(beds.map(bed => bed.id)),
+    patients: new Set(beds.map(bed => bed.patientId).filter(Boolean)),
+    equipment: new Set(equipmentMatches.map(item => item.id)),
+  };
+};
+
+// URL form, e.g. ?bed=available,cleaning&patient=critical&staff=staff-3&filter=hide
+const FILTER_PARAMS: Record<keyof HospitalFilters, string> = {
+  bedStatuses: 'bed',
+  patientStatuses: 'patient',
+  admissionTypes: 'admission',
+  staffId: 'staff',
+  roomId: 'room',
+  equipmentStatuses: 'equipment',
+  mode: 'filter',
+};
+
+// Unknown values are dropped, so hand-edited or outdated links still load
+const readList = <T extends string>(params: URLSearchParams, name: string, allowed: T[]): T[] =>
+  (params.get(name) ?? '').split(',').filter((value): value is T => allowed.includes(value as T));
+
+export const filtersFromSearchParams = (params: URLSearchParams): HospitalFilters => ({
+  bedStatuses: readList(params, FILTER_PARAMS.bedStatuses, BED_STATUSES),
+  patientStatuses: readList(params, FILTER_PARAMS.patientStatuses, PATIENT_STATUSES),
+  admissionTypes: readList(params, FILTER_PARAMS.admissionTypes, ADMISSION_TYPES),
+  staffId: params.get(FILTER_PARAMS.staffId) || null,
+  roomId: params.get(FILTER_PARAMS.roomId) || null,
+  equipmentStatuses: readList(params, FILTER_PARAMS.equipmentStatuses, EQUIPMENT_STATUSES),
+  mode: params.get(FILTER_PARAMS.mode) === 'hide' ? 'hide' : 'dim',
+});
+
+// Write the filters into a copy of the params, leaving unrelated params alone; unset criteria are removed
+export const writeFiltersToSearchParams = (params: URLSearchParams, filters: HospitalFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const write = (name: string, value: string | null) => {
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+  };
+
+  write(FILTER_PARAMS.bedStatuses, filters.bedStatuses.join(','));
+  write(FILTER_PARAMS.patientStatuses, filters.patientStatuses.join(','));
+  write(FILTER_PARAMS.admissionTypes, filters.admissionTypes.join(','));
+  write(FILTER_PARAMS.staffId, filters.staffId);
+  write(FILTER_PARAMS.roomId, filters.roomId);
+  write(FILTER_PARAMS.equipmentStatuses, filters.equipmentStatuses.join(','));
+  // Dimming is the default, so only hiding is written
+  write(FILTER_PARAMS.mode, filters.mode === 'hide' ? 'hide' : null);
+  return next;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData } from "./hospitalDataService";
+import { locateEntity } from "./hospitalSearch";
+
+const hospital = generateHospitalData({ seed: "search" });
+const bed = hospital.beds.find(b => b.patientId);
+const bedFloor = hospital.floors.find(floor => floor.beds.includes(bed.id));
+
+describe("locateEntity", () => {
+  it("finds a bed on its floor", () => {
+    expect(locateEntity(hospital, { type: "bed", id: bed.id })).toEqual({
+      floorId: bedFloor.id,
+      position: { x: bed.position.x, y: bedFloor.level * 4, z: bed.position.z },
+      size: 3,
+    });
+  });
+
+  it("finds a patient in their bed, and nowhere once they have left", () => {
+    expect(locateEntity(hospital, { type: "patient", id: bed.patientId })).toEqual(locateEntity(hospital, { type: "bed", id: bed.id }));
+
+    const discharged = hospital.patients.find(patient => !patient.bedId);
+    expect(locateEntity(hospital, { type: "patient", id: discharged.id })).toBeNull();
+  });
+
+  it("frames a whole room around its center", () => {
+    const room = hospital.rooms[0];
+    const { minX, minZ, maxX, maxZ } = room.bounds;
+    expect(locateEntity(hospital, { type: "room", id: room.id })).toMatchObject({
+      floorId: room.floorId,
+      position: { x: (minX + maxX) / 2, z: (minZ + maxZ) / 2 },
+      size: Math.max(maxX - minX, maxZ - minZ),
+    });
+  });
+
+  it("finds staff at the bed of their first patient, or on their floor without patients", () => {
+    const member = hospital.staff.find(s => s.assignedPatientIds.length > 0);
+    expect(locateEntity(hospital, { type: "staff", id: member.id })).toEqual(
+      locateEntity(hospital, { type: "patient", id: member.assignedPatientIds[0] })
+    );
+
+    const idle: Hospital = { ...hospital, staff: hospital.staff.map(s => (s.id === member.id ? { ...s, assignedPatientIds: [] } : s)) };
+    const floor = hospital.floors.find(f => f.type === member.floor);
+    expect(locateEntity(idle, { type: "staff", id: member.id })).toMatchObject({ floorId: floor.id, size: 25 });
+  });
+
+  it("returns null for unknown entities", () => {
+    expect(locateEntity(hospital, { type: "bed", id: "nope" })).toBeNull();
+    expect(locateEntity(hospital, { type: "staff", id: "nope" })).toBeNull();
+  });
+});
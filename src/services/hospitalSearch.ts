@@ -0,0 +1,61 @@
+import { Hospital, Position } from "@/types/hospital";
+
+// Entities the search palette can find
+export type SearchEntityType = 'patient' | 'bed' | 'room' | 'staff';
+
+export interface SearchTarget {
+  type: SearchEntityType;
+  id: string;
+}
+
+// Where an entity is: its floor, the point to look at and roughly how much to frame around it, in metres
+export interface EntityLocation {
+  floorId: string;
+  position: Position;
+  size: number;
+}
+
+// A bed, with the patient lying in it, fits in about 3 m
+const BED_FRAME_SIZE = 3;
+
+const locateBed = (hospital: Hospital, bedId: string): EntityLocation | null => {
+  const bed = hospital.beds.find(b => b.id === bedId);
+  const floor = hospital.floors.find(f => f.beds.includes(bedId));
+  if (!bed || !floor) return null;
+  return { floorId: floor.id, position: { x: bed.position.x, y: floor.level * 4, z: bed.position.z }, size: BED_FRAME_SIZE };
+};
+
+// Resolve a search result to a place in the scene. Patients are found in their bed, and staff at
+// the bed of their first assigned patient, or on their floor when they have none.
+export const locateEntity = (hospital: Hospital, target: SearchTarget): EntityLocation | null => {
+  switch (target.type) {
+    case 'bed':
+      return locateBed(hospital, target.id);
+    case 'patient': {
+      const patient = hospital.patients.find(p => p.id === target.id);
+      return patient?.bedId ? locateBed(hospital, patient.bedId) : null;
+    }
+    case 'room': {
+      const room = hospital.rooms.find(r => r.id === target.id);
+      const floor = room && hospital.floors.find(f => f.id === room.floorId);
+      if (!room || !floor) return null;
+      const { minX, minZ, maxX, maxZ } = room.bounds;
+      return {
+        floorId: floor.id,
+        position: { x: (minX + maxX) / 2, y: floor.level * 4, z: (minZ + maxZ) / 2 },
+        size: Math.max(maxX - minX, maxZ - minZ),
+      };
+    }
+    case 'staff': {
+      const staff = hospital.staff.find(s => s.id === target.id);
+      if (!staff) return null;
+      const bedLocation = staff.assignedPatientIds
+        .map(patientId => locateEntity(hospital, { type: 'patient', id: patientId }))
+        .find(Boolean);
+      if (bedLocation) return bedLocation;
+
+      const floor = hospital.floors.find(f => f.type === staff.floor);
+      return floor ? { floorId: floor.id, position: { x: 0, y: floor.level * 4, z: 0 }, size: 25 } : null;
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData } from "./hospitalDataService";
+import { repairHospital, validateHospital } from "./hospitalValidator";
+
+const hospital = generateHospitalData({ seed: "validator" });
+const occupiedBed = hospital.beds.find(bed => bed.patientId);
+const patient = hospital.patients.find(p => p.id === occupiedBed.patientId);
+const queued = hospital.pendingAdmissions.find(admission => admission.reservedBedId);
+
+// A copy where the patient has lost their bed, but the bed still holds them
+const brokenHospital: Hospital = {
+  ...hospital,
+  patients: hospital.patients.map(p => (p.id === patient.id ? { ...p, bedId: undefined } : p)),
+};
+
+describe("validateHospital", () => {
+  it("finds nothing wrong with a generated hospital", () => {
+    expect(validateHospital(hospital)).toEqual([]);
+  });
+
+  it("reports broken bed and patient references", () => {
+    const codes = validateHospital(brokenHospital).map(violation => violation.code);
+    expect(codes).toContain("bed-patient-mismatch");
+    expect(codes).toContain("patient-without-bed");
+  });
+
+  it("reports duplicate ids", () => {
+    const duplicated = { ...hospital, beds: [...hospital.beds, hospital.beds[0]] };
+    expect(validateHospital(duplicated)).toContainEqual(expect.objectContaining({ code: "duplicate-id", entityIds: [hospital.beds[0].id] }));
+  });
+
+  it("reports reserved beds that no queued patient holds", () => {
+    const unqueued = { ...hospital, pendingAdmissions: hospital.pendingAdmissions.filter(admission => admission.id !== queued.id) };
+    expect(validateHospital(unqueued)).toEqual([expect.objectContaining({ code: "reserved-bed-without-admission", entityIds: [queued.reservedBedId] })]);
+  });
+});
+
+describe("repairHospital", () => {
+  const at = new Date("2025-02-01T12:00:00.000Z");
+
+  it("leaves a hospital without violations", () => {
+    expect(validateHospital(repairHospital(brokenHospital, at))).toEqual([]);
+  });
+
+  it("stamps repaired bed transitions with the given time", () => {
+    const repaired = repairHospital({
+      ...hospital,
+      beds: hospital.beds.map(bed => (bed.id === occupiedBed.id ? { ...bed, status: "available" } : bed)),
+    }, at);
+    const bed = repaired.beds.find(b => b.id === occupiedBed.id);
+    expect(bed.status).toBe("occupied");
+    expect(bed.statusChangedAt).toBe(at.toISOString());
+  });
+
+  it("frees reserved beds whose reservation it drops", () => {
+    const beingCleaned = {
+      ...hospital,
+      beds: hospital.beds.map(bed => (bed.id === queued.reservedBedId ? { ...bed, status: "cleaning" as const } : bed)),
+    };
+    const repaired = repairHospital(beingCleaned, at);
+    expect(repaired.pendingAdmissions.find(admission => admission.id === queued.id)?.reservedBedId).toBeUndefined();
+    expect(validateHospital(repaired)).toEqual([]);
+
+    const unqueued = { ...hospital, pendingAdmissions: hospital.pendingAdmissions.filter(admission => admission.id !== queued.id) };
+    expect(repairHospital(unqueued, at).beds.find(bed => bed.id === queued.reservedBedId)?.status).toBe("available");
+  });
+
+  it("drops beds of a floor type the hospital has no floor for, discharging their patients", () => {
+    const [first, ...floors] = hospital.floors;
+    const withoutFloor = { ...hospital, floors: floors.filter(floor => floor.type !== first.type) };
+    expect(validateHospital(withoutFloor).map(violation => violation.code)).toContain("bed-without-floor");
+
+    const repaired = repairHospital(withoutFloor, at);
+    expect(repaired.beds.some(bed => bed.floor === first.type)).toBe(false);
+    expect(repaired.patients.filter(p => hospital.beds.some(bed => bed.floor === first.type && bed.patientId === p.id)).every(p => p.status === "discharged")).toBe(true);
+    expect(validateHospital(repaired)).toEqual([]);
+  });
+
+  it("gives the same result every time for the same input and time", () => {
+    expect(repairHospital(brokenHospital, at)).toEqual(repairHospital(brokenHospital, at));
+  });
+});
@@ -0,0 +1,390 @@
+
+import { Bed, Floor, Hospital, Patient, Staff } from "@/types/hospital";
+import { withBedStatus } from "./bedStatusMachine";
+
+export type HospitalViolationCode =
+  | 'duplicate-id'
+  | 'bed-unknown-patient'
+  | 'bed-patient-mismatch'
+  | 'patient-unknown-bed'
+  | 'patient-bed-mismatch'
+  | 'bed-status-mismatch'
+  | 'discharged-patient-in-bed'
+  | 'patient-without-bed'
+  | 'staff-unknown-patient'
+  | 'patient-unknown-staff'
+  | 'staff-assignment-asymmetric'
+  | 'floor-unknown-bed'
+  | 'floor-bed-type-mismatch'
+  | 'bed-without-floor'
+  | 'equipment-unknown-bed'
+  | 'room-unknown-floor'
+  | 'bed-unknown-room'
+  | 'equipment-unknown-room'
+  | 'admission-unknown-bed'
+  | 'admission-bed-mismatch'
+  | 'reserved-bed-without-admission';
+
+export interface HospitalViolation {
+  code: HospitalViolationCode;
+  message: string;
+  // IDs of the floors, rooms, beds, patients, staff or equipment involved, so the UI can point at them
+  entityIds: string[];
+}
+
+const findDuplicateIds = (items: { id: string }[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  items.forEach(item => {
+    if (seen.has(item.id)) duplicates.add(item.id);
+    seen.add(item.id);
+  });
+  return [...duplicates];
+};
+
+// Check a hospital snapshot for broken invariants between floors, rooms, beds, patients, staff and queued admissions
+export const validateHospital = (hospital: Hospital): HospitalViolation[] => {
+  const violations: HospitalViolation[] = [];
+  const bedsById = new Map(hospital.beds.map(bed => [bed.id, bed]));
+  const patientsById = new Map(hospital.patients.map(patient => [patient.id, patient]));
+  const staffById = new Map(hospital.staff.map(member => [member.id, member]));
+  const roomIds = new Set(hospital.rooms.map(room => room.id));
+
+  // Duplicate IDs within each collection
+  const collections: [string, { id: string }[]][] = [
+    ['floor', hospital.floors],
+    ['room', hospital.rooms],
+    ['bed', hospital.beds],
+    ['patient', hospital.patients],
+    ['staff member', hospital.staff],
+    ['equipment', hospital.equipment],
+    ['admission request', hospital.pendingAdmissions ?? []],
+  ];
+  collections.forEach(([label, items]) => {
+    findDuplicateIds(items).forEach(id => {
+      violations.push({ code: 'duplicate-id', message: `Duplicate ${label} id ${id}`, entityIds: [id] });
+    });
+  });
+
+  // Bed -> patient back-references and bed status
+  hospital.beds.forEach(bed => {
+    if (bed.patientId) {
+      const patient = patientsById.get(bed.patientId);
+      if (!patient) {
+        violations.push({
+          code: 'bed-unknown-patient',
+          message: `Bed ${bed.id} references unknown patient ${bed.patientId}`,
+          entityIds: [bed.id, bed.patientId],
+        });
+      } else if (patient.bedId !== bed.id) {
+        violations.push({
+          code: 'bed-patient-mismatch',
+          message: `Bed ${bed.id} holds ${patient.name}, but the patient points to ${patient.bedId ?? 'no bed'}`,
+          entityIds: [bed.id, patient.id],
+        });
+      }
+    }
+
+    if (bed.patientId && bed.status !== 'occupied') {
+      violations.push({
+        code: 'bed-status-mismatch',
+        message: `Bed ${bed.id} has a patient but is marked ${bed.status}`,
+        entityIds: [bed.id],
+      });
+    } else if (!bed.patientId && bed.status === 'occupied') {
+      violations.push({
+        code: 'bed-status-mismatch',
+        message: `Bed ${bed.id} is marked occupied but has no patient`,
+        entityIds: [bed.id],
+      });
+    }
+  });
+
+  // Patient -> bed and patient -> staff references
+  hospital.patients.forEach(patient => {
+    if (patient.bedId) {
+      const bed = bedsById.get(patient.bedId);
+      if (!bed) {
+        violations.push({
+          code: 'patient-unknown-bed',
+          message: `${patient.name} references unknown bed ${patient.bedId}`,
+          entityIds: [patient.id, patient.bedId],
+        });
+      } else if (bed.patientId !== patient.id) {
+        violations.push({
+          code: 'patient-bed-mismatch',
+          message: `${patient.name} points to bed ${bed.id}, which holds ${bed.patientId ?? 'nobody'}`,
+          entityIds: [patient.id, bed.id],
+        });
+      }
+
+      if (patient.status === 'discharged') {
+        violations.push({
+          code: 'discharged-patient-in-bed',
+          message: `${patient.name} is discharged but still holds bed ${patient.bedId}`,
+          entityIds: [patient.id, patient.bedId],
+        });
+      }
+    } else if (patient.status !== 'discharged') {
+      violations.push({
+        code: 'patient-without-bed',
+        message: `${patient.name} is marked ${patient.status} but has no bed`,
+        entityIds: [patient.id],
+      });
+    }
+
+    patient.assignedStaffIds.forEach(staffId => {
+      const member = staffById.get(staffId);
+      if (!member) {
+        violations.push({
+          code: 'patient-unknown-staff',
+          message: `${patient.name} is assigned to unknown staff member ${staffId}`,
+          entityIds: [patient.id, staffId],
+        });
+      } else if (!member.assignedPatientIds.includes(patient.id)) {
+        violations.push({
+          code: 'staff-assignment-asymmetric',
+          message: `${patient.name} lists ${member.name}, but ${member.name} does not list the patient`,
+          entityIds: [patient.id, member.id],
+        });
+      }
+    });
+  });
+
+  // Staff -> patient references
+  hospital.staff.forEach(member => {
+    member.assignedPatientIds.forEach(patientId => {
+      const patient = patientsById.get(patientId);
+      if (!patient) {
+        violations.push({
+          code: 'staff-unknown-patient',
+          message: `${member.name} is assigned to unknown patient ${patientId}`,
+          entityIds: [member.id, patientId],
+        });
+      } else if (!patient.assignedStaffIds.includes(member.id)) {
+        violations.push({
+          code: 'staff-assignment-asymmetric',
+          message: `${member.name} lists ${patient.name}, but the patient does not list ${member.name}`,
+          entityIds: [member.id, patient.id],
+        });
+      }
+    });
+  });
+
+  // floor.beds vs bed.floor
+  const listedBedIds = new Set<string>();
+  hospital.floors.forEach(floor => {
+    floor.beds.forEach(bedId => {
+      listedBedIds.add(bedId);
+      const bed = bedsById.get(bedId);
+      if (!bed) {
+        violations.push({
+          code: 'floor-unknown-bed',
+          message: `${floor.name} lists unknown bed ${bedId}`,
+          entityIds: [floor.id, bedId],
+        });
+      } else if (bed.floor !== floor.type) {
+        violations.push({
+          code: 'floor-bed-type-mismatch',
+          message: `${floor.name} lists bed ${bed.id}, which belongs to ${bed.floor}`,
+          entityIds: [floor.id, bed.id],
+        });
+      }
+    });
+  });
+  hospital.beds.forEach(bed => {
+    if (!listedBedIds.has(bed.id)) {
+      violations.push({
+        code: 'bed-without-floor',
+        message: `Bed ${bed.id} is not listed on any floor`,
+        entityIds: [bed.id],
+      });
+    }
+  });
+
+  // Bedside equipment -> bed
+  hospital.equipment.forEach(item => {
+    if (item.bedId && !bedsById.has(item.bedId)) {
+      violations.push({
+        code: 'equipment-unknown-bed',
+        message: `${item.name} is assigned to unknown bed ${item.bedId}`,
+        entityIds: [item.id, item.bedId],
+      });
+    }
+  });
+
+  // Room -> floor, and bed/equipment -> room
+  hospital.rooms.forEach(room => {
+    if (!hospital.floors.some(floor => floor.id === room.floorId)) {
+      violations.push({
+        code: 'room-unknown-floor',
+        message: `${room.name} is on unknown floor ${room.floorId}`,
+        entityIds: [room.id, room.floorId],
+      });
+    }
+  });
+  hospital.beds.forEach(bed => {
+    if (bed.roomId && !roomIds.has(bed.roomId)) {
+      violations.push({
+        code: 'bed-unknown-room',
+        message: `Bed ${bed.id} is in unknown room ${bed.roomId}`,
+        entityIds: [bed.id, bed.roomId],
+      });
+    }
+  });
+  hospital.equipment.forEach(item => {
+    if (item.roomId && !roomIds.has(item.roomId)) {
+      violations.push({
+        code: 'equipment-unknown-room',
+        message: `${item.name} is in unknown room ${item.roomId}`,
+        entityIds: [item.id, item.roomId],
+      });
+    }
+  });
+
+  // Queued admission -> reserved bed; a bed is held for one queued patient at most, and a reserved bed
+  // is held for one
+  const reservedBedIds = new Set<string>();
+  (hospital.pendingAdmissions ?? []).forEach(admission => {
+    if (!admission.reservedBedId) return;
+    const bed = bedsById.get(admission.reservedBedId);
+    if (!bed) {
+      violations.push({
+        code: 'admission-unknown-bed',
+        message: `Bed ${admission.reservedBedId} reserved for ${admission.patientName} does not exist`,
+        entityIds: [admission.id, admission.reservedBedId],
+      });
+    } else if (bed.status !== 'reserved' || bed.patientId) {
+      violations.push({
+        code: 'admission-bed-mismatch',
+        message: `Bed ${bed.id} is reserved for ${admission.patientName} but is marked ${bed.status}`,
+        entityIds: [admission.id, bed.id],
+      });
+    } else if (reservedBedIds.has(bed.id)) {
+      violations.push({
+        code: 'admission-bed-mismatch',
+        message: `Bed ${bed.id} is reserved for more than one queued patient, including ${admission.patientName}`,
+        entityIds: [admission.id, bed.id],
+      });
+    }
+    reservedBedIds.add(admission.reservedBedId);
+  });
+  hospital.beds.forEach(bed => {
+    if (bed.status === 'reserved' && !reservedBedIds.has(bed.id)) {
+      violations.push({
+        code: 'reserved-bed-without-admission',
+        message: `Bed ${bed.id} is marked reserved, but no queued patient holds it`,
+        entityIds: [bed.id],
+      });
+    }
+  });
+
+  return violations;
+};
+
+const dedupeById = <T extends { id: string }>(items: T[]): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+};
+
+// Return a copy of the hospital with every invariant checked by validateHospital restored.
+// Beds are the source of truth for occupancy; staff assignments are made symmetric.
+export const repairHospital = (hospital: Hospital, at: Date = new Date()): Hospital => {
+  const floors = dedupeById(hospital.floors);
+  // Rooms on a floor that no longer exists are dropped, and beds and equipment leave them
+  const rooms = dedupeById(hospital.rooms).filter(room => floors.some(floor => floor.id === room.floorId));
+  const roomIds = new Set(rooms.map(room => room.id));
+  // Beds of a floor type no floor has cannot be placed anywhere and are dropped; their patients
+  // count as discharged below
+  const floorTypes = new Set(floors.map(floor => floor.type));
+  let beds: Bed[] = dedupeById(hospital.beds)
+    .filter(bed => floorTypes.has(bed.floor))
+    .map(bed => (bed.roomId && !roomIds.has(bed.roomId) ? { ...bed, roomId: undefined } : bed));
+  let patients: Patient[] = dedupeById(hospital.patients);
+  const patientIds = new Set(patients.map(p => p.id));
+  const staffIds = new Set(dedupeById(hospital.staff).map(s => s.id));
+
+  // A bed can only hold a known, non-discharged patient, and each patient only one bed
+  const claimedPatientIds = new Set<string>();
+  const dischargedIds = new Set(patients.filter(p => p.status === 'discharged').map(p => p.id));
+  beds = beds.map(bed => {
+    const keepsPatient = bed.patientId
+      && patientIds.has(bed.patientId)
+      && !dischargedIds.has(bed.patientId)
+      && !claimedPatientIds.has(bed.patientId);
+
+    if (keepsPatient) {
+      claimedPatientIds.add(bed.patientId);
+      return withBedStatus(bed, 'occupied', at);
+    }
+    if (bed.patientId || bed.status === 'occupied') {
+      return { ...withBedStatus(bed, 'cleaning', at), patientId: undefined };
+    }
+    return bed;
+  });
+
+  const bedIdByPatient = new Map(beds.filter(b => b.patientId).map(b => [b.patientId, b.id]));
+  // Patients left without a bed count as discharged
+  patients = patients.map(patient => {
+    const bedId = bedIdByPatient.get(patient.id);
+    const status = bedId ? patient.status : 'discharged';
+    return patient.bedId === bedId && patient.status === status ? patient : { ...patient, bedId, status };
+  });
+
+  // Symmetric staff assignments: keep an assignment if either side records it
+  const assignments = new Set<string>();
+  patients.forEach(patient => patient.assignedStaffIds.forEach(staffId => assignments.add(`${staffId}|${patient.id}`)));
+  hospital.staff.forEach(member => member.assignedPatientIds.forEach(patientId => assignments.add(`${member.id}|${patientId}`)));
+  const validAssignments = [...assignments]
+    .map(key => key.split('|'))
+    .filter(([staffId, patientId]) => staffIds.has(staffId) && patientIds.has(patientId));
+
+  patients = patients.map(patient => ({
+    ...patient,
+    assignedStaffIds: validAssignments.filter(([, patientId]) => patientId === patient.id).map(([staffId]) => staffId),
+  }));
+  const staff: Staff[] = dedupeById(hospital.staff).map(member => ({
+    ...member,
+    assignedPatientIds: validAssignments.filter(([staffId]) => staffId === member.id).map(([, patientId]) => patientId),
+  }));
+
+  // Each bed listed exactly once, on the first floor matching its floor type
+  const repairedFloors: Floor[] = floors.map(floor => ({ ...floor, beds: [] }));
+  beds.forEach(bed => {
+    const floor = repairedFloors.find(f => f.type === bed.floor);
+    if (floor) floor.beds.push(bed.id);
+  });
+
+  // Equipment assigned to a bed or room that no longer exists stays where it stands, unassigned
+  const bedIds = new Set(beds.map(bed => bed.id));
+  const equipment = dedupeById(hospital.equipment).map(item => {
+    const unknownBed = item.bedId && !bedIds.has(item.bedId);
+    const unknownRoom = item.roomId && !roomIds.has(item.roomId);
+    if (!unknownBed && !unknownRoom) return item;
+    return {
+      ...item,
+      bedId: unknownBed ? undefined : item.bedId,
+      roomId: unknownRoom ? undefined : item.roomId,
+    };
+  });
+
+  // Queued patients keep a reservation only on a reserved, empty bed that nobody ahead of them holds
+  const heldBedIds = new Set<string>();
+  const pendingAdmissions = hospital.pendingAdmissions && dedupeById(hospital.pendingAdmissions).map(admission => {
+    if (!admission.reservedBedId) return admission;
+    const bed = beds.find(b => b.id === admission.reservedBedId);
+    if (bed && bed.status === 'reserved' && !bed.patientId && !heldBedIds.has(bed.id)) {
+      heldBedIds.add(bed.id);
+      return admission;
+    }
+    return { ...admission, reservedBedId: undefined, reservedAt: undefined };
+  });
+  // Reserved beds nobody in the queue holds any more are free again
+  beds = beds.map(bed => (bed.status === 'reserved' && !heldBedIds.has(bed.id) ? withBedStatus(bed, 'available', at) : bed));
+
+  return { ...hospital, floors: repairedFloors, rooms, beds, patients, staff, equipment, pendingAdmissions };
+};
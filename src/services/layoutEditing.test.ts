@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { Hospital, Room } from "@/types/hospital";
+import { generateHospitalData, HospitalOperationError } from "./hospitalDataService";
+import { addBed, addRoom, moveBed, removeBed, renameRoom, resizeRoom } from "./layoutEditing";
+import { validateHospital } from "./hospitalValidator";
+
+const hospital = generateHospitalData({ seed: "layout" });
+const floor = hospital.floors[0];
+const [roomA, roomB] = hospital.rooms.filter(room => room.floorId === floor.id && room.kind !== "imaging");
+const bed = hospital.beds.find(b => b.roomId === roomA.id && !b.patientId && !hospital.pendingAdmissions.some(a => a.reservedBedId === b.id));
+
+const centerOf = ({ bounds }: Room) => ({ x: (bounds.minX + bounds.maxX) / 2, z: (bounds.minZ + bounds.maxZ) / 2 });
+const capacityOf = (h: Hospital, roomId: string) => h.rooms.find(room => room.id === roomId)?.capacity;
+
+describe("moveBed", () => {
+  it("keeps the capacity of both rooms when a bed moves within its room", () => {
+    const moved = moveBed(hospital, bed.id, centerOf(roomA));
+    expect(moved.beds.find(b => b.id === bed.id)?.position).toMatchObject(centerOf(roomA));
+    expect(moved.rooms).toEqual(hospital.rooms);
+  });
+
+  it("moves a unit of capacity along with a bed that changes rooms", () => {
+    const moved = moveBed(hospital, bed.id, centerOf(roomB));
+    expect(moved.beds.find(b => b.id === bed.id)).toMatchObject({ roomId: roomB.id, room: roomB.name });
+    expect(capacityOf(moved, roomA.id)).toBe(roomA.capacity - 1);
+    expect(capacityOf(moved, roomB.id)).toBe(roomB.capacity + 1);
+    expect(validateHospital(moved)).toEqual([]);
+  });
+
+  it("moves bedside equipment with the bed", () => {
+    const withMonitor: Hospital = {
+      ...hospital,
+      equipment: hospital.equipment.map((item, index) => (index === 0 ? { ...item, bedId: bed.id, position: { ...bed.position, x: bed.position.x + 1 } } : item)),
+    };
+    const target = centerOf(roomB);
+    const moved = moveBed(withMonitor, bed.id, target);
+    expect(moved.equipment[0]).toMatchObject({ position: { x: target.x + 1, z: target.z }, roomId: roomB.id });
+  });
+
+  it("refuses to drop a bed outside every room", () => {
+    expect(() => moveBed(hospital, bed.id, { x: 1000, z: 1000 })).toThrow(HospitalOperationError);
+  });
+});
+
+describe("addBed and removeBed", () => {
+  const at = new Date("2025-01-02T08:00:00.000Z");
+  const added = addBed(hospital, floor.id, centerOf(roomA), "bed-new", at);
+
+  it("adds an available bed to the room and floor, raising the room's capacity", () => {
+    expect(added.beds.find(b => b.id === "bed-new")).toMatchObject({ status: "available", roomId: roomA.id, statusChangedAt: at.toISOString() });
+    expect(added.floors[0].beds).toContain("bed-new");
+    expect(capacityOf(added, roomA.id)).toBe(roomA.capacity + 1);
+    expect(() => addBed(added, floor.id, centerOf(roomA), "bed-new", at)).toThrow(HospitalOperationError);
+  });
+
+  it("removes an empty bed, lowering the room's capacity", () => {
+    const removed = removeBed(added, "bed-new");
+    expect(removed.beds.some(b => b.id === "bed-new")).toBe(false);
+    expect(removed.floors[0].beds).not.toContain("bed-new");
+    expect(capacityOf(removed, roomA.id)).toBe(roomA.capacity);
+  });
+
+  it("refuses to remove a bed that holds a patient", () => {
+    const occupied = hospital.beds.find(b => b.patientId);
+    expect(() => removeBed(hospital, occupied.id)).toThrow(HospitalOperationError);
+  });
+});
+
+describe("rooms", () => {
+  it("adds rooms of at least the minimum size", () => {
+    const bounds = { minX: 100, minZ: 100, maxX: 104, maxZ: 104 };
+    expect(addRoom(hospital, floor.id, bounds, "Annex", "room-annex").rooms).toContainEqual(
+      expect.objectContaining({ id: "room-annex", floorId: floor.id, capacity: 0, bounds })
+    );
+    expect(() => addRoom(hospital, floor.id, { ...bounds, maxX: 101 }, "Closet")).toThrow(HospitalOperationError);
+  });
+
+  it("refuses to shrink a room away from its beds", () => {
+    const { minX, minZ } = roomA.bounds;
+    expect(() => resizeRoom(hospital, roomA.id, { minX: minX - 50, minZ: minZ - 50, maxX: minX - 45, maxZ: minZ - 45 })).toThrow(HospitalOperationError);
+  });
+
+  it("renames a room along with the beds in it", () => {
+    const renamed = renameRoom(hospital, roomA.id, "  Bay 7 ");
+    expect(renamed.rooms.find(room => room.id === roomA.id)?.name).toBe("Bay 7");
+    expect(renamed.beds.filter(b => b.roomId === roomA.id).every(b => b.room === "Bay 7")).toBe(true);
+    expect(() => renameRoom(hospital, roomA.id, " ")).toThrow(HospitalOperationError);
+  });
+});
@@ -0,0 +1,214 @@
+
+import { Bed, Hospital, PlanPoint, Room, RoomBounds } from "@/types/hospital";
+import { HospitalOperationError } from "./hospitalDataService";
+import { getBedReservation } from "./admissionQueue";
+import { getOutlineBounds, isInsidePolygon } from "./floorPlan";
+import { FLOOR_ROOM_KINDS, getRoomOutline } from "./rooms";
+
+// Floor plan edits. They only change where beds and rooms are, never patients, so any bed
+// can be moved, while removing a bed that holds a patient or is reserved for one is refused.
+
+// Rooms smaller than this along either axis cannot hold a bed
+export const MIN_ROOM_SIZE = 2;
+
+// IDs for beds and rooms created in the editor, outside the seeded generator
+export const createBedId = (): string => `bed-${Math.random().toString(36).substring(2, 9)}`;
+export const createRoomId = (): string => `room-${Math.random().toString(36).substring(2, 9)}`;
+
+const findBed = (hospital: Hospital, bedId: string): Bed => {
+  const bed = hospital.beds.find(b => b.id === bedId);
+  if (!bed) {
+    throw new HospitalOperationError(`Bed ${bedId} does not exist`);
+  }
+  return bed;
+};
+
+const findRoom = (hospital: Hospital, roomId: string): Room => {
+  const room = hospital.rooms.find(r => r.id === roomId);
+  if (!room) {
+    throw new HospitalOperationError(`Room ${roomId} does not exist`);
+  }
+  return room;
+};
+
+// The room on a floor that contains a point; beds always stand in a room
+const findRoomAt = (hospital: Hospital, floorId: string, position: PlanPoint): Room => {
+  const room = hospital.rooms.find(r => r.floorId === floorId && isInsidePolygon(position, getRoomOutline(r)));
+  if (!room) {
+    throw new HospitalOperationError(`There is no room at (${position.x}, ${position.z}); beds must stand inside a room`);
+  }
+  return room;
+};
+
+// Adding, removing or moving a bed changes how many beds its room is staffed for
+const changeCapacity = (rooms: Room[], roomId: string | undefined, change: number): Room[] =>
+  rooms.map(room => room.id === roomId ? { ...room, capacity: Math.max(0, room.capacity + change) } : room);
+
+const checkBounds = (bounds: RoomBounds) => {
+  if (bounds.maxX - bounds.minX < MIN_ROOM_SIZE || bounds.maxZ - bounds.minZ < MIN_ROOM_SIZE) {
+    throw new HospitalOperationError(`Rooms must be at least ${MIN_ROOM_SIZE} m on each side`);
+  }
+};
+
+// Move a bed on its floor; it joins whichever room it is dropped in, taking one unit of capacity from its
+// old room to the new one, and its bedside equipment follows it
+export const moveBed = (hospital: Hospital, bedId: string, position: PlanPoint): Hospital => {
+  const bed = findBed(hospital, bedId);
+  const floor = hospital.floors.find(f => f.beds.includes(bedId));
+  if (!floor) {
+    throw new HospitalOperationError(`Bed ${bedId} is not on any floor`);
+  }
+  const room = findRoomAt(hospital, floor.id, position);
+  const dx = position.x - bed.position.x;
+  const dz = position.z - bed.position.z;
+  const beds = hospital.beds.map(b =>
+    b.id === bedId
+      ? { ...b, position: { ...b.position, x: position.x, z: position.z }, room: room.name, roomId: room.id }
+      : b
+  );
+
+  const rooms = bed.roomId === room.id
+    ? hospital.rooms
+    : changeCapacity(changeCapacity(hospital.rooms, bed.roomId, -1), room.id, 1);
+
+  return {
+    ...hospital,
+    beds,
+    rooms,
+    equipment: hospital.equipment.map(item =>
+      item.bedId === bedId
+        ? { ...item, position: { ...item.position, x: item.position.x + dx, z: item.position.z + dz }, room: room.name, roomId: room.id }
+        : item
+    ),
+  };
+};
+
+// Add an available bed at a point inside a room of the floor, raising the room's capacity
+export const addBed = (
+  hospital: Hospital,
+  floorId: string,
+  position: PlanPoint,
+  bedId: string = createBedId(),
+  at: Date = new Date()
+): Hospital => {
+  const floor = hospital.floors.find(f => f.id === floorId);
+  if (!floor) {
+    throw new HospitalOperationError(`Floor ${floorId} does not exist`);
+  }
+  if (hospital.beds.some(b => b.id === bedId)) {
+    throw new HospitalOperationError(`Bed ${bedId} already exists`);
+  }
+  const room = findRoomAt(hospital, floorId, position);
+
+  const bed: Bed = {
+    id: bedId,
+    position: { x: position.x, y: floor.level * 4, z: position.z },
+    status: 'available',
+    floor: floor.type,
+    room: room.name,
+    roomId: room.id,
+    statusChangedAt: at.toISOString(),
+  };
+
+  return {
+    ...hospital,
+    beds: [...hospital.beds, bed],
+    rooms: changeCapacity(hospital.rooms, room.id, 1),
+    floors: hospital.floors.map(f => f.id === floorId ? { ...f, beds: [...f.beds, bedId] } : f),
+  };
+};
+
+// Remove an empty bed, lowering its room's capacity; its bedside equipment stays in the room, unassigned
+export const removeBed = (hospital: Hospital, bedId: string): Hospital => {
+  const bed = findBed(hospital, bedId);
+  if (bed.patientId) {
+    throw new HospitalOperationError(`Bed ${bedId} holds a patient; transfer or discharge them first`);
+  }
+  const reservation = getBedReservation(hospital, bedId);
+  if (reservation) {
+    throw new HospitalOperationError(`Bed ${bedId} is reserved for ${reservation.patientName}; release the reservation first`);
+  }
+
+  return {
+    ...hospital,
+    beds: hospital.beds.filter(b => b.id !== bedId),
+    rooms: changeCapacity(hospital.rooms, bed.roomId, -1),
+    floors: hospital.floors.map(f => f.beds.includes(bedId) ? { ...f, beds: f.beds.filter(id => id !== bedId) } : f),
+    equipment: hospital.equipment.map(item => item.bedId === bedId ? { ...item, bedId: undefined } : item),
+  };
+};
+
+// Add a rectangular room of the floor's usual kind
+export const addRoom = (
+  hospital: Hospital,
+  floorId: string,
+  bounds: RoomBounds,
+  name: string,
+  roomId: string = createRoomId()
+): Hospital => {
+  const floor = hospital.floors.find(f => f.id === floorId);
+  if (!floor) {
+    throw new HospitalOperationError(`Floor ${floorId} does not exist`);
+  }
+  if (hospital.rooms.some(r => r.id === roomId)) {
+    throw new HospitalOperationError(`Room ${roomId} already exists`);
+  }
+  checkBounds(bounds);
+
+  const room: Room = {
+    id: roomId,
+    floorId,
+    name,
+    kind: FLOOR_ROOM_KINDS[floor.type],
+    bounds,
+    capacity: 0,
+    isolation: false,
+  };
+
+  return { ...hospital, rooms: [...hospital.rooms, room] };
+};
+
+// Resize a room to new bounds; an imported outline and its doors are stretched to match.
+// Every bed in the room must still fit inside.
+export const resizeRoom = (hospital: Hospital, roomId: string, bounds: RoomBounds): Hospital => {
+  const room = findRoom(hospital, roomId);
+  checkBounds(bounds);
+
+  const { minX, minZ, maxX, maxZ } = room.bounds;
+  const stretch = (point: PlanPoint): PlanPoint => ({
+    x: bounds.minX + ((point.x - minX) / (maxX - minX)) * (bounds.maxX - bounds.minX),
+    z: bounds.minZ + ((point.z - minZ) / (maxZ - minZ)) * (bounds.maxZ - bounds.minZ),
+  });
+  const outline = room.outline?.map(stretch);
+  const resized: Room = {
+    ...room,
+    bounds: outline ? getOutlineBounds(outline) : bounds,
+    outline,
+    doors: room.doors?.map(stretch),
+  };
+
+  const outside = hospital.beds.find(bed => bed.roomId === roomId && !isInsidePolygon(bed.position, getRoomOutline(resized)));
+  if (outside) {
+    throw new HospitalOperationError(`Bed ${outside.id} would end up outside ${room.name}; move it first`);
+  }
+
+  return { ...hospital, rooms: hospital.rooms.map(r => r.id === roomId ? resized : r) };
+};
+
+export const renameRoom = (hospital: Hospital, roomId: string, name: string): Hospital => {
+  const room = findRoom(hospital, roomId);
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new HospitalOperationError('Room names cannot be empty');
+  }
+  if (trimmed === room.name) {
+    return hospital;
+  }
+
+  return {
+    ...hospital,
+    rooms: hospital.rooms.map(r => r.id === roomId ? { ...r, name: trimmed } : r),
+    beds: hospital.beds.map(bed => bed.roomId === roomId ? { ...bed, room: trimmed } : bed),
+    equipment: hospital.equipment.map(item => item.roomId === roomId ? { ...item, room: trimmed } : item),
+  };
+};
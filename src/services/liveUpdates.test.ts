@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { generateHospitalData, updateBedStatus } from "./hospitalDataService";
+import { applyHospitalDeltas, diffHospitals } from "./liveUpdates";
+import { addBed } from "./layoutEditing";
+import { admitQueuedPatient, queueAdmission, reserveBed } from "./admissionQueue";
+
+const hospital = generateHospitalData({ seed: "live" });
+const cleaningBed = hospital.beds.find(bed => bed.status === "cleaning");
+const at = new Date("2025-01-02T08:00:00.000Z");
+
+describe("applyHospitalDeltas", () => {
+  it("merges deltas into the entities they name", () => {
+    const updated = applyHospitalDeltas(hospital, [{ type: "bed", bed: { id: cleaningBed.id, status: "available" } }]);
+    expect(updated.beds.find(bed => bed.id === cleaningBed.id)).toEqual({ ...cleaningBed, status: "available" });
+  });
+
+  it("adds complete entities it does not know yet, listing new beds on their floor", () => {
+    const bed = { ...cleaningBed, id: "bed-live", status: "available" as const };
+    const updated = applyHospitalDeltas(hospital, [{ type: "bed", bed }]);
+    expect(updated.beds).toContainEqual(bed);
+    expect(updated.floors.find(floor => floor.type === bed.floor)?.beds).toContain("bed-live");
+  });
+
+  it("drops partial deltas for entities it does not know", () => {
+    const updated = applyHospitalDeltas(hospital, [
+      { type: "bed", bed: { id: "bed-ghost", status: "available" } },
+      { type: "patient", patient: { id: "patient-ghost", name: "Nobody" } },
+    ]);
+    expect(updated.beds).toEqual(hospital.beds);
+    expect(updated.floors).toEqual(hospital.floors);
+    expect(updated.patients).toEqual(hospital.patients);
+  });
+
+  it("removes patients", () => {
+    const patientId = hospital.patients[0].id;
+    const updated = applyHospitalDeltas(hospital, [{ type: "patient-removed", patientId }]);
+    expect(updated.patients.some(patient => patient.id === patientId)).toBe(false);
+  });
+});
+
+describe("diffHospitals", () => {
+  it("produces deltas that turn one hospital into the other", () => {
+    const next = updateBedStatus(hospital, cleaningBed.id, "available", at);
+    const deltas = diffHospitals(hospital, next);
+    expect(deltas).toHaveLength(1);
+    expect(applyHospitalDeltas(hospital, deltas)).toEqual(next);
+  });
+
+  it("sends floors whose bed lists changed", () => {
+    const room = hospital.rooms.find(r => r.kind !== "imaging");
+    const center = { x: (room.bounds.minX + room.bounds.maxX) / 2, z: (room.bounds.minZ + room.bounds.maxZ) / 2 };
+    const floor = hospital.floors.find(f => f.id === room.floorId);
+    const next = addBed(hospital, floor.id, center, "bed-live", at);
+    const deltas = diffHospitals(hospital, next);
+    expect(deltas).toContainEqual({ type: "floor", floor: next.floors.find(f => f.id === floor.id) });
+    expect(applyHospitalDeltas(hospital, deltas)).toEqual(next);
+  });
+
+  it("sends queued admissions and the ones that left the queue", () => {
+    const request = { patientName: "Alex Morgan", source: "emergency" as const, floorType: cleaningBed.floor, isolation: false };
+    const queued = queueAdmission(hospital, request, "admission-live", at);
+    const queuedDeltas = diffHospitals(hospital, queued);
+    expect(queuedDeltas).toEqual([{ type: "admission", admission: queued.pendingAdmissions.find(a => a.id === "admission-live") }]);
+    expect(applyHospitalDeltas(hospital, queuedDeltas)).toEqual(queued);
+
+    const bed = queued.beds.find(b => b.status === "available" && b.floor === request.floorType);
+    const admitted = admitQueuedPatient(reserveBed(queued, "admission-live", bed.id, at), "admission-live", "patient-live", at);
+    const admittedDeltas = diffHospitals(queued, admitted);
+    expect(admittedDeltas).toContainEqual({ type: "admission-removed", admissionId: "admission-live" });
+    expect(applyHospitalDeltas(queued, admittedDeltas)).toEqual(admitted);
+  });
+
+  it("finds nothing to send between identical hospitals", () => {
+    expect(diffHospitals(hospital, hospital)).toEqual([]);
+  });
+});
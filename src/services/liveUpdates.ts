@@ -0,0 +1,264 @@
+
+import { Bed, Equipment, Floor, Hospital, Patient, PendingAdmission, Room, Staff } from "@/types/hospital";
+
+// Incremental change pushed by the live feed; entity deltas are upserts keyed by id
+export type HospitalDelta =
+  | { type: 'bed'; bed: Partial<Bed> & Pick<Bed, 'id'> }
+  | { type: 'patient'; patient: Partial<Patient> & Pick<Patient, 'id'> }
+  | { type: 'patient-removed'; patientId: string }
+  | { type: 'staff'; staff: Partial<Staff> & Pick<Staff, 'id'> }
+  | { type: 'equipment'; equipment: Partial<Equipment> & Pick<Equipment, 'id'> }
+  | { type: 'room'; room: Partial<Room> & Pick<Room, 'id'> }
+  | { type: 'floor'; floor: Partial<Floor> & Pick<Floor, 'id'> }
+  | { type: 'admission'; admission: Partial<PendingAdmission> & Pick<PendingAdmission, 'id'> }
+  | { type: 'admission-removed'; admissionId: string };
+
+// One message on the wire; all deltas in a message are applied together
+export interface LiveUpdateMessage {
+  deltas: HospitalDelta[];
+  sentAt?: string;
+}
+
+export type LiveConnectionStatus = 'disabled' | 'connecting' | 'open' | 'reconnecting';
+export type LiveTransport = 'websocket' | 'sse';
+
+export interface LiveConnectionState {
+  status: LiveConnectionStatus;
+  transport: LiveTransport | null;
+  // Delay before the next reconnect attempt, while reconnecting
+  retryInMs?: number;
+}
+
+export interface LiveUpdateConfig {
+  websocketUrl?: string;
+  sseUrl?: string;
+}
+
+export interface LiveUpdateClientOptions extends LiveUpdateConfig {
+  onMessage: (message: LiveUpdateMessage) => void;
+  onStateChange: (state: LiveConnectionState) => void;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+// Fields a delta has to carry to add an entity the client does not know yet
+const REQUIRED_BED_FIELDS: (keyof Bed)[] = ['position', 'status', 'floor', 'room'];
+const REQUIRED_PATIENT_FIELDS: (keyof Patient)[] = ['name', 'status', 'assignedStaffIds', 'admissionType'];
+const REQUIRED_STAFF_FIELDS: (keyof Staff)[] = ['name', 'type', 'assignedPatientIds', 'floor'];
+const REQUIRED_EQUIPMENT_FIELDS: (keyof Equipment)[] = ['name', 'type', 'status', 'position', 'floor', 'room', 'lastServiceDate'];
+const REQUIRED_ROOM_FIELDS: (keyof Room)[] = ['floorId', 'name', 'kind', 'bounds', 'capacity', 'isolation'];
+const REQUIRED_FLOOR_FIELDS: (keyof Floor)[] = ['type', 'name', 'level', 'beds'];
+const REQUIRED_ADMISSION_FIELDS: (keyof PendingAdmission)[] = ['patientName', 'source', 'floorType', 'isolation', 'requestedAt'];
+
+const isComplete = <T extends { id: string }>(update: Partial<T> & { id: string }, requiredFields: (keyof T)[]): update is T =>
+  requiredFields.every(field => update[field] !== undefined);
+
+// Merge into the entity with the same id; an unknown id is only added when the delta carries a whole entity
+const upsertById = <T extends { id: string }>(items: T[], update: Partial<T> & { id: string }, requiredFields: (keyof T)[]): T[] => {
+  const exists = items.some(item => item.id === update.id);
+  if (!exists) {
+    return isComplete(update, requiredFields) ? [...items, update] : items;
+  }
+  return items.map(item => item.id === update.id ? { ...item, ...update } : item);
+};
+
+// Apply live deltas as sent by the server, which is authoritative; integrity issues surface through the validator.
+// Partial deltas for entities the client does not know are dropped
+export const applyHospitalDeltas = (hospital: Hospital, deltas: HospitalDelta[]): Hospital =>
+  deltas.reduce<Hospital>((current, delta) => {
+    switch (delta.type) {
+      case 'bed': {
+        const isNewBed = !current.beds.some(bed => bed.id === delta.bed.id);
+        const beds = upsertById(current.beds, delta.bed, REQUIRED_BED_FIELDS);
+        if (!isNewBed || beds === current.beds) {
+          return { ...current, beds };
+        }
+
+        // New beds are listed on the first floor of their type
+        const floorIndex = current.floors.findIndex(floor => floor.type === delta.bed.floor);
+        const floors = current.floors.map((floor, index) =>
+          index === floorIndex ? { ...floor, beds: [...floor.beds, delta.bed.id] } : floor
+        );
+        return { ...current, beds, floors };
+      }
+      case 'patient':
+        return { ...current, patients: upsertById(current.patients, delta.patient, REQUIRED_PATIENT_FIELDS) };
+      case 'patient-removed':
+        return { ...current, patients: current.patients.filter(patient => patient.id !== delta.patientId) };
+      case 'staff':
+        return { ...current, staff: upsertById(current.staff, delta.staff, REQUIRED_STAFF_FIELDS) };
+      case 'equipment':
+        return { ...current, equipment: upsertById(current.equipment, delta.equipment, REQUIRED_EQUIPMENT_FIELDS) };
+      case 'room':
+        return { ...current, rooms: upsertById(current.rooms, delta.room, REQUIRED_ROOM_FIELDS) };
+      case 'floor':
+        return { ...current, floors: upsertById(current.floors, delta.floor, REQUIRED_FLOOR_FIELDS) };
+      case 'admission':
+        return { ...current, pendingAdmissions: upsertById(current.pendingAdmissions ?? [], delta.admission, REQUIRED_ADMISSION_FIELDS) };
+      case 'admission-removed':
+        return { ...current, pendingAdmissions: (current.pendingAdmissions ?? []).filter(admission => admission.id !== delta.admissionId) };
+    }
+  }, hospital);
+
+// Deltas turning `previous` into `next`; relies on unchanged entities keeping their object identity
+export const diffHospitals = (previous: Hospital, next: Hospital): HospitalDelta[] => {
+  const deltas: HospitalDelta[] = [];
+  const previousBeds = new Set(previous.beds);
+  const previousPatients = new Set(previous.patients);
+  const previousStaff = new Set(previous.staff);
+  const previousEquipment = new Set(previous.equipment);
+  const previousRooms = new Set(previous.rooms);
+  const previousFloors = new Set(previous.floors);
+  const previousAdmissions = new Set(previous.pendingAdmissions ?? []);
+  const nextAdmissions = next.pendingAdmissions ?? [];
+
+  next.beds.forEach(bed => {
+    if (!previousBeds.has(bed)) deltas.push({ type: 'bed', bed });
+  });
+  next.patients.forEach(patient => {
+    if (!previousPatients.has(patient)) deltas.push({ type: 'patient', patient });
+  });
+  previous.patients.forEach(patient => {
+    if (!next.patients.some(p => p.id === patient.id)) deltas.push({ type: 'patient-removed', patientId: patient.id });
+  });
+  next.staff.forEach(member => {
+    if (!previousStaff.has(member)) deltas.push({ type: 'staff', staff: member });
+  });
+  next.equipment.forEach(item => {
+    if (!previousEquipment.has(item)) deltas.push({ type: 'equipment', equipment: item });
+  });
+  next.rooms.forEach(room => {
+    if (!previousRooms.has(room)) deltas.push({ type: 'room', room });
+  });
+  // After the beds, so a floor's full bed list wins over beds a new-bed delta appended
+  next.floors.forEach(floor => {
+    if (!previousFloors.has(floor)) deltas.push({ type: 'floor', floor });
+  });
+  nextAdmissions.forEach(admission => {
+    if (!previousAdmissions.has(admission)) deltas.push({ type: 'admission', admission });
+  });
+  (previous.pendingAdmissions ?? []).forEach(admission => {
+    if (!nextAdmissions.some(a => a.id === admission.id)) deltas.push({ type: 'admission-removed', admissionId: admission.id });
+  });
+
+  return deltas;
+};
+
+const parseMessage = (data: unknown): LiveUpdateMessage | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    const payload = JSON.parse(data);
+    return payload && Array.isArray(payload.deltas) ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+// Connect to the live feed over WebSocket, falling back to Server-Sent Events when the
+// WebSocket cannot be opened, and reconnect with exponential backoff after a drop.
+export const createLiveUpdateClient = ({
+  websocketUrl,
+  sseUrl,
+  onMessage,
+  onStateChange,
+  initialBackoffMs = 1000,
+  maxBackoffMs = 30000,
+}: LiveUpdateClientOptions) => {
+  let transport: LiveTransport | null = websocketUrl && typeof WebSocket !== 'undefined' ? 'websocket' : sseUrl ? 'sse' : null;
+  let socket: WebSocket | null = null;
+  let eventSource: EventSource | null = null;
+  let retryTimer: number | undefined;
+  let attempt = 0;
+  let closed = false;
+
+  const handleData = (data: unknown) => {
+    const message = parseMessage(data);
+    if (message) onMessage(message);
+  };
+
+  const scheduleReconnect = (everOpened: boolean) => {
+    if (closed) return;
+
+    // A WebSocket that never opened is likely blocked (proxy, server without WS): use SSE instead
+    if (!everOpened && transport === 'websocket' && sseUrl) {
+      transport = 'sse';
+    }
+
+    const delay = Math.min(maxBackoffMs, initialBackoffMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+    attempt++;
+    onStateChange({ status: 'reconnecting', transport, retryInMs: Math.round(delay) });
+    retryTimer = window.setTimeout(connect, delay);
+  };
+
+  const handleOpen = () => {
+    attempt = 0;
+    onStateChange({ status: 'open', transport });
+  };
+
+  const connect = () => {
+    if (closed || !transport) return;
+    onStateChange({ status: attempt === 0 ? 'connecting' : 'reconnecting', transport });
+
+    let everOpened = false;
+
+    if (transport === 'websocket') {
+      try {
+        socket = new WebSocket(websocketUrl);
+      } catch {
+        // Malformed or disallowed URL: the socket is never created, so treat it as one that never opened
+        socket = null;
+        scheduleReconnect(false);
+        return;
+      }
+      socket.onopen = () => {
+        everOpened = true;
+        handleOpen();
+      };
+      socket.onmessage = (event) => handleData(event.data);
+      socket.onclose = () => {
+        socket = null;
+        scheduleReconnect(everOpened);
+      };
+    } else {
+      eventSource = new EventSource(sseUrl);
+      eventSource.onopen = () => {
+        everOpened = true;
+        handleOpen();
+      };
+      eventSource.onmessage = (event) => handleData(event.data);
+      // EventSource retries on its own with a fixed delay; close it and use our backoff instead
+      eventSource.onerror = () => {
+        eventSource?.close();
+        eventSource = null;
+        scheduleReconnect(everOpened);
+      };
+    }
+  };
+
+  if (transport) {
+    connect();
+  } else {
+    onStateChange({ status: 'disabled', transport: null });
+  }
+
+  return {
+    close: () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+      eventSource?.close();
+    },
+  };
+};
+
+// Read the live feed endpoints from the Vite environment; null when live updates are not configured
+export const getLiveUpdateConfig = (): LiveUpdateConfig | null => {
+  const websocketUrl = import.meta.env.VITE_HOSPITAL_LIVE_URL;
+  const sseUrl = import.meta.env.VITE_HOSPITAL_LIVE_SSE_URL;
+
+  if (!websocketUrl && !sseUrl) return null;
+  return { websocketUrl, sseUrl };
+};
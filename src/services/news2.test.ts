@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { VitalSigns } from "@/types/hospital";
+import { getNews2Score, suggestPatientStatus } from "./news2";
+
+const normal: VitalSigns = {
+  timestamp: "2025-01-01T08:00:00.000Z",
+  respiratoryRate: 16,
+  heartRate: 72,
+  systolicBp: 124,
+  diastolicBp: 78,
+  spo2: 98,
+  onSupplementalOxygen: false,
+  temperature: 36.8,
+  consciousness: "alert",
+};
+
+describe("getNews2Score", () => {
+  it("scores normal observations as low risk", () => {
+    const score = getNews2Score(normal);
+    expect(score.total).toBe(0);
+    expect(score.riskBand).toBe("low");
+  });
+
+  it("scores each parameter on its band", () => {
+    const score = getNews2Score({
+      ...normal,
+      respiratoryRate: 22,
+      spo2: 94,
+      onSupplementalOxygen: true,
+      systolicBp: 105,
+      heartRate: 115,
+      temperature: 38.5,
+    });
+    expect(score.parameters).toEqual({
+      respiratoryRate: 2,
+      spo2: 1,
+      supplementalOxygen: 2,
+      systolicBp: 1,
+      heartRate: 2,
+      consciousness: 0,
+      temperature: 1,
+    });
+    expect(score.total).toBe(9);
+    expect(score.riskBand).toBe("high");
+  });
+
+  it("raises a low total to low-medium when a single parameter scores 3", () => {
+    const score = getNews2Score({ ...normal, consciousness: "voice" });
+    expect(score.total).toBe(3);
+    expect(score.riskBand).toBe("low-medium");
+  });
+
+  it("scores a total of 5 or 6 as medium risk", () => {
+    expect(getNews2Score({ ...normal, respiratoryRate: 25, heartRate: 120 }).riskBand).toBe("medium");
+  });
+});
+
+describe("suggestPatientStatus", () => {
+  const deteriorating = { ...normal, respiratoryRate: 26, spo2: 90, heartRate: 135 };
+
+  it("suggests marking a stable patient critical at high risk", () => {
+    expect(suggestPatientStatus("stable", [normal, deteriorating])?.status).toBe("critical");
+  });
+
+  it("suggests marking a critical patient stable after enough low risk observations", () => {
+    expect(suggestPatientStatus("critical", [deteriorating, normal, normal])).toBeNull();
+    expect(suggestPatientStatus("critical", [deteriorating, normal, normal, normal])?.status).toBe("stable");
+  });
+
+  it("never suggests anything for discharged patients or without observations", () => {
+    expect(suggestPatientStatus("discharged", [deteriorating])).toBeNull();
+    expect(suggestPatientStatus("stable", [])).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { PatientStatus, VitalSigns } from "@/types/hospital";
+
+// National Early Warning Score 2 (Royal College of Physicians, 2017), computed from a single set of
+// observations. Oxygen saturation is scored on scale 1; scale 2 (target 88–92% for hypercapnic
+// respiratory failure) is not supported.
+
+export type News2Parameter =
+  | 'respiratoryRate'
+  | 'spo2'
+  | 'supplementalOxygen'
+  | 'systolicBp'
+  | 'heartRate'
+  | 'consciousness'
+  | 'temperature';
+
+// Clinical risk, in increasing order; low-medium is a low total with a single parameter scoring 3
+export type News2RiskBand = 'low' | 'low-medium' | 'medium' | 'high';
+
+export const NEWS2_RISK_BANDS: News2RiskBand[] = ['low', 'low-medium', 'medium', 'high'];
+
+export const NEWS2_RISK_LABELS: Record<News2RiskBand, string> = {
+  low: 'Low',
+  'low-medium': 'Low-medium',
+  medium: 'Medium',
+  high: 'High',
+};
+
+export interface News2Score {
+  total: number;
+  riskBand: News2RiskBand;
+  // Points per parameter, 0 (normal) to 3 (far out of range)
+  parameters: Record<News2Parameter, number>;
+}
+
+// Points for a value: the first band whose upper limit is at or above the value wins
+const scoreBands = (value: number, bands: [number, number][]): number =>
+  (bands.find(([upTo]) => value <= upTo) ?? bands[bands.length - 1])[1];
+
+export const getNews2RiskBand = (total: number, parameters: Record<News2Parameter, number>): News2RiskBand => {
+  if (total >= 7) return 'high';
+  if (total >= 5) return 'medium';
+  return Object.values(parameters).includes(3) ? 'low-medium' : 'low';
+};
+
+export const getNews2Score = (vitals: VitalSigns): News2Score => {
+  const parameters: Record<News2Parameter, number> = {
+    respiratoryRate: scoreBands(vitals.respiratoryRate, [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]]),
+    spo2: scoreBands(vitals.spo2, [[91, 3], [93, 2], [95, 1], [Infinity, 0]]),
+    supplementalOxygen: vitals.onSupplementalOxygen ? 2 : 0,
+    systolicBp: scoreBands(vitals.systolicBp, [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]]),
+    heartRate: scoreBands(vitals.heartRate, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]]),
+    // Any new confusion, or responding only to voice or pain, or not at all (ACVPU)
+    consciousness: vitals.consciousness === 'alert' ? 0 : 3,
+    temperature: scoreBands(vitals.temperature, [[35, 3], [36, 1], [38, 0], [39, 1], [Infinity, 2]]),
+  };
+  const total = Object.values(parameters).reduce((sum, points) => sum + points, 0);
+  return { total, riskBand: getNews2RiskBand(total, parameters), parameters };
+};
+
+export const compareNews2RiskBands = (a: News2RiskBand, b: News2RiskBand): number =>
+  NEWS2_RISK_BANDS.indexOf(a) - NEWS2_RISK_BANDS.indexOf(b);
+
+export interface News2SuggestionOptions {
+  // A stable patient at or above this band is suggested to be marked critical
+  criticalFrom: News2RiskBand;
+  // A critical patient whose last this many observations were all low risk is suggested to be marked stable
+  stableAfterLowObservations: number;
+}
+
+export const DEFAULT_NEWS2_SUGGESTION_OPTIONS: News2SuggestionOptions = {
+  criticalFrom: 'high',
+  stableAfterLowObservations: 3,
+};
+
+export interface StatusSuggestion {
+  status: PatientStatus;
+  reason: string;
+}
+
+// A status change the observations (oldest first) call for, or null; discharges are never suggested
+export const suggestPatientStatus = (
+  status: PatientStatus,
+  vitals: VitalSigns[],
+  options: News2SuggestionOptions = DEFAULT_NEWS2_SUGGESTION_OPTIONS
+): StatusSuggestion | null => {
+  if (status === 'discharged' || vitals.length === 0) return null;
+
+  const latest = getNews2Score(vitals[vitals.length - 1]);
+  if (status === 'stable' && compareNews2RiskBands(latest.riskBand, options.criticalFrom) >= 0) {
+    return {
+      status: 'critical',
+      reason: `NEWS2 ${latest.total} (${NEWS2_RISK_LABELS[latest.riskBand].toLowerCase()} risk)`,
+    };
+  }
+
+  const recent = vitals.slice(-options.stableAfterLowObservations);
+  if (
+    status === 'critical' &&
+    recent.length === options.stableAfterLowObservations &&
+    recent.every(observation => getNews2Score(observation).riskBand === 'low')
+  ) {
+    return { status: 'stable', reason: `Low NEWS2 risk on the last ${recent.length} observations` };
+  }
+  return null;
+};
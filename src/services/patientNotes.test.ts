@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData, HospitalOperationError } from "./hospitalDataService";
+import { addPatientNote, amendPatientNote, fromLegacyNote } from "./patientNotes";
+
+const hospital = generateHospitalData({ seed: "notes" });
+const patient = hospital.patients.find(p => p.bedId);
+const at = (time: string) => new Date(`2025-01-02T${time}:00.000Z`);
+const notesOf = (h: Hospital) => h.patients.find(p => p.id === patient.id)?.notes ?? [];
+
+const withNote = addPatientNote(hospital, patient.id, { category: "nursing", text: " Slept well " }, "note-1", "Nurse A", at("06:00"));
+
+describe("addPatientNote", () => {
+  it("appends a note by its author", () => {
+    expect(notesOf(withNote).slice(-1)[0]).toEqual({
+      id: "note-1",
+      category: "nursing",
+      text: "Slept well",
+      author: "Nurse A",
+      createdAt: "2025-01-02T06:00:00.000Z",
+      history: [],
+    });
+  });
+
+  it("refuses empty notes and duplicate ids", () => {
+    expect(() => addPatientNote(hospital, patient.id, { category: "other", text: "  " }, "note-2", "Nurse A")).toThrow(HospitalOperationError);
+    expect(() => addPatientNote(withNote, patient.id, { category: "other", text: "Again" }, "note-1", "Nurse A")).toThrow(HospitalOperationError);
+  });
+});
+
+describe("amendPatientNote", () => {
+  it("keeps every earlier version, oldest first, with who wrote it and when", () => {
+    const once = amendPatientNote(withNote, patient.id, "note-1", "Slept well, no pain", "Dr B", at("07:00"));
+    const twice = amendPatientNote(once, patient.id, "note-1", "Slept well, mild pain at 5am", "Nurse C", at("08:00"));
+    expect(notesOf(twice).slice(-1)[0]).toMatchObject({
+      text: "Slept well, mild pain at 5am",
+      author: "Nurse A",
+      createdAt: "2025-01-02T06:00:00.000Z",
+      amendedBy: "Nurse C",
+      amendedAt: "2025-01-02T08:00:00.000Z",
+      history: [
+        { text: "Slept well", author: "Nurse A", timestamp: "2025-01-02T06:00:00.000Z" },
+        { text: "Slept well, no pain", author: "Dr B", timestamp: "2025-01-02T07:00:00.000Z" },
+      ],
+    });
+  });
+
+  it("refuses unchanged text and unknown notes", () => {
+    expect(() => amendPatientNote(withNote, patient.id, "note-1", "Slept well ", "Dr B")).toThrow("unchanged");
+    expect(() => amendPatientNote(withNote, patient.id, "note-9", "Text", "Dr B")).toThrow(HospitalOperationError);
+  });
+});
+
+describe("fromLegacyNote", () => {
+  const { notes, ...rest } = patient;
+
+  it("turns a plain text note into a note written at admission", () => {
+    expect(fromLegacyNote({ ...rest, admittedAt: "2025-01-01T10:00:00.000Z", notes: "Allergic to penicillin" }).notes).toEqual([
+      { id: `${patient.id}-note`, category: "other", text: "Allergic to penicillin", author: "Imported", createdAt: "2025-01-01T10:00:00.000Z", history: [] },
+    ]);
+    expect(fromLegacyNote({ ...rest, notes: " " }).notes).toEqual([]);
+    expect(fromLegacyNote(patient).notes).toBe(notes);
+  });
+
+  it("leaves the time unknown without an admission time, also once the note is amended", () => {
+    const imported = fromLegacyNote({ ...rest, admittedAt: undefined, notes: "Allergic to penicillin" });
+    expect(imported.notes[0].createdAt).toBeUndefined();
+
+    const legacy: Hospital = { ...hospital, patients: hospital.patients.map(p => (p.id === patient.id ? imported : p)) };
+    const amended = amendPatientNote(legacy, patient.id, `${patient.id}-note`, "Allergic to penicillin and latex", "Dr B", at("07:00"));
+    expect(notesOf(amended)[0].history).toEqual([{ text: "Allergic to penicillin", author: "Imported", timestamp: undefined }]);
+  });
+});
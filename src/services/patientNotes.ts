@@ -0,0 +1,117 @@
+import { Hospital, Patient, PatientNote, PatientNoteCategory } from "@/types/hospital";
+import { HospitalOperationError } from "./hospitalDataService";
+
+export const PATIENT_NOTE_CATEGORIES: PatientNoteCategory[] = ['progress', 'nursing', 'handover', 'other'];
+
+export const PATIENT_NOTE_CATEGORY_LABELS: Record<PatientNoteCategory, string> = {
+  progress: 'Progress',
+  nursing: 'Nursing',
+  handover: 'Handover',
+  other: 'Other',
+};
+
+export const MAX_NOTE_LENGTH = 2000;
+
+export const createNoteId = (): string => `note-${Math.random().toString(36).substring(2, 9)}`;
+
+const findPatient = (hospital: Hospital, patientId: string): Patient => {
+  const patient = hospital.patients.find(p => p.id === patientId);
+  if (!patient) {
+    throw new HospitalOperationError(`Patient ${patientId} does not exist`);
+  }
+  return patient;
+};
+
+const checkNoteText = (text: string) => {
+  if (!text.trim()) {
+    throw new HospitalOperationError('A note cannot be empty');
+  }
+  if (text.length > MAX_NOTE_LENGTH) {
+    throw new HospitalOperationError(`A note can be at most ${MAX_NOTE_LENGTH} characters long`);
+  }
+};
+
+const withNotes = (hospital: Hospital, patientId: string, notes: PatientNote[]): Hospital => ({
+  ...hospital,
+  patients: hospital.patients.map(p => (p.id === patientId ? { ...p, notes } : p)),
+});
+
+// Append a note to the patient's record, written by author at the given time
+export const addPatientNote = (
+  hospital: Hospital,
+  patientId: string,
+  note: { category: PatientNoteCategory; text: string },
+  noteId: string,
+  author: string,
+  at: Date = new Date()
+): Hospital => {
+  const patient = findPatient(hospital, patientId);
+  checkNoteText(note.text);
+  const notes = patient.notes ?? [];
+  if (notes.some(n => n.id === noteId)) {
+    throw new HospitalOperationError(`Note ${noteId} already exists`);
+  }
+
+  return withNotes(hospital, patientId, [
+    ...notes,
+    {
+      id: noteId,
+      category: note.category,
+      text: note.text.trim(),
+      author,
+      createdAt: at.toISOString(),
+      history: [],
+    },
+  ]);
+};
+
+// Replace the text of a note; the text it had before is kept in the note's history
+export const amendPatientNote = (
+  hospital: Hospital,
+  patientId: string,
+  noteId: string,
+  text: string,
+  author: string,
+  at: Date = new Date()
+): Hospital => {
+  const patient = findPatient(hospital, patientId);
+  checkNoteText(text);
+  const note = patient.notes?.find(n => n.id === noteId);
+  if (!note) {
+    throw new HospitalOperationError(`Note ${noteId} does not exist for ${patient.name}`);
+  }
+  if (note.text === text.trim()) {
+    throw new HospitalOperationError('The note is unchanged');
+  }
+
+  const amended: PatientNote = {
+    ...note,
+    text: text.trim(),
+    amendedBy: author,
+    amendedAt: at.toISOString(),
+    history: [
+      ...note.history,
+      { text: note.text, author: note.amendedBy ?? note.author, timestamp: note.amendedAt ?? note.createdAt },
+    ],
+  };
+  return withNotes(hospital, patientId, patient.notes.map(n => (n.id === noteId ? amended : n)));
+};
+
+// Backends that still send a note as plain text get it as a single note written when the patient was
+// admitted; without an admission time the note's time is left unknown
+export const fromLegacyNote = (patient: Omit<Patient, 'notes'> & { notes?: PatientNote[] | string }): Patient => {
+  if (typeof patient.notes !== 'string') return patient as Patient;
+  return {
+    ...patient,
+    notes: patient.notes.trim()
+      ? [{
+          id: `${patient.id}-note`,
+          category: 'other',
+          text: patient.notes,
+          author: 'Imported',
+          createdAt: patient.admittedAt,
+          history: [],
+        }]
+      : [],
+  };
+};
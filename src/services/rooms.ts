@@ -0,0 +1,49 @@
+
+import { Bed, FloorType, Hospital, PlanPoint, Room, RoomKind } from "@/types/hospital";
+
+export const ROOM_KIND_LABELS: Record<RoomKind, string> = {
+  'ward': 'Ward',
+  'icu-bay': 'ICU bay',
+  'treatment': 'Treatment room',
+  'operating-room': 'Operating room',
+  'imaging': 'Imaging suite',
+};
+
+// Kind of room a floor normally has, e.g. for rooms drawn in the editor
+export const FLOOR_ROOM_KINDS: Record<FloorType, RoomKind> = {
+  Emergency: 'treatment',
+  ICU: 'icu-bay',
+  Surgery: 'operating-room',
+  General: 'ward',
+};
+
+// Rooms without an outline are the rectangle of their bounds
+export const getRoomOutline = (room: Room): PlanPoint[] => {
+  if (room.outline && room.outline.length >= 3) return room.outline;
+  const { minX, minZ, maxX, maxZ } = room.bounds;
+  return [{ x: minX, z: minZ }, { x: maxX, z: minZ }, { x: maxX, z: maxZ }, { x: minX, z: maxZ }];
+};
+
+export interface RoomOccupancy {
+  beds: Bed[];
+  occupied: number;
+  available: number;
+  cleaning: number;
+  capacity: number;
+}
+
+export const getRoomBeds = (hospital: Hospital, roomId: string): Bed[] =>
+  hospital.beds.filter(bed => bed.roomId === roomId);
+
+export const getRoomOccupancy = (hospital: Hospital, room: Room): RoomOccupancy => {
+  const beds = getRoomBeds(hospital, room.id);
+  const countStatus = (status: Bed['status']) => beds.filter(bed => bed.status === status).length;
+
+  return {
+    beds,
+    occupied: countStatus('occupied'),
+    available: countStatus('available'),
+    cleaning: countStatus('cleaning'),
+    capacity: room.capacity,
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { Hospital } from "@/types/hospital";
+import { generateHospitalData, HospitalOperationError } from "./hospitalDataService";
+import { assignStaff, checkAssignStaff, checkUnassignStaff, DEFAULT_STAFFING_RULES, getFloorStaffing, unassignStaff } from "./staffing";
+import { validateHospital } from "./hospitalValidator";
+
+const hospital = generateHospitalData({ seed: "staffing" });
+const patient = hospital.patients.find(p => p.bedId && p.status !== "discharged");
+const nurse = hospital.staff.find(member => member.type === "Nurse" && !patient.assignedStaffIds.includes(member.id));
+
+describe("assignStaff and unassignStaff", () => {
+  it("keep both sides of the assignment in step", () => {
+    const assigned = assignStaff(hospital, patient.id, nurse.id);
+    expect(assigned.patients.find(p => p.id === patient.id)?.assignedStaffIds).toContain(nurse.id);
+    expect(assigned.staff.find(s => s.id === nurse.id)?.assignedPatientIds).toContain(patient.id);
+    expect(validateHospital(assigned)).toEqual([]);
+
+    const unassigned = unassignStaff(assigned, patient.id, nurse.id);
+    expect(unassigned.patients.find(p => p.id === patient.id)?.assignedStaffIds).not.toContain(nurse.id);
+    expect(unassigned.staff.find(s => s.id === nurse.id)?.assignedPatientIds).not.toContain(patient.id);
+  });
+
+  it("refuse duplicate assignments and patients who are not admitted", () => {
+    const assigned = assignStaff(hospital, patient.id, nurse.id);
+    expect(() => assignStaff(assigned, patient.id, nurse.id)).toThrow(HospitalOperationError);
+
+    const discharged = hospital.patients.find(p => !p.bedId);
+    expect(() => assignStaff(hospital, discharged.id, nurse.id)).toThrow(HospitalOperationError);
+  });
+
+  it("refuse changes that break a blocking rule, and allow ones that only warn", () => {
+    const noNursePatients = { ...DEFAULT_STAFFING_RULES, maxPatientsPerNurse: { ICU: 0, Emergency: 0, Surgery: 0, General: 0 } };
+    expect(() => assignStaff(hospital, patient.id, nurse.id, noNursePatients)).toThrow("would look after");
+    expect(assignStaff(hospital, patient.id, nurse.id, { ...noNursePatients, nurseWorkload: "warn" }).staff.find(s => s.id === nurse.id)?.assignedPatientIds).toContain(patient.id);
+
+    const icuPatient = hospital.patients.find(p => hospital.beds.some(bed => bed.id === p.bedId && bed.floor === "ICU"));
+    const doctor = hospital.staff.find(member => member.type === "Doctor");
+    const withOneDoctor = assignStaff(
+      { ...hospital, patients: hospital.patients.map(p => (p.id === icuPatient.id ? { ...p, assignedStaffIds: [] } : p)) },
+      icuPatient.id,
+      doctor.id
+    );
+    expect(() => unassignStaff(withOneDoctor, icuPatient.id, doctor.id, { ...DEFAULT_STAFFING_RULES, icuDoctor: "block" })).toThrow(HospitalOperationError);
+    expect(unassignStaff(withOneDoctor, icuPatient.id, doctor.id).patients.find(p => p.id === icuPatient.id)?.assignedStaffIds).toEqual([]);
+  });
+});
+
+describe("checkAssignStaff", () => {
+  it("warns when a nurse would look after more patients than the floor allows", () => {
+    const rules = { ...DEFAULT_STAFFING_RULES, maxPatientsPerNurse: { ICU: 0, Emergency: 0, Surgery: 0, General: 0 } };
+    expect(checkAssignStaff(hospital, patient.id, nurse.id, rules)).toEqual([
+      expect.objectContaining({ rule: "nurse-workload", level: "block" }),
+    ]);
+    expect(checkAssignStaff(hospital, patient.id, nurse.id, { ...rules, nurseWorkload: "off" })).toEqual([]);
+  });
+});
+
+describe("checkUnassignStaff", () => {
+  it("warns when the last doctor of an ICU patient is removed", () => {
+    const icuBed = hospital.beds.find(bed => bed.floor === "ICU" && bed.patientId);
+    const icuPatient = hospital.patients.find(p => p.id === icuBed.patientId);
+    const doctor = hospital.staff.find(member => member.type === "Doctor");
+    // Only this doctor is left with the patient
+    const withOneDoctor: Hospital = {
+      ...hospital,
+      patients: hospital.patients.map(p => (p.id === icuPatient.id ? { ...p, assignedStaffIds: [doctor.id] } : p)),
+    };
+    expect(checkUnassignStaff(withOneDoctor, icuPatient.id, doctor.id)).toEqual([
+      expect.objectContaining({ rule: "icu-doctor", level: "warn" }),
+    ]);
+  });
+});
+
+describe("getFloorStaffing", () => {
+  it("counts patients and nurses per kind of floor", () => {
+    const staffing = getFloorStaffing(hospital);
+    expect(staffing.map(entry => entry.floorType)).toEqual(["Emergency", "ICU", "Surgery", "General"]);
+    staffing.forEach(entry => {
+      expect(entry.nurseCount).toBe(hospital.staff.filter(s => s.floor === entry.floorType && s.type === "Nurse").length);
+      expect(entry.isUnderstaffed).toBe(entry.patientsPerNurse > entry.maxPatientsPerNurse);
+    });
+  });
+
+  it("flags floors with patients but no nurse as understaffed", () => {
+    const withoutNurses = { ...hospital, staff: hospital.staff.filter(member => member.type !== "Nurse") };
+    const icu = getFloorStaffing(withoutNurses).find(entry => entry.floorType === "ICU");
+    expect(icu.patientsPerNurse).toBe(Infinity);
+    expect(icu.isUnderstaffed).toBe(true);
+  });
+});
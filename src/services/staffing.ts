@@ -0,0 +1,228 @@
+import { Floor, FloorType, Hospital, Patient, Staff, StaffType } from "@/types/hospital";
+import { HospitalOperationError } from "./hospitalDataService";
+
+// Most patients one nurse should look after on each kind of floor
+export const MAX_PATIENTS_PER_NURSE: Record<FloorType, number> = {
+  ICU: 2,
+  Emergency: 4,
+  Surgery: 4,
+  General: 6,
+};
+
+export const STAFF_TYPES: StaffType[] = ['Doctor', 'Nurse', 'Technician'];
+
+// A rule either blocks a change that would break it, only warns about it, or is not checked
+export type StaffingRuleLevel = 'block' | 'warn' | 'off';
+
+export interface StaffingRules {
+  // Most patients a single nurse may be assigned, by the kind of floor the nurse works on; also the
+  // floor-wide nurse-to-patient ratio the roster flags
+  maxPatientsPerNurse: Record<FloorType, number>;
+  nurseWorkload: StaffingRuleLevel;
+  // Patients on an ICU floor must keep at least one doctor assigned
+  icuDoctor: StaffingRuleLevel;
+}
+
+export const DEFAULT_STAFFING_RULES: StaffingRules = {
+  maxPatientsPerNurse: MAX_PATIENTS_PER_NURSE,
+  nurseWorkload: 'block',
+  icuDoctor: 'warn',
+};
+
+export interface StaffingRuleViolation {
+  rule: 'nurse-workload' | 'icu-doctor';
+  level: Exclude<StaffingRuleLevel, 'off'>;
+  message: string;
+}
+
+export interface StaffWorkload {
+  staff: Staff;
+  patients: Patient[];
+  criticalCount: number;
+}
+
+// Staff are assigned to a kind of floor rather than a single floor, so every floor of that kind
+// shares one roster and one nurse-to-patient ratio
+export interface FloorStaffing {
+  floorType: FloorType;
+  floors: Floor[];
+  workloads: StaffWorkload[];
+  patientCount: number;
+  nurseCount: number;
+  // Patients per nurse; Infinity when there are patients but no nurse
+  patientsPerNurse: number;
+  maxPatientsPerNurse: number;
+  isUnderstaffed: boolean;
+}
+
+// Admitted patients the staff member is assigned to; ids of patients that are gone are skipped
+export const getStaffPatients = (hospital: Hospital, staff: Staff): Patient[] =>
+  staff.assignedPatientIds
+    .map(patientId => hospital.patients.find(patient => patient.id === patientId))
+    .filter((patient): patient is Patient => patient !== undefined && patient.status !== 'discharged');
+
+export const getStaffWorkload = (hospital: Hospital, staff: Staff): StaffWorkload => {
+  const patients = getStaffPatients(hospital, staff);
+  return {
+    staff,
+    patients,
+    criticalCount: patients.filter(patient => patient.status === 'critical').length,
+  };
+};
+
+// One entry per kind of floor, in floor order; staff are sorted by type, then name
+export const getFloorStaffing = (hospital: Hospital, rules: StaffingRules = DEFAULT_STAFFING_RULES): FloorStaffing[] => {
+  const floorTypes = [...new Set([...hospital.floors].sort((a, b) => a.level - b.level).map(floor => floor.type))];
+
+  return floorTypes.map(floorType => {
+    const floors = hospital.floors.filter(floor => floor.type === floorType).sort((a, b) => a.level - b.level);
+    const bedIds = new Set(floors.flatMap(floor => floor.beds));
+    const patientCount = hospital.patients.filter(patient =>
+      patient.bedId && bedIds.has(patient.bedId) && patient.status !== 'discharged'
+    ).length;
+
+    const workloads = hospital.staff
+      .filter(member => member.floor === floorType)
+      .sort((a, b) => STAFF_TYPES.indexOf(a.type) - STAFF_TYPES.indexOf(b.type) || a.name.localeCompare(b.name))
+      .map(member => getStaffWorkload(hospital, member));
+    const nurseCount = workloads.filter(({ staff }) => staff.type === 'Nurse').length;
+
+    const patientsPerNurse = nurseCount > 0 ? patientCount / nurseCount : patientCount > 0 ? Infinity : 0;
+    const maxPatientsPerNurse = rules.maxPatientsPerNurse[floorType];
+
+    return {
+      floorType,
+      floors,
+      workloads,
+      patientCount,
+      nurseCount,
+      patientsPerNurse,
+      maxPatientsPerNurse,
+      isUnderstaffed: patientsPerNurse > maxPatientsPerNurse,
+    };
+  });
+};
+
+const findAssignment = (hospital: Hospital, patientId: string, staffId: string): { patient: Patient; staff: Staff } => {
+  const patient = hospital.patients.find(p => p.id === patientId);
+  if (!patient) {
+    throw new HospitalOperationError(`Patient ${patientId} does not exist`);
+  }
+  const staff = hospital.staff.find(s => s.id === staffId);
+  if (!staff) {
+    throw new HospitalOperationError(`Staff member ${staffId} does not exist`);
+  }
+  return { patient, staff };
+};
+
+// Changes that break a blocking rule are refused, whoever makes them; warnings are left to the caller
+const enforceStaffingRules = (violations: StaffingRuleViolation[]) => {
+  const blocking = violations.filter(violation => violation.level === 'block');
+  if (blocking.length > 0) {
+    throw new HospitalOperationError(blocking.map(violation => violation.message).join('. '));
+  }
+};
+
+// Assign a staff member to an admitted patient, on both sides of the assignment
+export const assignStaff = (
+  hospital: Hospital,
+  patientId: string,
+  staffId: string,
+  rules: StaffingRules = DEFAULT_STAFFING_RULES
+): Hospital => {
+  const { patient, staff } = findAssignment(hospital, patientId, staffId);
+  if (!patient.bedId) {
+    throw new HospitalOperationError(`${patient.name} is not admitted`);
+  }
+  if (patient.assignedStaffIds.includes(staffId)) {
+    throw new HospitalOperationError(`${staff.name} is already assigned to ${patient.name}`);
+  }
+  enforceStaffingRules(checkAssignStaff(hospital, patientId, staffId, rules));
+
+  return {
+    ...hospital,
+    patients: hospital.patients.map(p =>
+      p.id === patientId ? { ...p, assignedStaffIds: [...p.assignedStaffIds, staffId] } : p
+    ),
+    staff: hospital.staff.map(member =>
+      member.id === staffId && !member.assignedPatientIds.includes(patientId)
+        ? { ...member, assignedPatientIds: [...member.assignedPatientIds, patientId] }
+        : member
+    ),
+  };
+};
+
+// Remove a staff member from a patient, on both sides of the assignment
+export const unassignStaff = (
+  hospital: Hospital,
+  patientId: string,
+  staffId: string,
+  rules: StaffingRules = DEFAULT_STAFFING_RULES
+): Hospital => {
+  const { patient, staff } = findAssignment(hospital, patientId, staffId);
+  if (!patient.assignedStaffIds.includes(staffId) && !staff.assignedPatientIds.includes(patientId)) {
+    throw new HospitalOperationError(`${staff.name} is not assigned to ${patient.name}`);
+  }
+  enforceStaffingRules(checkUnassignStaff(hospital, patientId, staffId, rules));
+
+  return {
+    ...hospital,
+    patients: hospital.patients.map(p =>
+      p.id === patientId ? { ...p, assignedStaffIds: p.assignedStaffIds.filter(id => id !== staffId) } : p
+    ),
+    staff: hospital.staff.map(member =>
+      member.id === staffId
+        ? { ...member, assignedPatientIds: member.assignedPatientIds.filter(id => id !== patientId) }
+        : member
+    ),
+  };
+};
+
+const isIcuPatient = (hospital: Hospital, patient: Patient) =>
+  hospital.beds.some(bed => bed.id === patient.bedId && bed.floor === 'ICU');
+
+const hasDoctor = (hospital: Hospital, patient: Patient) =>
+  hospital.staff.some(member => member.type === 'Doctor' && patient.assignedStaffIds.includes(member.id));
+
+// Rules the patient's current assignments break, e.g. to show next to the patient
+export const getPatientStaffingViolations = (
+  hospital: Hospital,
+  patient: Patient,
+  rules: StaffingRules = DEFAULT_STAFFING_RULES
+): StaffingRuleViolation[] => {
+  if (rules.icuDoctor === 'off' || !isIcuPatient(hospital, patient) || hasDoctor(hospital, patient)) return [];
+  return [{ rule: 'icu-doctor', level: rules.icuDoctor, message: `${patient.name} is on an ICU floor without a doctor` }];
+};
+
+// Rules an assignment would break; only what the change itself makes worse is reported
+export const checkAssignStaff = (
+  hospital: Hospital,
+  patientId: string,
+  staffId: string,
+  rules: StaffingRules = DEFAULT_STAFFING_RULES
+): StaffingRuleViolation[] => {
+  const { staff } = findAssignment(hospital, patientId, staffId);
+  if (rules.nurseWorkload === 'off' || staff.type !== 'Nurse') return [];
+
+  const patientCount = getStaffPatients(hospital, staff).length + 1;
+  const maxPatients = rules.maxPatientsPerNurse[staff.floor];
+  if (patientCount <= maxPatients) return [];
+  return [{
+    rule: 'nurse-workload',
+    level: rules.nurseWorkload,
+    message: `${staff.name} would look after ${patientCount} patients (at most ${maxPatients} on ${staff.floor} floors)`,
+  }];
+};
+
+export const checkUnassignStaff = (
+  hospital: Hospital,
+  patientId: string,
+  staffId: string,
+  rules: StaffingRules = DEFAULT_STAFFING_RULES
+): StaffingRuleViolation[] => {
+  const { patient, staff } = findAssignment(hospital, patientId, staffId);
+  if (staff.type !== 'Doctor' || !hasDoctor(hospital, patient)) return [];
+
+  const remaining = { ...patient, assignedStaffIds: patient.assignedStaffIds.filter(id => id !== staffId) };
+  return getPatientStaffingViolations(hospital, remaining, rules);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { matchPath } from "react-router-dom";
+import { generateHospitalData } from "./hospitalDataService";
+import { findMissingViewEntity, getViewPath, parseViewRoute, ViewRoute, writeCameraPresetToSearchParams } from "./viewRoute";
+
+const hospital = generateHospitalData({ seed: "view-route" });
+
+// The view routes declared in App.tsx, most specific first
+const ROUTES = ["/", "/floors/:floorId", "/floors/:floorId/:entity/:entityId", "/:entity/:entityId"];
+
+const parsePath = (path: string, search = "") => {
+  const match = ROUTES.map(pattern => matchPath(pattern, path)).find(Boolean);
+  return parseViewRoute(match.params, new URLSearchParams(search));
+};
+
+describe("view routes", () => {
+  it("round-trips floors and selections through the path", () => {
+    const routes: ViewRoute[] = [
+      { floorId: null, selection: null, camera: "isometric" },
+      { floorId: "floor-2", selection: null, camera: "isometric" },
+      { floorId: "floor-2", selection: { type: "bed", id: "bed-2-3" }, camera: "isometric" },
+      { floorId: null, selection: { type: "patient", id: "patient-7" }, camera: "isometric" },
+      { floorId: null, selection: { type: "equipment", id: "equipment-1" }, camera: "isometric" },
+    ];
+    for (const route of routes) {
+      expect(parsePath(getViewPath(route.floorId, route.selection))).toEqual(route);
+    }
+    expect(getViewPath("floor-2", { type: "staff", id: "staff-3" })).toBe("/floors/floor-2/staff/staff-3");
+  });
+
+  it("round-trips the camera preset, leaving the default out of the URL", () => {
+    const top = writeCameraPresetToSearchParams(new URLSearchParams("bed=available"), "top");
+    expect(top.toString()).toBe("bed=available&camera=top");
+    expect(parsePath("/", top.toString()).camera).toBe("top");
+    expect(writeCameraPresetToSearchParams(top, "isometric").toString()).toBe("bed=available");
+  });
+
+  it("selects nothing for unknown entity segments and ignores unknown camera presets", () => {
+    expect(parsePath("/wards/ward-1", "camera=fisheye")).toEqual({ floorId: null, selection: null, camera: "isometric" });
+  });
+});
+
+describe("findMissingViewEntity", () => {
+  const floor = hospital.floors[0];
+  const bed = hospital.beds[0];
+
+  it("finds nothing missing when the hospital has everything in the route", () => {
+    expect(findMissingViewEntity(hospital, { floorId: floor.id, selection: { type: "bed", id: bed.id }, camera: "isometric" })).toBeNull();
+    expect(findMissingViewEntity(hospital, { floorId: null, selection: { type: "staff", id: hospital.staff[0].id }, camera: "top" })).toBeNull();
+  });
+
+  it("reports an unknown floor before the selection", () => {
+    expect(findMissingViewEntity(hospital, { floorId: "floor-99", selection: { type: "bed", id: "nope" }, camera: "isometric" })).toEqual({
+      type: "floor",
+      id: "floor-99",
+    });
+  });
+
+  it("reports a selected entity the hospital does not have", () => {
+    expect(findMissingViewEntity(hospital, { floorId: floor.id, selection: { type: "room", id: "room-99" }, camera: "isometric" })).toEqual({
+      type: "room",
+      id: "room-99",
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { Hospital } from "@/types/hospital";
+
+// The selected entity; a bed selection also shows the patient lying in it, and vice versa, and a
+// staff selection highlights all of their patients
+export type SelectionType = 'bed' | 'patient' | 'room' | 'equipment' | 'staff';
+
+export interface ViewSelection {
+  type: SelectionType;
+  id: string;
+}
+
+// Fixed viewing angles for the 3D camera
+export type CameraPreset = 'isometric' | 'top' | 'front' | 'side';
+
+export const CAMERA_PRESETS: CameraPreset[] = ['isometric', 'top', 'front', 'side'];
+
+// What the view shows, as encoded in the URL: /floors/floor-2/beds/bed-2-3?camera=top. Without a
+// floor segment all floors are shown, e.g. /patients/patient-7.
+export interface ViewRoute {
+  floorId: string | null;
+  selection: ViewSelection | null;
+  camera: CameraPreset;
+}
+
+// Path segment for each selection type, matched by the :entity route param
+const SELECTION_SEGMENTS: Record<SelectionType, string> = {
+  bed: 'beds',
+  patient: 'patients',
+  room: 'rooms',
+  equipment: 'equipment',
+  staff: 'staff',
+};
+
+const CAMERA_PARAM = 'camera';
+
+export const parseSelectionSegment = (segment: string): SelectionType | null =>
+  (Object.keys(SELECTION_SEGMENTS) as SelectionType[]).find(type => SELECTION_SEGMENTS[type] === segment) ?? null;
+
+export const getViewPath = (floorId: string | null, selection: ViewSelection | null): string => {
+  const floorPath = floorId ? `/floors/${encodeURIComponent(floorId)}` : '';
+  const selectionPath = selection ? `/${SELECTION_SEGMENTS[selection.type]}/${encodeURIComponent(selection.id)}` : '';
+  return floorPath + selectionPath || '/';
+};
+
+// Route params come from the routes in App.tsx; an unknown entity segment selects nothing
+export const parseViewRoute = (
+  params: { floorId?: string; entity?: string; entityId?: string },
+  searchParams: URLSearchParams
+): ViewRoute => {
+  const type = params.entity ? parseSelectionSegment(params.entity) : null;
+  const camera = searchParams.get(CAMERA_PARAM) as CameraPreset;
+
+  return {
+    floorId: params.floorId ?? null,
+    selection: type && params.entityId ? { type, id: params.entityId } : null,
+    camera: CAMERA_PRESETS.includes(camera) ? camera : 'isometric',
+  };
+};
+
+// Write the camera preset into a copy of the params; the default isometric view is left out
+export const writeCameraPresetToSearchParams = (params: URLSearchParams, camera: CameraPreset): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  if (camera === 'isometric') {
+    next.delete(CAMERA_PARAM);
+  } else {
+    next.set(CAMERA_PARAM, camera);
+  }
+  return next;
+};
+
+export interface MissingViewEntity {
+  type: 'floor' | SelectionType;
+  id: string;
+}
+
+// The first floor or selected entity in the route that the hospital does not have, if any
+export const findMissingViewEntity = (hospital: Hospital, route: ViewRoute): MissingViewEntity | null => {
+  if (route.floorId && !hospital.floors.some(floor => floor.id === route.floorId)) {
+    return { type: 'floor', id: route.floorId };
+  }
+  if (!route.selection) return null;
+
+  const { type, id } = route.selection;
+  const entities: { id: string }[] = {
+    bed: hospital.beds,
+    patient: hospital.patients,
+    room: hospital.rooms,
+    equipment: hospital.equipment,
+    staff: hospital.staff,
+  }[type];
+  return entities.some(entity => entity.id === id) ? null : route.selection;
+};
@@ -0,0 +1,44 @@
+
+import { RoomKind } from "./hospital";
+
+// [x, z] on the floor plane, in scene units (1 unit = 1 metre)
+export type PlanCoordinate = [number, number];
+
+export interface FloorPlanBed {
+  id: string;
+  position: PlanCoordinate;
+}
+
+export interface FloorPlanRoom {
+  id: string;
+  name: string;
+  kind: RoomKind;
+  // Closed polygon; the first point is not repeated at the end
+  outline: PlanCoordinate[];
+  // Points on the outline where a door opens
+  doors?: PlanCoordinate[];
+  isolation?: boolean;
+  capacity?: number; // defaults to the number of beds
+  beds: FloorPlanBed[];
+}
+
+export interface FloorPlanCorridor {
+  id: string;
+  name?: string;
+  outline: PlanCoordinate[];
+}
+
+// Layout of one existing hospital floor, matched by id
+export interface FloorPlanFloor {
+  floorId: string;
+  rooms: FloorPlanRoom[];
+  corridors?: FloorPlanCorridor[];
+  // Beds standing outside any room
+  beds?: FloorPlanBed[];
+}
+
+export interface FloorPlan {
+  version: 1;
+  name?: string;
+  floors: FloorPlanFloor[];
+}
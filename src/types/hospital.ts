@@ -1,9 +1,12 @@
 
-export type BedStatus = 'available' | 'occupied' | 'cleaning';
+export type BedStatus = 'available' | 'occupied' | 'cleaning' | 'reserved' | 'blocked' | 'maintenance';
 export type PatientStatus = 'critical' | 'stable' | 'discharged';
-export type AdmissionType = 'ICU' | 'General' | 'Emergency';
+export type AdmissionType = 'ICU' | 'General' | 'Emergency' | 'Surgery';
 export type StaffType = 'Doctor' | 'Nurse' | 'Technician';
 export type FloorType = 'ICU' | 'Emergency' | 'General' | 'Surgery';
+export type EquipmentType = 'monitor' | 'ventilator' | 'ct-scanner' | 'mri' | 'surgical-lights' | 'anesthesia-machine';
+export type EquipmentStatus = 'working' | 'maintenance' | 'offline';
+export type RoomKind = 'ward' | 'icu-bay' | 'treatment' | 'operating-room' | 'imaging';
 
 export interface Position {
   x: number;
@@ -11,13 +14,60 @@ export interface Position {
   z: number;
 }
 
+export interface BedStatusChange {
+  from: BedStatus;
+  to: BedStatus;
+  at: string; // ISO timestamp
+}
+
 export interface Bed {
   id: string;
   position: Position;
   patientId?: string;
   status: BedStatus;
   floor: FloorType;
-  room: string;
+  room: string; // room name, kept for display
+  roomId?: string;
+  statusChangedAt?: string; // ISO timestamp of the last status transition
+  statusHistory?: BedStatusChange[];
+}
+
+// Level of consciousness on the ACVPU scale; confusion means new confusion
+export type Consciousness = 'alert' | 'confusion' | 'voice' | 'pain' | 'unresponsive';
+
+// One set of bedside observations
+export interface VitalSigns {
+  timestamp: string; // ISO timestamp
+  respiratoryRate: number; // breaths per minute
+  heartRate: number; // beats per minute
+  systolicBp: number; // mmHg
+  diastolicBp: number; // mmHg
+  spo2: number; // oxygen saturation, %
+  onSupplementalOxygen: boolean;
+  temperature: number; // °C
+  consciousness: Consciousness;
+}
+
+export type PatientNoteCategory = 'progress' | 'nursing' | 'handover' | 'other';
+
+// An earlier version of a note, kept when the note is amended
+export interface PatientNoteRevision {
+  text: string;
+  author: string;
+  timestamp?: string; // ISO timestamp; unknown for notes imported without one
+}
+
+// Notes are append-only: they can be amended but never deleted, and every amendment keeps the
+// text it replaced
+export interface PatientNote {
+  id: string;
+  category: PatientNoteCategory;
+  text: string;
+  author: string; // who wrote the note
+  createdAt?: string; // ISO timestamp; unknown for notes imported without one
+  amendedBy?: string;
+  amendedAt?: string; // ISO timestamp
+  history: PatientNoteRevision[]; // earlier versions, oldest first
 }
 
 export interface Patient {
@@ -27,7 +77,28 @@ export interface Patient {
   assignedStaffIds: string[];
   admissionType: AdmissionType;
   bedId?: string;
-  notes?: string;
+  notes?: PatientNote[]; // oldest first
+  admittedAt?: string; // ISO timestamp
+  expectedDischargeAt?: string; // ISO timestamp
+  diagnosis?: string;
+  allergies?: string[];
+  vitals?: VitalSigns[]; // oldest first
+}
+
+// Where a patient waiting for a bed comes from
+export type AdmissionSource = 'emergency' | 'transfer' | 'elective-surgery';
+
+// A patient waiting for a bed; the request leaves the queue once the patient is admitted or it is cancelled
+export interface PendingAdmission {
+  id: string;
+  patientName: string;
+  source: AdmissionSource;
+  floorType: FloorType; // kind of floor the patient needs a bed on
+  isolation: boolean; // needs a bed in an isolation room
+  requestedAt: string; // ISO timestamp
+  diagnosis?: string;
+  reservedBedId?: string; // bed held for the patient; it stays reserved until the admission
+  reservedAt?: string; // ISO timestamp
 }
 
 export interface Staff {
@@ -38,12 +109,60 @@ export interface Staff {
   floor: FloorType;
 }
 
+export interface Equipment {
+  id: string;
+  name: string;
+  type: EquipmentType;
+  status: EquipmentStatus;
+  position: Position;
+  floor: FloorType;
+  room: string;
+  roomId?: string;
+  bedId?: string; // bedside equipment belongs to a bed
+  lastServiceDate: string; // ISO timestamp
+}
+
+// Point on the floor plane, in scene units
+export interface PlanPoint {
+  x: number;
+  z: number;
+}
+
+// Axis-aligned footprint on the floor plane, in scene units
+export interface RoomBounds {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+export interface Room {
+  id: string;
+  floorId: string;
+  name: string;
+  kind: RoomKind;
+  bounds: RoomBounds;
+  capacity: number; // number of beds the room is staffed for
+  isolation: boolean;
+  // Walls follow the outline when there is one (imported floor plans), otherwise the bounds
+  outline?: PlanPoint[];
+  doors?: PlanPoint[];
+}
+
+// Walkable area without beds, e.g. a corridor
+export interface FloorArea {
+  id: string;
+  name?: string;
+  outline: PlanPoint[];
+}
+
 export interface Floor {
   id: string;
   type: FloorType;
   name: string;
   level: number;
   beds: string[];
+  corridors?: FloorArea[];
 }
 
 export interface Hospital {
@@ -51,4 +170,7 @@ export interface Hospital {
   beds: Bed[];
   patients: Patient[];
   staff: Staff[];
+  equipment: Equipment[];
+  rooms: Room[];
+  pendingAdmissions?: PendingAdmission[]; // oldest request first
 }
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_HOSPITAL_DATA_SOURCE?: 'mock' | 'rest' | 'fixture';
+  readonly VITE_HOSPITAL_API_URL?: string;
+  readonly VITE_HOSPITAL_SEED?: string;
+  readonly VITE_HOSPITAL_REFERENCE_TIME?: string;
+  readonly VITE_HOSPITAL_FLOOR_PLAN_URL?: string;
+  readonly VITE_HOSPITAL_LIVE_URL?: string;
+  readonly VITE_HOSPITAL_LIVE_SSE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -81,6 +81,21 @@ export default {
 							light: '#3b82f6', // blue-500 for light mode
 							dark: '#60a5fa', // blue-400 for dark mode
 						},
+						reserved: {
+							DEFAULT: '#a78bfa', // violet-400
+							light: '#8b5cf6', // violet-500 for light mode
+							dark: '#a78bfa', // violet-400 for dark mode
+						},
+						blocked: {
+							DEFAULT: '#64748b', // slate-500
+							light: '#475569', // slate-600 for light mode
+							dark: '#64748b', // slate-500 for dark mode
+						},
+						maintenance: {
+							DEFAULT: '#facc15', // yellow-400
+							light: '#eab308', // yellow-500 for light mode
+							dark: '#facc15', // yellow-400 for dark mode
+						},
 					},
 					patient: {
 						critical: {